@@ -13,6 +13,9 @@ import { Cpu, Zap, Layers, Activity, ChevronDown, Dices, Network, ArrowRightLeft
 // --- Context & Data ---
 import { SignalContext, SignalType, TargetRegistry } from './src/context/SignalContext';
 import { TRACE_DATA } from './src/data/traceData';
+import { SKILLS_DATA } from './src/data/skillsData';
+import { formatDateRange } from './src/lib/dates';
+import { hasSessionHash } from './src/lib/waveSession';
 
 // --- UI Components ---
 import CustomCursor from './src/components/ui/CustomCursor';
@@ -36,46 +39,11 @@ import WaveformViewer from './src/components/features/WaveformViewer';
 import SignalPacket from './src/components/features/SignalPacket';
 
 // --- Legacy / Moved Components ---
-import Terminal from './src/components/features/Terminal';
+import Terminal, { TerminalWindowMode } from './src/components/features/Terminal';
 
 // Lazy Load the heavy 3D Scene
 const SoCScene = React.lazy(() => import('./src/components/features/SoCScene'));
 
-/**
- * Converts a decimal year to a formatted month/year string.
- * @param decimalYear - Year as decimal (e.g., 2025.41 for May 2025)
- * @param isPresent - If true, returns "Present" instead of the date
- * @returns Formatted date string (e.g., "May 2025")
- */
-const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'April', 'May', 'June', 'July', 'Aug', 'Sept', 'Oct', 'Nov', 'Dec'];
-
-const formatDecimalYear = (decimalYear: number, isPresent = false): string => {
-    if (isPresent) return 'Present';
-    const year = Math.floor(decimalYear);
-    const monthDecimal = (decimalYear - year) * 12;
-    const monthIndex = Math.round(monthDecimal) - 1;
-    // Clamp to valid month range
-    const safeMonthIndex = Math.max(0, Math.min(11, monthIndex < 0 ? 0 : monthIndex));
-    return `${MONTH_NAMES[safeMonthIndex]} ${year}`;
-};
-
-/**
- * Formats a date range from trace data entry.
- * @param start - Start decimal year
- * @param end - End decimal year
- * @returns Formatted date range (e.g., "May 2025 - Present")
- */
-const formatDateRange = (start: number, end: number): string => {
-    const currentYear = new Date().getFullYear();
-    const currentMonth = new Date().getMonth() + 1; // 1-indexed
-    const currentDecimal = currentYear + (currentMonth / 12);
-
-    // If end date is close to or beyond current date, show "Present"
-    const isPresent = end >= currentDecimal - 0.1;
-
-    return `${formatDecimalYear(start)} - ${formatDecimalYear(end, isPresent)}`;
-};
-
 /**
  * Main Application Component.
  * 
@@ -90,10 +58,12 @@ const AppContent = () => {
     const [signals, setSignals] = useState<SignalType[]>([]);
     const [activeHits, setActiveHits] = useState<Set<string>>(new Set());
     const [bootComplete, setBootComplete] = useState(false);
-    const [viewMode, setViewMode] = useState<'log' | 'wave'>('log');
+    // A shared waveform link opens the trace as waves
+    const [viewMode, setViewMode] = useState<'log' | 'wave'>(() => hasSessionHash(window.location.hash) ? 'wave' : 'log');
     const [theme, setTheme] = useState<'default' | 'silicon' | 'light'>('default');
     const [showMobileWarning, setShowMobileWarning] = useState(false);
     const [showCommandPalette, setShowCommandPalette] = useState(false);
+    const [terminalMode, setTerminalMode] = useState<TerminalWindowMode | 'closed'>('normal');
 
     useEffect(() => {
         // Simple check for mobile width
@@ -193,9 +163,13 @@ const AppContent = () => {
 
     useLayoutEffect(() => {
         if (bootComplete) {
-            window.scrollTo(0, 0);
+            // A shared waveform link lands on the trace; anything else starts at the top
+            const scroll = hasSessionHash(window.location.hash)
+                ? () => document.getElementById('trace')?.scrollIntoView()
+                : () => window.scrollTo(0, 0);
+            scroll();
             // Safety timeout for lower-end devices or slow frames
-            setTimeout(() => window.scrollTo(0, 0), 10);
+            setTimeout(scroll, 10);
         }
     }, [bootComplete]);
 
@@ -418,12 +392,9 @@ const AppContent = () => {
                                 <div className="absolute -right-1 top-24 w-1 h-8 bg-gray-700 rounded-l" />
 
                                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                                    <SkillNode index={0} name="SystemVerilog" level={95} />
-                                    <SkillNode index={1} name="UVM Framework" level={90} />
-                                    <SkillNode index={2} name="Python / Scripting" level={85} />
-                                    <SkillNode index={3} name="Ethernet / COMPHY" level={80} />
-                                    <SkillNode index={4} name="Verdi / DVE" level={88} />
-                                    <SkillNode index={5} name="Formal (JasperGold)" level={75} />
+                                    {SKILLS_DATA.map((skill, i) => (
+                                        <SkillNode key={skill.name} index={i} name={skill.name} level={skill.level} />
+                                    ))}
                                 </div>
                             </div>
                         </div>
@@ -492,7 +463,20 @@ const AppContent = () => {
                         <div className="max-w-4xl w-full z-10 text-center mb-12">
                             <h2 className="text-3xl font-bold mb-4">Run Simulation</h2>
                             <p className="text-gray-400 mb-8">Access my contact info, download my resume, change themes, and more.</p>
-                            <Terminal onThemeChange={setTheme} />
+                            {terminalMode === 'closed' ? (
+                                <p className="font-mono text-sm text-gray-500">
+                                    [Process completed] Press <span className="text-electric">:</span> and type <span className="text-electric">terminal</span>, or{' '}
+                                    <button className="text-electric underline" onClick={() => setTerminalMode('normal')}>reopen</button>.
+                                </p>
+                            ) : (
+                                <Terminal
+                                    onThemeChange={setTheme}
+                                    theme={theme}
+                                    onClose={() => setTerminalMode('closed')}
+                                    mode={terminalMode}
+                                    onModeChange={setTerminalMode}
+                                />
+                            )}
                         </div>
 
                         <footer className="absolute bottom-8 md:bottom-12 text-gray-600 text-sm font-mono">
@@ -505,6 +489,7 @@ const AppContent = () => {
                         isOpen={showCommandPalette}
                         onClose={() => setShowCommandPalette(false)}
                         onThemeChange={setTheme}
+                        onOpenTerminal={() => setTerminalMode(mode => mode === 'maximized' ? mode : 'normal')}
                     />
                 </motion.div>
             )}
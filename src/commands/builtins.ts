@@ -0,0 +1,307 @@
+/**
+ * @file builtins.ts
+ * @description Built-in command definitions shared by the Terminal and the VimCommandPalette.
+ * Handlers only talk to the outside world through the CommandContext they receive.
+ * @module Commands
+ * @author Mishat
+ */
+import { CommandContext, CommandSpec, ThemeName } from './types';
+import { RESUME_PATH } from '../data/filesystem';
+import { abortError } from '../lib/async';
+
+/** Page section ids that navigation commands can jump to. */
+export const SECTION_IDS = ['top', 'verification', 'coverage', 'trace', 'terminal'];
+
+/**
+ * Theme argument values mapped to the theme they activate and the message printed.
+ */
+const THEME_CHOICES: Record<string, { theme: ThemeName; message: string }> = {
+    'silicon': { theme: 'silicon', message: 'SWITCHING TO RTL VIEW... GATE LEVEL PRIMITIVES EXPOSED.' },
+    'light': { theme: 'light', message: 'ACTIVATING CLEAN ROOM PROTOCOLS... ILLUMINATION: 100%' },
+    'dark': { theme: 'default', message: 'REVERTING TO ABSTRACTION LAYER 0.' },
+    'default': { theme: 'default', message: 'REVERTING TO ABSTRACTION LAYER 0.' },
+};
+
+/**
+ * Triggers a browser download for a same-origin file.
+ * @param href - URL of the file
+ * @param filename - Suggested filename for the download
+ */
+export const downloadFile = (href: string, filename: string) => {
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+/**
+ * Offers generated text to the browser as a file download.
+ * @param content - File contents
+ * @param filename - Suggested filename for the download
+ * @param type - MIME type of the blob
+ */
+export const downloadText = (content: string, filename: string, type = 'text/plain') =>
+    downloadBlob(new Blob([content], { type }), filename);
+
+/**
+ * Offers generated data (an image, say) to the browser as a file download.
+ * @param blob - File contents
+ * @param filename - Suggested filename for the download
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadFile(url, filename);
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Asks the visitor to pick a local file and reads it as text.
+ * @param accept - File types offered by the dialog (an `accept` attribute value)
+ * @param signal - Optional signal that abandons the dialog
+ * @returns The file's name and contents, or null if the dialog was cancelled
+ * @throws {DOMException} AbortError if the signal fires first
+ */
+export const uploadText = (accept: string, signal?: AbortSignal) =>
+    new Promise<{ name: string; content: string } | null>((resolve, reject) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = accept;
+        input.addEventListener('change', () => {
+            const picked = input.files?.[0];
+            if (!picked) resolve(null);
+            else picked.text().then(content => resolve({ name: picked.name, content }), reject);
+        });
+        input.addEventListener('cancel', () => resolve(null));
+        signal?.addEventListener('abort', () => reject(abortError()), { once: true });
+        input.click();
+    });
+
+/**
+ * Smooth-scrolls to a page section and dismisses the invoking surface.
+ */
+const scrollToSection = (id: string, ctx: CommandContext) => {
+    if (id === 'top') {
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    } else {
+        document.getElementById(id)?.scrollIntoView({ behavior: 'smooth' });
+    }
+    ctx.close();
+};
+
+/**
+ * Built-in commands, in the order `help` lists them.
+ * `help` itself lives in the registry because it needs to enumerate this list.
+ */
+export const BUILTIN_COMMANDS: CommandSpec[] = [
+    {
+        name: 'echo',
+        summary: 'Print arguments',
+        args: [{ name: 'text', optional: true, variadic: true }],
+        manual: {
+            description: 'Prints its arguments separated by single spaces. Variables are expanded first, so quoting decides what is printed literally.',
+            examples: [
+                ['echo hello world', 'Print "hello world"'],
+                ['echo "cwd: $PWD"', 'Print the working directory'],
+                ["echo 'theme silicon' >> ~/.bashrc", 'Append a line to the startup script'],
+            ],
+            seeAlso: ['cat', 'env'],
+        },
+        run: (args, ctx) => ctx.print(args.join(' ')),
+    },
+    {
+        name: 'whoami',
+        summary: 'Print a short bio',
+        manual: {
+            description: 'Prints a one-line bio: who I am and what I do.',
+            seeAlso: ['contact', 'skills', 'resume'],
+        },
+        run: (_, ctx) => ctx.print('Mishat | Senior Design Verification Engineer @ Marvell Technology. Obsessed with zero bugs.'),
+    },
+    {
+        name: 'skills',
+        summary: 'List technical skills, one per line',
+        manual: {
+            description: 'Lists the languages, methodologies and tools I work with, one per line, so the output can be piped through the text filters. From the command palette it jumps to the skills coverage section instead.',
+            examples: [
+                ['skills | grep -i verilog', 'Check for a particular skill'],
+                ['skills | wc -l', 'Count them'],
+            ],
+            seeAlso: ['whoami', 'grep'],
+        },
+        run: (_, ctx) => {
+            if (ctx.surface === 'palette') return scrollToSection('coverage', ctx);
+            ctx.print(['SystemVerilog', 'UVM', 'Python', 'Formal Verification', 'Verdi', 'DVE', 'C++'].join('\n'));
+        },
+    },
+    {
+        name: 'contact',
+        summary: 'Show contact details',
+        manual: {
+            description: 'Prints my e-mail address and LinkedIn handle. From the command palette it jumps to the Terminal section, where they are listed.',
+            seeAlso: ['whoami', 'resume'],
+        },
+        run: (_, ctx) => {
+            if (ctx.surface === 'palette') return scrollToSection('terminal', ctx);
+            ctx.print('Email: mishath@mun.ca | LinkedIn: in/mishathassan');
+        },
+    },
+    {
+        name: 'resume',
+        summary: 'Download my resume (PDF)',
+        manual: {
+            description: 'Downloads my resume as a PDF. The same file is in the home directory as resume.pdf.',
+            examples: [
+                ['resume', 'Download the PDF'],
+                ['cat ~/resume.pdf', 'Same thing, the long way round'],
+            ],
+            seeAlso: ['contact', 'cat'],
+        },
+        run: (_, ctx) => {
+            downloadFile(RESUME_PATH, 'Mishat_Hassan_Resume.pdf');
+            ctx.print('Downloading resume...');
+        },
+    },
+    {
+        name: 'theme',
+        aliases: ['colorscheme', 'colo'],
+        summary: 'Switch the colour theme',
+        args: [{ name: 'scheme', choices: Object.keys(THEME_CHOICES) }],
+        manual: {
+            description: 'Switches the colour theme of the whole site. silicon is a gate-level X-ray look, light is the clean-room look, and dark (or default) returns to the obsidian theme.\n\nTo keep a theme across visits, add the command to ~/.bashrc. The active theme is available as $THEME.',
+            examples: [
+                ['theme silicon', 'Switch to the silicon theme'],
+                [':colo light', 'The same from the command palette, vim style'],
+                ["echo 'theme light' >> ~/.bashrc", 'Start in the light theme next time'],
+            ],
+            seeAlso: ['env', 'source'],
+        },
+        run: ([scheme], ctx) => {
+            const choice = THEME_CHOICES[scheme];
+            ctx.setTheme(choice.theme);
+            ctx.print(choice.message);
+        },
+    },
+    {
+        name: 'goto',
+        aliases: ['go'],
+        summary: 'Jump to a page section',
+        args: [{ name: 'section', choices: SECTION_IDS }],
+        manual: {
+            description: 'Smooth-scrolls to a section of the page and closes the command palette if it was used.',
+            examples: [
+                ['goto trace', 'Jump to the execution trace'],
+                [':go coverage', 'Jump to the skills coverage from the palette'],
+            ],
+            seeAlso: ['top', 'bottom'],
+        },
+        run: ([section], ctx) => scrollToSection(section, ctx),
+    },
+    {
+        name: 'verification',
+        summary: 'Jump to the verification section',
+        surfaces: ['palette'],
+        manual: {
+            description: 'Scrolls to the verification section; short for goto verification.',
+            seeAlso: ['goto', 'trace'],
+        },
+        run: (_, ctx) => scrollToSection('verification', ctx),
+    },
+    {
+        name: 'trace',
+        summary: 'Jump to the execution trace',
+        surfaces: ['palette'],
+        manual: {
+            description: 'Scrolls to the execution trace; short for goto trace.',
+            seeAlso: ['goto', 'verification'],
+        },
+        run: (_, ctx) => scrollToSection('trace', ctx),
+    },
+    {
+        name: 'top',
+        aliases: ['0'],
+        summary: 'Scroll to the top of the page',
+        surfaces: ['palette'],
+        manual: {
+            description: 'Scrolls to the top of the page, like gg in vim.',
+            seeAlso: ['bottom', 'goto'],
+        },
+        run: (_, ctx) => scrollToSection('top', ctx),
+    },
+    {
+        name: 'bottom',
+        aliases: ['$'],
+        summary: 'Scroll to the bottom of the page',
+        surfaces: ['palette'],
+        manual: {
+            description: 'Scrolls to the bottom of the page, like G in vim.',
+            seeAlso: ['top', 'goto'],
+        },
+        run: (_, ctx) => {
+            window.scrollTo({ top: document.body.scrollHeight, behavior: 'smooth' });
+            ctx.close();
+        },
+    },
+    {
+        name: 'terminal',
+        aliases: ['term'],
+        summary: 'Open the Terminal window (after closing or minimizing it)',
+        surfaces: ['palette'],
+        manual: {
+            description: 'Brings the Terminal back after it was closed with the red button or minimized to the dock, and scrolls to it. A maximized Terminal stays maximized.',
+            examples: [[':terminal', 'Reopen the Terminal']],
+            seeAlso: ['goto'],
+        },
+        run: (_, ctx) => {
+            ctx.openTerminal?.();
+            scrollToSection('terminal', ctx);
+        },
+    },
+    {
+        name: 'clear',
+        summary: 'Clear the screen',
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Clears the Terminal screen. Input history is kept.',
+            seeAlso: ['history'],
+        },
+        run: (_, ctx) => ctx.clear(),
+    },
+    {
+        name: 'history',
+        summary: 'Show input history, or clear it with -c',
+        args: [{ name: 'clear', choices: ['-c'], optional: true }],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Prints previously entered lines, numbered, oldest first. History is saved in this browser and can also be browsed with the Up and Down keys or searched with Ctrl+R.\n\n-c forgets every entry.',
+            examples: [
+                ['history | tail -n 5', 'Show the last five lines'],
+                ['history | grep run_test', 'Find earlier simulations'],
+                ['history -c', 'Clear the history'],
+            ],
+            seeAlso: ['clear'],
+        },
+        run: ([flag], ctx) => {
+            if (!ctx.history) return;
+            if (flag === '-c') {
+                ctx.history.clear();
+                return;
+            }
+            const width = String(ctx.history.entries.length).length;
+            ctx.print(ctx.history.entries.map((line, i) => `  ${String(i + 1).padStart(width)}  ${line}`).join('\n'));
+        },
+    },
+    {
+        name: 'quit',
+        aliases: ['q', 'wq', 'x'], // wq is an easter egg - "write and quit"
+        summary: 'Close the command line',
+        surfaces: ['palette'],
+        manual: {
+            description: 'Closes the command palette. :wq and :x work too, though there is nothing to write.',
+            seeAlso: ['terminal'],
+        },
+        run: (_, ctx) => ctx.close(),
+    },
+];
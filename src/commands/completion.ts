@@ -0,0 +1,80 @@
+/**
+ * @file completion.ts
+ * @description Tab completion for registry commands.
+ * Candidates come from the command names, aliases and argument specs, so a new
+ * command is completable as soon as it is registered.
+ * @module Commands
+ * @author Mishat
+ */
+import { getCommands, resolveCommand } from './registry';
+import { CompletionEnv } from './types';
+import { commandStart } from '../lib/shell';
+
+/**
+ * Result of completing a line.
+ */
+export interface CompletionResult {
+    /** The line with the current word completed as far as it is unambiguous */
+    line: string;
+    /** Every candidate for the current word (more than one means ambiguous) */
+    candidates: string[];
+}
+
+/**
+ * Returns the longest prefix shared by all strings.
+ */
+const commonPrefix = (values: string[]) => values.reduce((prefix, value) => {
+    let i = 0;
+    while (i < prefix.length && i < value.length && prefix[i] === value[i]) i++;
+    return prefix.slice(0, i);
+});
+
+/**
+ * Lists the candidates for the word at `wordIndex`.
+ * @param words - Words before the one being completed
+ * @param wordIndex - Position of the word being completed (0 is the command)
+ * @param prefix - The partial word typed so far
+ */
+const getCandidates = (words: string[], wordIndex: number, prefix: string, env: CompletionEnv): string[] => {
+    const { surface } = env;
+    if (wordIndex === 0) {
+        const names = getCommands(surface).flatMap(spec => prefix ? [spec.name, ...(spec.aliases ?? [])] : [spec.name]);
+        return names.filter(name => name.startsWith(prefix));
+    }
+
+    const spec = resolveCommand(words[0], surface);
+    const specs = spec?.args ?? [];
+    const last = specs[specs.length - 1];
+    const argSpec = wordIndex - 1 < specs.length ? specs[wordIndex - 1] : last?.variadic ? last : undefined;
+    if (!argSpec) return [];
+
+    const values = argSpec.choices ?? argSpec.complete?.(prefix, env) ?? [];
+    const lower = prefix.toLowerCase();
+    return values.filter(value => value.toLowerCase().startsWith(lower));
+};
+
+/**
+ * Completes the last word of a command line. Only the last command of a
+ * pipeline or list counts, so the word after `|`, `;` or `&&` is a command name.
+ * A unique candidate is inserted followed by a space (directories keep their
+ * trailing slash instead); ambiguous candidates are completed to their common
+ * prefix and returned for listing.
+ * @param line - The current input
+ * @param env - The surface (and shell session) whose commands are considered
+ */
+export const completeLine = (line: string, env: CompletionEnv): CompletionResult => {
+    const words = line.slice(commandStart(line)).trimStart().split(/\s+/);
+    const prefix = words.pop() ?? '';
+    const candidates = Array.from(new Set(getCandidates(words, words.length, prefix, env))).sort();
+
+    if (candidates.length === 0) return { line, candidates };
+
+    const head = line.slice(0, line.length - prefix.length);
+    if (candidates.length === 1) {
+        const [only] = candidates;
+        return { line: head + only + (only.endsWith('/') ? '' : ' '), candidates };
+    }
+
+    const shared = commonPrefix(candidates);
+    return { line: shared.length > prefix.length ? head + shared : line, candidates };
+};
@@ -0,0 +1,195 @@
+/**
+ * @file environment.ts
+ * @description Shell state commands: `export`, `unset`, `env`, `alias` and `unalias`,
+ * plus the variable lookup used for `$VAR` expansion.
+ * @module Commands
+ * @author Mishat
+ */
+import { CommandError } from './errors';
+import { ArgSpec, CommandContext, CommandSpec, ShellSession } from './types';
+import { HOME_DIR, basename } from '../lib/vfs';
+
+/**
+ * Variables the shell computes itself. They always reflect the current state
+ * and cannot be assigned.
+ */
+const BUILTIN_VARIABLES: Record<string, (ctx: CommandContext) => string | undefined> = {
+    HOME: () => HOME_DIR,
+    PWD: ctx => ctx.session?.cwd,
+    THEME: ctx => ctx.theme,
+    USER: () => basename(HOME_DIR),
+};
+
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+/**
+ * Returns the value of a variable, or undefined if it is unset.
+ */
+export const lookupVariable = (ctx: CommandContext, name: string) => {
+    if (Object.hasOwn(BUILTIN_VARIABLES, name)) return BUILTIN_VARIABLES[name](ctx);
+    const env = ctx.session?.env;
+    return env && Object.hasOwn(env, name) ? env[name] : undefined;
+};
+
+/**
+ * Single-quotes a value so that it reads back as the same word, as `alias` prints it.
+ */
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Splits a `NAME=value` argument; `value` is undefined when there is no `=`.
+ */
+const splitAssignment = (arg: string): [string, string | undefined] => {
+    const eq = arg.indexOf('=');
+    return eq === -1 ? [arg, undefined] : [arg.slice(0, eq), arg.slice(eq + 1)];
+};
+
+/**
+ * Runs a handler against the session, reporting per-argument errors bash-style
+ * (`name: arg: message`) and returning status 1 if any argument failed.
+ */
+const forEachArg = (name: string, body: (session: ShellSession, arg: string) => void) =>
+    (args: string[], ctx: CommandContext) => {
+        if (!ctx.session) throw new CommandError(`${name}: no shell session`);
+        let status = 0;
+        for (const arg of args) {
+            try {
+                body(ctx.session, arg);
+            } catch (err) {
+                if (!(err instanceof CommandError)) throw err;
+                ctx.error(`bash: ${name}: ${err.message}`);
+                status = 1;
+            }
+        }
+        return status;
+    };
+
+/** Completes variable names the session knows about. */
+const variableArg: ArgSpec = {
+    name: 'name',
+    optional: true,
+    variadic: true,
+    complete: (_, { session }) => Object.keys(session?.env ?? {}),
+};
+
+export const ENVIRONMENT_COMMANDS: CommandSpec[] = [
+    {
+        name: 'export',
+        summary: 'Set environment variables, or list them',
+        usage: 'export [NAME[=value]...]',
+        args: [variableArg],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Sets each NAME to value, creating the variable if needed. A NAME without a value is created empty. With no arguments, lists the variables in the `declare -x` form bash uses.\n\nVariables expand anywhere on a command line as $NAME or ${NAME}, except inside single quotes. HOME, PWD, THEME and USER are maintained by the shell and are read-only. $? holds the exit status of the previous command.',
+            examples: [
+                ['export SEED=42', 'Set a variable'],
+                ['run_test +ntb_random_seed=$SEED', 'Use it'],
+                ["echo 'export SEED=42' >> ~/.bashrc", 'Set it in every new Terminal'],
+            ],
+            seeAlso: ['unset', 'env', 'source'],
+        },
+        run: (args, ctx) => {
+            if (!args.length) {
+                const env = ctx.session?.env ?? {};
+                ctx.print(Object.keys(env).sort().map(key => `declare -x ${key}="${env[key]}"`).join('\n'));
+                return;
+            }
+            return forEachArg('export', (session, arg) => {
+                const [key, value] = splitAssignment(arg);
+                if (!IDENTIFIER.test(key)) throw new CommandError(`\`${arg}': not a valid identifier`);
+                if (Object.hasOwn(BUILTIN_VARIABLES, key)) throw new CommandError(`${key}: readonly variable`);
+                session.env[key] = value ?? (Object.hasOwn(session.env, key) ? session.env[key] : '');
+            })(args, ctx);
+        },
+    },
+    {
+        name: 'unset',
+        summary: 'Remove environment variables',
+        args: [{ ...variableArg, optional: false }],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Removes the named variables. Unsetting a variable that does not exist is not an error.',
+            examples: [['unset SEED', 'Forget SEED']],
+            seeAlso: ['export', 'env'],
+        },
+        run: forEachArg('unset', (session, key) => {
+            if (Object.hasOwn(BUILTIN_VARIABLES, key)) throw new CommandError(`${key}: cannot unset: readonly variable`);
+            delete session.env[key];
+        }),
+    },
+    {
+        name: 'env',
+        aliases: ['printenv'],
+        summary: 'Print all variables, including built-ins',
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Prints every variable as NAME=value, sorted by name, including the read-only ones the shell maintains.',
+            examples: [['env | grep THEME', 'Show the active theme']],
+            seeAlso: ['export', 'unset'],
+        },
+        run: (_, ctx) => {
+            const names = [...new Set([...Object.keys(BUILTIN_VARIABLES), ...Object.keys(ctx.session?.env ?? {})])].sort();
+            ctx.print(names.flatMap(key => {
+                const value = lookupVariable(ctx, key);
+                return value === undefined ? [] : [`${key}=${value}`];
+            }).join('\n'));
+        },
+    },
+    {
+        name: 'alias',
+        summary: 'Define or list aliases',
+        usage: 'alias [name[=value]...]',
+        args: [{ name: 'name', optional: true, variadic: true, complete: (_, { session }) => Object.keys(session?.aliases ?? {}) }],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'With name=value arguments, defines aliases: when name is typed as a command, value is substituted for it. The value may contain pipes and ; or && sequences. With a bare name, prints that alias; with no arguments, prints them all.\n\nAliases last until the Terminal is closed; put them in ~/.bashrc to keep them.',
+            examples: [
+                ["alias ll='ls ~/experience'", 'Define an alias'],
+                ["alias fails='regress | grep FAIL'", 'Aliases can hold pipelines'],
+                ["echo \"alias rt='run_test'\" >> ~/.bashrc", 'Keep an alias for next time'],
+            ],
+            seeAlso: ['unalias', 'source'],
+        },
+        run: (args, ctx) => {
+            const format = (name: string, value: string) => `alias ${name}=${shellQuote(value)}`;
+            if (!args.length) {
+                const aliases = ctx.session?.aliases ?? {};
+                ctx.print(Object.keys(aliases).sort().map(name => format(name, aliases[name])).join('\n'));
+                return;
+            }
+            return forEachArg('alias', (session, arg) => {
+                const [name, value] = splitAssignment(arg);
+                if (value !== undefined) {
+                    if (!name || /[\s|;&>'"\\$/]/.test(name)) throw new CommandError(`\`${name}': invalid alias name`);
+                    session.aliases[name] = value;
+                } else if (Object.hasOwn(session.aliases, name)) {
+                    ctx.print(format(name, session.aliases[name]));
+                } else {
+                    throw new CommandError(`${name}: not found`);
+                }
+            })(args, ctx);
+        },
+    },
+    {
+        name: 'unalias',
+        summary: 'Remove aliases (-a removes all)',
+        usage: 'unalias [-a] name...',
+        args: [{ name: 'name', variadic: true, complete: (_, { session }) => ['-a', ...Object.keys(session?.aliases ?? {})] }],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Removes the named aliases, or every alias with -a.',
+            examples: [['unalias ll', 'Remove the ll alias']],
+            seeAlso: ['alias'],
+        },
+        run: (args, ctx) => {
+            if (args.includes('-a')) {
+                for (const name of Object.keys(ctx.session?.aliases ?? {})) delete ctx.session?.aliases[name];
+                return;
+            }
+            return forEachArg('unalias', (session, name) => {
+                if (!Object.hasOwn(session.aliases, name)) throw new CommandError(`${name}: not found`);
+                delete session.aliases[name];
+            })(args, ctx);
+        },
+    },
+];
@@ -0,0 +1,32 @@
+/**
+ * @file errors.ts
+ * @description Error classes command handlers throw to abort with a message.
+ * The registry catches them and reports them on the surface's error stream.
+ * @module Commands
+ * @author Mishat
+ */
+
+/**
+ * A command failed. The message is printed verbatim.
+ */
+export class CommandError extends Error {
+    /** Exit status reported to the shell (non-zero) */
+    status: number;
+
+    constructor(message: string, status = 1) {
+        super(message);
+        this.name = 'CommandError';
+        this.status = status;
+    }
+}
+
+/**
+ * A command was invoked with arguments it cannot accept.
+ * The registry prints the command's usage line instead of the message.
+ */
+export class UsageError extends CommandError {
+    constructor(message = 'invalid arguments') {
+        super(message, 2);
+        this.name = 'UsageError';
+    }
+}
@@ -0,0 +1,183 @@
+/**
+ * @file filesystem.ts
+ * @description Coreutils-style commands over the Terminal's virtual filesystem:
+ * ls, cd, pwd, cat and tree, plus output redirection into the filesystem.
+ * @module Commands
+ * @author Mishat
+ */
+import { downloadFile, downloadText } from './builtins';
+import { CommandError } from './errors';
+import { ArgSpec, CommandContext, CommandSpec, CompletionEnv } from './types';
+import { DOWNLOADS_DIR } from '../data/filesystem';
+import { parseOptions } from './textutils';
+import { SGR, paint } from '../lib/ansi';
+import {
+    HOME_DIR, VfsError, basename, completePath, getDir, getFile, listEntries, lookup, renderTree, resolvePath, writeFile,
+} from '../lib/vfs';
+
+/**
+ * Completes a path argument against the session's working directory.
+ */
+const completeFsPath = (partial: string, { session }: CompletionEnv) =>
+    session ? completePath(session.root, session.cwd, partial) : [];
+
+/** Declares an optional path argument with filesystem completion. */
+export const pathArg = (extra: Partial<ArgSpec> = {}): ArgSpec => ({ name: 'path', optional: true, complete: completeFsPath, ...extra });
+
+/**
+ * Runs a filesystem operation once per path argument (or on "." if none).
+ * VfsErrors are reported as "cmd: path: message" without stopping the other paths.
+ * @returns A handler whose exit status is 1 if any path failed
+ */
+const withSession = (
+    name: string,
+    body: (session: NonNullable<CommandContext['session']>, ctx: CommandContext, path: string) => void,
+) => (args: string[], ctx: CommandContext) => {
+    if (!ctx.session) throw new CommandError(`${name}: no filesystem on this surface`);
+    let status = 0;
+    for (const path of args.length ? args : ['.']) {
+        try {
+            body(ctx.session, ctx, path);
+        } catch (err) {
+            if (!(err instanceof VfsError)) throw err;
+            ctx.error(`${name}: ${path}: ${err.message}`);
+            status = 1;
+        }
+    }
+    return status;
+};
+
+/**
+ * Writes a command's captured output to a file, as `>` / `>>` do.
+ * Files written into ~/Downloads are also handed to the browser.
+ * @param ctx - Context of the invoking surface
+ * @param path - Target path as typed
+ * @param lines - Captured output lines
+ * @param append - True for `>>`
+ * @throws {CommandError} if the target cannot be written
+ */
+export const redirectOutput = (ctx: CommandContext, path: string, lines: string[], append: boolean) => {
+    if (!ctx.session) throw new CommandError('bash: redirection needs a filesystem');
+    const resolved = resolvePath(ctx.session.cwd, path);
+    if (resolved === '/dev/null') return;
+
+    try {
+        writeFile(ctx.session.root, resolved, lines.join('\n'), append);
+    } catch (err) {
+        if (!(err instanceof VfsError)) throw err;
+        throw new CommandError(`bash: ${path}: ${err.message}`);
+    }
+
+    if (resolved.startsWith(DOWNLOADS_DIR + '/')) {
+        downloadText(getFile(ctx.session.root, resolved).content, basename(resolved));
+    }
+};
+
+export const FILESYSTEM_COMMANDS: CommandSpec[] = [
+    {
+        name: 'ls',
+        summary: 'List directory contents',
+        usage: 'ls [-a] [path...]',
+        args: [pathArg({ variadic: true })],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Lists the contents of each directory (the working directory by default), directories first. Files that stand for real downloads show where they point. When the output is piped, entries are printed one per line.\n\nEntries whose names start with a dot, like .bashrc, are hidden unless -a is given.',
+            examples: [
+                ['ls ~/experience', 'List the career logs'],
+                ['ls skills | wc -l', 'Count the skill reports'],
+                ['ls -a ~', 'Include hidden files such as .bashrc'],
+            ],
+            seeAlso: ['cd', 'tree', 'cat'],
+        },
+        run: (args, ctx) => {
+            const { flags, operands } = parseOptions(args, 'a');
+            return withSession('ls', (session, _, path) => {
+                const resolved = resolvePath(session.cwd, path);
+                const node = lookup(session.root, resolved);
+                if (node?.type === 'file') {
+                    ctx.print(node.href ? `${path} -> ${node.href}` : path);
+                    return;
+                }
+                const entries = flags.has('a')
+                    ? ['./', '../', ...listEntries(getDir(session.root, resolved))]
+                    : listEntries(getDir(session.root, resolved)).filter(entry => !entry.startsWith('.'));
+                // Like ls without a tty, list one entry per line into pipes and skip colours
+                const listing = ctx.isPiped
+                    ? entries.join('\n')
+                    : entries.map(entry => entry.endsWith('/') ? paint(entry, SGR.bold, SGR.blue) : entry).join('  ');
+                ctx.print(operands.length > 1 ? `${path}:\n${listing}` : listing);
+            })(operands, ctx);
+        },
+    },
+    {
+        name: 'cd',
+        summary: 'Change the working directory',
+        args: [pathArg()],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Changes the working directory. With no argument, goes to the home directory. ~ stands for the home directory and .. for the parent.',
+            examples: [
+                ['cd experience', 'Enter a directory'],
+                ['cd ..', 'Go up one level'],
+                ['cd', 'Go home'],
+            ],
+            seeAlso: ['pwd', 'ls'],
+        },
+        run: ([path = HOME_DIR], ctx) => withSession('cd', (session) => {
+            const resolved = resolvePath(session.cwd, path);
+            getDir(session.root, resolved);
+            session.setCwd(resolved);
+        })([path], ctx),
+    },
+    {
+        name: 'pwd',
+        summary: 'Print the working directory',
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Prints the absolute path of the working directory. It is also available as $PWD.',
+            seeAlso: ['cd'],
+        },
+        run: (_, ctx) => {
+            if (ctx.session) ctx.print(ctx.session.cwd);
+        },
+    },
+    {
+        name: 'cat',
+        summary: 'Print file contents',
+        args: [pathArg({ name: 'file', optional: false, variadic: true })],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Prints the contents of each file in turn. Files that stand for real assets, such as resume.pdf, are downloaded instead.',
+            examples: [
+                ['cat about.txt', 'Print a file'],
+                ['cat about.txt contact.txt', 'Print two files one after the other'],
+                ['cat contact.txt | grep Email', 'Filter a file'],
+            ],
+            seeAlso: ['ls', 'head', 'grep'],
+        },
+        run: withSession('cat', (session, ctx, path) => {
+            const target = getFile(session.root, resolvePath(session.cwd, path));
+            if (target.href) {
+                // Linked assets are binary; hand them to the browser instead
+                downloadFile(target.href, basename(target.href));
+                ctx.print(`cat: ${path}: binary file, downloading ${basename(target.href)}...`);
+                return;
+            }
+            ctx.print(target.content);
+        }),
+    },
+    {
+        name: 'tree',
+        summary: 'Show a directory as a tree',
+        args: [pathArg()],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Draws a directory and everything below it as an indented tree.',
+            examples: [['tree ~', 'Show the whole home directory']],
+            seeAlso: ['ls'],
+        },
+        run: withSession('tree', (session, ctx, path) => {
+            ctx.print(renderTree(getDir(session.root, resolvePath(session.cwd, path)), path));
+        }),
+    },
+];
@@ -0,0 +1,427 @@
+/**
+ * @file registry.ts
+ * @description Single command registry shared by the Terminal and the VimCommandPalette.
+ * Resolves names and aliases, validates arguments against their specs, and generates
+ * `help`, usage and unknown-command messages so every front-end stays consistent.
+ * Also executes parsed shell scripts: pipelines, sequencing and redirection.
+ * @module Commands
+ * @author Mishat
+ */
+import { BUILTIN_COMMANDS, uploadText } from './builtins';
+import { ENVIRONMENT_COMMANDS, lookupVariable } from './environment';
+import { CommandError, UsageError } from './errors';
+import { FILESYSTEM_COMMANDS, pathArg, redirectOutput } from './filesystem';
+import { SIMULATION_COMMANDS } from './simulation';
+import { TEXT_COMMANDS } from './textutils';
+import { VERILOG_COMMANDS } from './verilog';
+import { WAVEFORM_COMMANDS } from './waveform';
+import { ArgSpec, CommandContext, CommandSpec, CommandSurface } from './types';
+import { Pipeline, ShellSyntaxError, Word, expandWord, parseScript } from '../lib/shell';
+import { SGR, paint } from '../lib/ansi';
+import { isAbortError } from '../lib/async';
+import { VfsError, getFile, resolvePath } from '../lib/vfs';
+
+/**
+ * Every registered command, in the order `help` lists them.
+ */
+export const COMMAND_REGISTRY: CommandSpec[] = [
+    {
+        name: 'help',
+        summary: 'List commands, or describe one',
+        args: [{ name: 'command', optional: true, complete: (_, { surface }) => getCommands(surface).map(spec => spec.name) }],
+        manual: {
+            description: 'Without an argument, lists the commands available here with a one-line summary each. With a command name, prints its synopsis and aliases.\n\nIn the command palette, :help with a topic opens the full manual page, as in vim.',
+            examples: [
+                ['help', 'List commands'],
+                ['help run_test', 'Show how to call run_test'],
+                [':help theme', 'Read the theme manual from the palette'],
+            ],
+            seeAlso: ['man'],
+        },
+        run: ([name], ctx) => {
+            if (name && ctx.surface === 'palette') return showManual(name, ctx);
+            ctx.print(name ? describeCommand(name, ctx.surface) : formatHelp(ctx.surface));
+        },
+    },
+    {
+        name: 'man',
+        summary: 'Show the manual page of a command',
+        args: [{ name: 'command', complete: () => COMMAND_REGISTRY.map(spec => spec.name) }],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Shows the manual page of a command: its name, synopsis, description, examples and related commands. Palette-only commands are documented too.\n\nThe page opens in a pager. j and k (or the arrow keys) scroll by a line, Space and b by a page, g and G jump to the start and end. / searches forward for a pattern, n and N repeat the search. q quits.\n\nWhen the output is piped or redirected, the page is printed as plain text instead.',
+            examples: [
+                ['man run_test', 'Read about run_test'],
+                ['man grep | grep -- -v', 'Find an option in a page'],
+            ],
+            seeAlso: ['help'],
+        },
+        run: ([name], ctx) => showManual(name, ctx),
+    },
+    {
+        // Lives here rather than in a command module because it runs other commands
+        name: 'source',
+        aliases: ['.'],
+        summary: 'Run a script line by line (-u picks a local file)',
+        usage: 'source <file> | source -u',
+        args: [pathArg({ optional: false })],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Runs each line of a script as if it had been typed, stopping early on Ctrl+C. The exit status is that of the last line. Variables and aliases it defines stay in effect afterwards, which is what makes it useful.\n\nThe script comes from the virtual filesystem, or with -u from a file picked on your computer. ~/.bashrc is sourced whenever the Terminal opens, and changes to it are saved in this browser.',
+            examples: [
+                ['source ~/.bashrc', 'Re-run the startup script'],
+                ['source -u', 'Run a script from your computer'],
+                ['echo "alias t=\'regress\'" >> ~/.bashrc && . ~/.bashrc', 'Add an alias and load it now'],
+            ],
+            seeAlso: ['alias', 'export'],
+        },
+        run: async ([path], ctx) => {
+            let script: string;
+            if (path === '-u') {
+                const picked = await uploadText('.sh,.bashrc,.txt,text/plain', ctx.signal);
+                if (!picked) throw new CommandError('source: no file selected');
+                script = picked.content;
+            } else {
+                if (!ctx.session) throw new CommandError('source: no shell session');
+                try {
+                    script = getFile(ctx.session.root, resolvePath(ctx.session.cwd, path)).content;
+                } catch (err) {
+                    if (!(err instanceof VfsError)) throw err;
+                    throw new CommandError(`bash: ${path}: ${err.message}`);
+                }
+            }
+            return runScript(script, ctx);
+        },
+    },
+    ...BUILTIN_COMMANDS,
+    ...ENVIRONMENT_COMMANDS,
+    ...SIMULATION_COMMANDS,
+    ...VERILOG_COMMANDS,
+    ...FILESYSTEM_COMMANDS,
+    ...TEXT_COMMANDS,
+    ...WAVEFORM_COMMANDS,
+];
+
+/**
+ * Returns true if the command may run on the given surface.
+ */
+const isAvailableOn = (spec: CommandSpec, surface: CommandSurface) =>
+    !spec.surfaces || spec.surfaces.includes(surface);
+
+/**
+ * Lists the commands available on a surface.
+ */
+export const getCommands = (surface: CommandSurface): CommandSpec[] =>
+    COMMAND_REGISTRY.filter(spec => isAvailableOn(spec, surface));
+
+/**
+ * Looks up a command by name or alias.
+ * @param name - The word typed by the user
+ * @param surface - The invoking surface; commands unavailable there are not found
+ * @returns The matching spec, or undefined
+ */
+export const resolveCommand = (name: string, surface: CommandSurface): CommandSpec | undefined => {
+    const key = name.toLowerCase();
+    return getCommands(surface).find(spec =>
+        spec.name === key || spec.aliases?.includes(key) || spec.aliases?.includes(name)
+    );
+};
+
+/**
+ * Formats one argument for a usage string (e.g. "<silicon|light>" or "[command]").
+ */
+const formatArg = (arg: ArgSpec) => {
+    const label = (arg.choices ? arg.choices.join('|') : arg.name) + (arg.variadic ? '...' : '');
+    return arg.optional ? `[${label}]` : `<${label}>`;
+};
+
+/**
+ * Builds the synopsis of a command (e.g. "theme <silicon|light|dark|default>").
+ */
+export const formatUsage = (spec: CommandSpec) =>
+    spec.usage ?? [spec.name, ...(spec.args ?? []).map(formatArg)].join(' ');
+
+/**
+ * Builds the unknown-command message in the dialect of the surface.
+ */
+export const formatUnknownCommand = (name: string, surface: CommandSurface) =>
+    surface === 'palette' ? `E492: Not a command: ${name}` : `bash: ${name}: command not found`;
+
+/** Widest usage column in the `help` listing; longer usages push only their own summary right. */
+const HELP_USAGE_WIDTH = 48;
+
+/**
+ * Builds the `help` listing for a surface.
+ * The palette only has a single output line, so it gets a compact list.
+ */
+export const formatHelp = (surface: CommandSurface) => {
+    const commands = getCommands(surface);
+    if (surface === 'palette') {
+        return `Commands: ${commands.map(spec => [spec.name, ...(spec.aliases ?? [])].join('/')).join(', ')}`;
+    }
+    const usages = commands.map(formatUsage);
+    const width = Math.min(HELP_USAGE_WIDTH, Math.max(...usages.map(u => u.length)));
+    return [
+        'Available commands:',
+        ...commands.map((spec, i) => `  ${usages[i].padEnd(width)}  ${spec.summary}`),
+    ].join('\n');
+};
+
+/**
+ * Builds the detailed `help <command>` text.
+ */
+const describeCommand = (name: string, surface: CommandSurface) => {
+    const spec = resolveCommand(name, surface);
+    if (!spec) return formatUnknownCommand(name, surface);
+    const aliases = spec.aliases?.length ? `\nAliases: ${spec.aliases.join(', ')}` : '';
+    const more = surface === 'terminal' ? `\nSee 'man ${spec.name}' for details.` : '';
+    return `${spec.summary}\nUsage: ${formatUsage(spec)}${aliases}${more}`;
+};
+
+/** Text width of manual pages. */
+const MAN_WIDTH = 78;
+/** Indent of manual page section bodies. */
+const MAN_INDENT = '       ';
+
+/**
+ * Word-wraps a paragraph to a width, prefixing each line with an indent.
+ */
+const wrap = (text: string, width: number, indent: string) => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (line && indent.length + line.length + 1 + word.length > width) {
+            lines.push(indent + line);
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    if (line) lines.push(indent + line);
+    return lines;
+};
+
+/**
+ * Renders a command's manual page in the classic man layout.
+ * @param spec - Command to document
+ * @param color - Embolden headings and names with ANSI codes
+ */
+export const formatManPage = (spec: CommandSpec, color = false) => {
+    const bold = (text: string) => color ? paint(text, SGR.bold) : text;
+    const title = `${spec.name.toUpperCase()}(1)`;
+    const center = 'MishatOS Manual';
+    const gap = Math.max(1, MAN_WIDTH - 2 * title.length - center.length) / 2;
+    const manual = spec.manual ?? { description: spec.summary };
+
+    const sections: Array<[string, string[]]> = [
+        ['NAME', [`${MAN_INDENT}${[spec.name, ...(spec.aliases ?? [])].join(', ')} - ${spec.summary}`]],
+        ['SYNOPSIS', [`${MAN_INDENT}${bold(spec.name)}${formatUsage(spec).slice(spec.name.length)}`]],
+        ['DESCRIPTION', manual.description.split('\n\n').flatMap((paragraph, i) => [
+            ...(i ? [''] : []),
+            ...wrap(paragraph, MAN_WIDTH, MAN_INDENT),
+        ])],
+    ];
+    if (spec.surfaces?.length === 1) {
+        sections.push(['AVAILABILITY', [spec.surfaces[0] === 'terminal'
+            ? `${MAN_INDENT}Terminal only.`
+            : `${MAN_INDENT}Command palette only (press : to open it).`]]);
+    }
+    if (manual.examples?.length) {
+        sections.push(['EXAMPLES', manual.examples.flatMap(([command, note], i) => [
+            ...(i ? [''] : []),
+            `${MAN_INDENT}${bold(command)}`,
+            ...wrap(note, MAN_WIDTH, `${MAN_INDENT}    `),
+        ])]);
+    }
+    if (manual.seeAlso?.length) {
+        sections.push(['SEE ALSO', [`${MAN_INDENT}${manual.seeAlso.map(name => `${bold(name)}(1)`).join(', ')}`]]);
+    }
+
+    return [
+        `${title}${' '.repeat(Math.floor(gap))}${center}${' '.repeat(Math.ceil(gap))}${title}`,
+        ...sections.flatMap(([heading, body]) => ['', bold(heading), ...body]),
+        '',
+        `MishatOS 2.0${' '.repeat(Math.max(1, MAN_WIDTH - 12 - title.length))}${title}`,
+    ].join('\n');
+};
+
+/**
+ * Shows a manual page: in the surface's pager if it has one, otherwise as output.
+ * Commands are found whichever surface they belong to.
+ */
+const showManual = async (name: string, ctx: CommandContext) => {
+    const spec = resolveCommand(name, 'terminal') ?? resolveCommand(name, 'palette');
+    if (!spec) {
+        throw new CommandError(ctx.surface === 'palette' ? `E149: Sorry, no help for ${name}` : `No manual entry for ${name}`, 16);
+    }
+    if (ctx.page && !ctx.isPiped) {
+        await ctx.page(`Manual page ${spec.name}(1)`, formatManPage(spec, true));
+    } else {
+        ctx.print(formatManPage(spec));
+    }
+};
+
+/**
+ * Checks raw arguments against a spec.
+ * Choice arguments are normalised to lower case.
+ * @returns The normalised arguments, or null if they do not match the spec
+ */
+const validateArgs = (spec: CommandSpec, args: string[]): string[] | null => {
+    const specs = spec.args ?? [];
+    const variadic = specs.length > 0 && specs[specs.length - 1].variadic;
+    if (!variadic && args.length > specs.length) return null;
+
+    const normalised: string[] = [];
+    for (let i = 0; i < Math.max(specs.length, args.length); i++) {
+        const argSpec = specs[Math.min(i, specs.length - 1)];
+        const value = args[i];
+        if (value === undefined) {
+            if (!argSpec.optional) return null;
+            continue;
+        }
+        if (argSpec.choices) {
+            const lower = value.toLowerCase();
+            if (!argSpec.choices.includes(lower)) return null;
+            normalised.push(lower);
+        } else {
+            normalised.push(value);
+        }
+    }
+    return normalised;
+};
+
+/** Exit status of a command stopped by Ctrl+C (128 + SIGINT). */
+const INTERRUPTED_STATUS = 130;
+
+/**
+ * Resolves, validates and runs one command.
+ * Usage and command errors are reported on the error stream.
+ * @param words - Command name followed by its arguments
+ * @returns The exit status (0 on success)
+ */
+const runCommand = async ([name, ...rawArgs]: string[], ctx: CommandContext): Promise<number> => {
+    const spec = resolveCommand(name, ctx.surface);
+    if (!spec) {
+        ctx.error(formatUnknownCommand(name, ctx.surface));
+        return 127;
+    }
+
+    const args = validateArgs(spec, rawArgs);
+    if (!args) {
+        ctx.error(`Usage: ${formatUsage(spec)}`);
+        return 2;
+    }
+
+    try {
+        const status = await spec.run(args, ctx);
+        return typeof status === 'number' ? status : 0;
+    } catch (err) {
+        if (isAbortError(err)) return INTERRUPTED_STATUS;
+        if (err instanceof UsageError) {
+            ctx.error(`Usage: ${formatUsage(spec)}`);
+        } else if (err instanceof CommandError) {
+            ctx.error(err.message);
+        } else {
+            throw err;
+        }
+        return (err as CommandError).status;
+    }
+};
+
+/**
+ * Runs commands connected by pipes.
+ * Every command but the last has its output captured and fed to the next one;
+ * a redirected command writes its output to a file instead.
+ * @param expand - Expands a word to its final text
+ * @returns The exit status of the last command
+ */
+const runPipeline = async (pipeline: Pipeline, ctx: CommandContext, expand: (word: Word) => string): Promise<number> => {
+    let stdin: string | undefined;
+    let status = 0;
+
+    for (const [i, command] of pipeline.entries()) {
+        if (ctx.signal?.aborted) return INTERRUPTED_STATUS;
+        const captured: string[] = [];
+        const isCaptured = i < pipeline.length - 1 || !!command.redirect;
+        status = await runCommand(command.words.map(expand), {
+            ...ctx,
+            stdin,
+            print: isCaptured ? (text) => { captured.push(text); } : ctx.print,
+            isPiped: isCaptured,
+        });
+
+        stdin = command.redirect ? '' : captured.join('\n');
+        if (command.redirect) {
+            try {
+                redirectOutput(ctx, expand(command.redirect.target), captured, command.redirect.append);
+            } catch (err) {
+                if (!(err instanceof CommandError)) throw err;
+                ctx.error(err.message);
+                status = err.status;
+            }
+        }
+    }
+    return status;
+};
+
+/**
+ * Parses and runs one command line (see executeCommand).
+ */
+const runLine = async (line: string, ctx: CommandContext): Promise<number> => {
+    let script;
+    try {
+        script = parseScript(line, ctx.session?.aliases);
+    } catch (err) {
+        if (!(err instanceof ShellSyntaxError)) throw err;
+        ctx.error(`bash: ${err.message}`);
+        return 2;
+    }
+
+    // `$?` is the status of the previous step on this line, or of the previous line
+    let status = ctx.session?.lastStatus ?? 0;
+    const expand = (word: Word) => expandWord(word, name => name === '?' ? String(status) : lookupVariable(ctx, name));
+    for (const { connector, pipeline } of script) {
+        // An interrupt abandons the rest of the line, as in bash
+        if (ctx.signal?.aborted) return INTERRUPTED_STATUS;
+        if (connector === '&&' && status !== 0) continue;
+        status = await runPipeline(pipeline, ctx, expand);
+    }
+    return status;
+};
+
+/**
+ * Parses and runs one command line, recording its status in the session for
+ * the next line's `$?`.
+ * Prints syntax, usage and unknown-command errors through the context instead of throwing.
+ * @param line - Raw input (without the surface's prompt)
+ * @param ctx - Callbacks of the invoking surface
+ * @returns The exit status of the last pipeline that ran
+ */
+export const executeCommand = async (line: string, ctx: CommandContext): Promise<number> => {
+    const status = await runLine(line, ctx);
+    if (ctx.session) ctx.session.lastStatus = status;
+    return status;
+};
+
+/** Nesting depth of running `source` commands, to stop scripts sourcing themselves forever. */
+let sourceDepth = 0;
+const MAX_SOURCE_DEPTH = 16;
+
+/**
+ * Runs a script's lines in order, like `source`.
+ * @returns The exit status of the last line that ran
+ */
+const runScript = async (script: string, ctx: CommandContext): Promise<number> => {
+    if (sourceDepth >= MAX_SOURCE_DEPTH) throw new CommandError('source: maximum nesting level exceeded');
+    sourceDepth++;
+    try {
+        let status = 0;
+        for (const line of script.split(/\r?\n/)) {
+            if (ctx.signal?.aborted) return INTERRUPTED_STATUS;
+            if (line.trim()) status = await executeCommand(line, ctx);
+        }
+        return status;
+    } finally {
+        sourceDepth--;
+    }
+};
@@ -0,0 +1,182 @@
+/**
+ * @file simulation.ts
+ * @description `run_test` and `regress`: stream pretend UVM runs into the Terminal.
+ * Output is paced over time like a real simulator and stops on Ctrl+C.
+ * @module Commands
+ * @author Mishat
+ */
+import { CommandError } from './errors';
+import { ArgSpec, CommandContext, CommandSpec } from './types';
+import { SGR, paint } from '../lib/ansi';
+import { isAbortError, sleep } from '../lib/async';
+import {
+    PlusargError, Severity, SimRun, UVM_TESTS, VERBOSITIES, createRng, formatSummary, parsePlusargs, randomSeed, simulate,
+} from '../lib/uvmSim';
+
+/** Test names and plusarg prefixes offered by Tab completion. */
+const simArg: ArgSpec = {
+    name: 'plusargs',
+    optional: true,
+    variadic: true,
+    complete: () => [
+        ...Object.keys(UVM_TESTS),
+        ...Object.keys(UVM_TESTS).map(test => `+UVM_TESTNAME=${test}`),
+        '+ntb_random_seed=',
+        ...VERBOSITIES.map(v => `+UVM_VERBOSITY=${v}`),
+    ],
+};
+
+/**
+ * Real-time delay before printing a line, scaled from the simulated time it covers.
+ */
+const pace = (simDeltaNs: number) => 40 + Math.min(260, simDeltaNs);
+
+/** Colours for report lines, by severity. */
+const SEVERITY_COLORS: Partial<Record<Severity, number[]>> = {
+    UVM_WARNING: [SGR.yellow],
+    UVM_ERROR: [SGR.bold, SGR.red],
+    UVM_FATAL: [SGR.bold, SGR.brightRed],
+};
+
+/**
+ * Colours PASS/FAIL verdicts and the severity tag of a report line.
+ * Output stays plain when piped, like a simulator writing to a file.
+ */
+const colorize = (text: string, ctx: CommandContext) => {
+    if (ctx.isPiped) return text;
+    return text
+        .replace(/^UVM_\w+(?= @)/, (tag: string) => {
+            const codes = SEVERITY_COLORS[tag as Severity];
+            return codes ? paint(tag, ...codes) : tag;
+        })
+        .replace(/\b(TEST PASSED|PASSED|PASS)\b/, verdict => paint(verdict, SGR.bold, SGR.green))
+        .replace(/\b(TEST FAILED|FAILED|FAIL)\b/, verdict => paint(verdict, SGR.bold, SGR.red));
+};
+
+/**
+ * Streams a run's log and summary. On interrupt, prints a `$finish`-style
+ * banner at the last simulated time reached and rethrows the abort.
+ */
+const streamRun = async (run: SimRun, ctx: CommandContext) => {
+    let now = 0;
+    try {
+        for (const [i, line] of run.lines.entries()) {
+            await sleep(pace(run.times[i] - now), ctx.signal);
+            now = run.times[i];
+            ctx.print(colorize(line.text, ctx));
+        }
+    } catch (err) {
+        if (isAbortError(err)) {
+            ctx.print(`Interrupt detected at time ${now}ns`);
+            ctx.print(`$finish at simulation time ${now}ns`);
+        }
+        throw err;
+    }
+    ctx.print(formatSummary(run).map(line => colorize(line, ctx)).join('\n'));
+};
+
+/**
+ * Formats the pass/fail table printed by `regress`.
+ */
+const formatRegressionTable = (runs: SimRun[], total: number, ctx: CommandContext) => {
+    const width = Math.max(4, ...runs.map(run => run.options.test.length)) + 2;
+    const passed = runs.filter(run => run.passed).length;
+    return [
+        '',
+        `${'TEST'.padEnd(width)}${'SEED'.padEnd(12)}RESULT  ERR  WARN  COV     SIM TIME`,
+        ...runs.map(run => [
+            run.options.test.padEnd(width),
+            String(run.options.seed).padEnd(12),
+            // Pad before colouring so escape codes don't skew the columns
+            colorize((run.passed ? 'PASS' : 'FAIL').padEnd(6), ctx),
+            String(run.counts.UVM_ERROR).padStart(5),
+            String(run.counts.UVM_WARNING).padStart(6),
+            `${run.coverage}%`.padStart(7),
+            `${run.endTime}ns`.padStart(10),
+        ].join('')),
+        '',
+        `Regression: ${passed}/${total} passed${runs.length < total ? ` (${total - runs.length} not run)` : ''}`,
+    ].join('\n');
+};
+
+export const SIMULATION_COMMANDS: CommandSpec[] = [
+    {
+        name: 'run_test',
+        summary: 'Run a UVM test (streams the log; Ctrl+C aborts)',
+        usage: 'run_test [test] [+plusarg=value...]',
+        args: [simArg],
+        surfaces: ['terminal'],
+        manual: {
+            description: `Runs a pretend UVM test and streams its log as it goes. The test is chosen with +UVM_TESTNAME=<test> or a bare test name (test_soc_boot by default). The same test and +ntb_random_seed=<n> always reproduce the same run; without a seed a random one is picked and reported.\n\n+UVM_VERBOSITY=<level> filters UVM_INFO messages (UVM_MEDIUM by default), where level is one of ${VERBOSITIES.join(', ')}; warnings and errors are always shown. Ctrl+C stops the simulation. The exit status is 1 if the test failed.`,
+            examples: [
+                ['run_test test_eth_loopback', 'Run a test with a random seed'],
+                ['run_test +UVM_TESTNAME=test_reg_access +ntb_random_seed=42', 'Reproduce a run'],
+                ['run_test +UVM_VERBOSITY=UVM_HIGH | grep DRV', 'Show every driven transaction'],
+            ],
+            seeAlso: ['regress', 'vcd'],
+        },
+        run: async (args, ctx) => {
+            let options;
+            try {
+                options = parsePlusargs(args);
+            } catch (err) {
+                if (err instanceof PlusargError) throw new CommandError(err.message);
+                throw err;
+            }
+            const run = simulate(options);
+            await streamRun(run, ctx);
+            return run.passed ? 0 : 1;
+        },
+    },
+    {
+        name: 'regress',
+        summary: 'Run several tests in sequence and tabulate the results',
+        usage: 'regress [+ntb_random_seed=<n>] [test...]',
+        args: [simArg],
+        surfaces: ['terminal'],
+        manual: {
+            description: 'Runs the named tests (all of them by default) one after another and prints a pass/fail table with error and warning counts, coverage and simulation time. Per-test seeds are derived from the base seed, so a regression can be reproduced with +ntb_random_seed. Ctrl+C stops it and prints the results so far.',
+            examples: [
+                ['regress', 'Run every test'],
+                ['regress +ntb_random_seed=7 test_soc_boot test_ai_noc_traffic', 'Reproducible run of two tests'],
+            ],
+            seeAlso: ['run_test'],
+        },
+        run: async (args, ctx) => {
+            let baseSeed = randomSeed();
+            const tests: string[] = [];
+            for (const arg of args) {
+                const seed = /^\+ntb_random_seed=(\d+)$/.exec(arg);
+                if (seed) baseSeed = Number(seed[1]) >>> 0;
+                else if (Object.hasOwn(UVM_TESTS, arg)) tests.push(arg);
+                else throw new CommandError(`regress: unknown test '${arg}'`);
+            }
+            if (!tests.length) tests.push(...Object.keys(UVM_TESTS));
+
+            // Per-test seeds derive from the base seed, so a whole regression is reproducible
+            const rng = createRng(baseSeed);
+            const runs: SimRun[] = [];
+            ctx.print(`Regression of ${tests.length} tests, base seed ${baseSeed}`);
+
+            try {
+                for (const [i, test] of tests.entries()) {
+                    const seed = Math.floor(rng() * 0x7fffffff);
+                    const run = simulate({ test, seed, autoSeed: false, verbosity: 'UVM_LOW' });
+                    ctx.print(`[${i + 1}/${tests.length}] ${test} +ntb_random_seed=${seed} ...`);
+                    await sleep(300 + run.lines.length * 40, ctx.signal);
+                    runs.push(run);
+                    ctx.print(colorize(`      ${run.passed ? 'PASSED' : 'FAILED'} at ${run.endTime}ns`, ctx));
+                }
+            } catch (err) {
+                if (isAbortError(err)) {
+                    ctx.print('Regression interrupted.');
+                    ctx.print(formatRegressionTable(runs, tests.length, ctx));
+                }
+                throw err;
+            }
+
+            ctx.print(formatRegressionTable(runs, tests.length, ctx));
+            return runs.every(run => run.passed) ? 0 : 1;
+        },
+    },
+];
@@ -0,0 +1,240 @@
+/**
+ * @file textutils.ts
+ * @description Text filters for pipelines: grep, head, tail, wc, sort and uniq.
+ * Each reads the named files or, without file arguments, the pipeline's stdin.
+ * @module Commands
+ * @author Mishat
+ */
+import { CommandError, UsageError } from './errors';
+import { ArgSpec, CommandContext, CommandSpec, CompletionEnv } from './types';
+import { VfsError, completePath, getFile, resolvePath } from '../lib/vfs';
+
+/**
+ * Parsed command-line options.
+ */
+interface ParsedOptions {
+    /** Boolean flags that were set (single letters) */
+    flags: Set<string>;
+    /** Values of options that take an argument, keyed by letter */
+    values: Record<string, string>;
+    /** Remaining positional arguments */
+    operands: string[];
+}
+
+/**
+ * Parses getopt-style short options (`-iv`, `-n 5`, `-n5`).
+ * Parsing stops at `--` or the first operand.
+ * @param args - Raw arguments
+ * @param flags - Letters accepted as boolean flags
+ * @param valued - Letters that take a value
+ * @throws {UsageError} on unknown options or missing values
+ */
+export const parseOptions = (args: string[], flags: string, valued = ''): ParsedOptions => {
+    const result: ParsedOptions = { flags: new Set(), values: {}, operands: [] };
+    let i = 0;
+    for (; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--') {
+            i++;
+            break;
+        }
+        if (!arg.startsWith('-') || arg === '-') break;
+
+        for (let j = 1; j < arg.length; j++) {
+            const letter = arg[j];
+            if (valued.includes(letter)) {
+                const value = arg.slice(j + 1) || args[++i];
+                if (value === undefined) throw new UsageError();
+                result.values[letter] = value;
+                break;
+            }
+            if (!flags.includes(letter)) throw new UsageError();
+            result.flags.add(letter);
+        }
+    }
+    result.operands = args.slice(i);
+    return result;
+};
+
+/**
+ * Splits text into lines; empty input has no lines.
+ */
+const toLines = (text: string) => text === '' ? [] : text.split('\n');
+
+/**
+ * Reads the input of a filter: the concatenated files, or stdin if none are given.
+ * @throws {CommandError} if a file cannot be read
+ */
+const readInput = (name: string, files: string[], ctx: CommandContext): string[] => {
+    if (!files.length) return toLines(ctx.stdin ?? '');
+    if (!ctx.session) throw new CommandError(`${name}: no filesystem on this surface`);
+
+    const { root, cwd } = ctx.session;
+    return files.flatMap(path => {
+        try {
+            return toLines(getFile(root, resolvePath(cwd, path)).content);
+        } catch (err) {
+            if (!(err instanceof VfsError)) throw err;
+            throw new CommandError(`${name}: ${path}: ${err.message}`);
+        }
+    });
+};
+
+/**
+ * Parses a line-count option value (`head -n 5`).
+ * @throws {CommandError} if it is not a non-negative integer
+ */
+const parseCount = (name: string, value: string | undefined, fallback: number) => {
+    if (value === undefined) return fallback;
+    if (!/^\d+$/.test(value)) throw new CommandError(`${name}: invalid number of lines: '${value}'`);
+    return Number(value);
+};
+
+/** Free-form operands that complete as filesystem paths. */
+const fileOperands: ArgSpec = {
+    name: 'args',
+    optional: true,
+    variadic: true,
+    complete: (partial: string, { session }: CompletionEnv) => session ? completePath(session.root, session.cwd, partial) : [],
+};
+
+export const TEXT_COMMANDS: CommandSpec[] = [
+    {
+        name: 'grep',
+        summary: 'Print lines matching a pattern (regex)',
+        usage: 'grep [-ivnc] <pattern> [file...]',
+        args: [fileOperands],
+        manual: {
+            description: 'Prints the lines of the files (or of standard input) that match pattern, a JavaScript regular expression. Exits with status 1 when nothing matches.\n\n-i ignores case, -v selects non-matching lines, -n prefixes line numbers and -c prints only the number of matching lines.',
+            examples: [
+                ['run_test | grep UVM_ERROR', 'Show only errors from a run'],
+                ['grep -in marvell experience/2023_design_verification_engineer.log', 'Case-insensitive search with line numbers'],
+                ['skills | grep -c .', 'Count non-empty lines'],
+            ],
+            seeAlso: ['head', 'tail', 'wc'],
+        },
+        run: (args, ctx) => {
+            const { flags, operands: [pattern, ...files] } = parseOptions(args, 'ivnc');
+            if (pattern === undefined) throw new UsageError();
+
+            let regex: RegExp;
+            try {
+                regex = new RegExp(pattern, flags.has('i') ? 'i' : '');
+            } catch {
+                throw new CommandError(`grep: invalid regular expression: ${pattern}`, 2);
+            }
+
+            const matches = readInput('grep', files, ctx)
+                .map((line, i) => ({ line, number: i + 1 }))
+                .filter(({ line }) => regex.test(line) !== flags.has('v'));
+
+            if (flags.has('c')) ctx.print(String(matches.length));
+            else if (matches.length) ctx.print(matches.map(({ line, number }) => flags.has('n') ? `${number}:${line}` : line).join('\n'));
+
+            // Like grep, exit 1 when nothing matched
+            return matches.length ? 0 : 1;
+        },
+    },
+    {
+        name: 'head',
+        summary: 'Print the first lines of input',
+        usage: 'head [-n count] [file...]',
+        args: [fileOperands],
+        manual: {
+            description: 'Prints the first count lines (10 by default) of the files or of standard input.',
+            examples: [['history | head -n 3', 'Show the three oldest history entries']],
+            seeAlso: ['tail', 'grep'],
+        },
+        run: (args, ctx) => {
+            const { values, operands } = parseOptions(args, '', 'n');
+            const count = parseCount('head', values.n, 10);
+            const lines = readInput('head', operands, ctx).slice(0, count);
+            if (lines.length) ctx.print(lines.join('\n'));
+        },
+    },
+    {
+        name: 'tail',
+        summary: 'Print the last lines of input',
+        usage: 'tail [-n count] [file...]',
+        args: [fileOperands],
+        manual: {
+            description: 'Prints the last count lines (10 by default) of the files or of standard input.',
+            examples: [['run_test | tail -n 4', 'Show how a run ended']],
+            seeAlso: ['head', 'grep'],
+        },
+        run: (args, ctx) => {
+            const { values, operands } = parseOptions(args, '', 'n');
+            const count = parseCount('tail', values.n, 10);
+            const lines = count ? readInput('tail', operands, ctx).slice(-count) : [];
+            if (lines.length) ctx.print(lines.join('\n'));
+        },
+    },
+    {
+        name: 'wc',
+        summary: 'Count lines, words and characters',
+        usage: 'wc [-lwc] [file...]',
+        args: [fileOperands],
+        manual: {
+            description: 'Counts lines, words and characters in the files or in standard input. -l, -w and -c select which counts to print; with none, all three are printed.',
+            examples: [['ls | wc -l', 'Count directory entries']],
+            seeAlso: ['grep', 'uniq'],
+        },
+        run: (args, ctx) => {
+            const { flags, operands } = parseOptions(args, 'lwc');
+            const lines = readInput('wc', operands, ctx);
+            const text = lines.join('\n');
+            const counts = {
+                l: lines.length,
+                w: text.split(/\s+/).filter(Boolean).length,
+                // Count the newline that terminates each line, as wc does
+                c: lines.reduce((sum, line) => sum + line.length + 1, 0),
+            };
+            const selected = flags.size ? (['l', 'w', 'c'] as const).filter(f => flags.has(f)) : (['l', 'w', 'c'] as const);
+            ctx.print(selected.map(f => String(counts[f]).padStart(7)).join(' '));
+        },
+    },
+    {
+        name: 'sort',
+        summary: 'Sort lines of input',
+        usage: 'sort [-rnu] [file...]',
+        args: [fileOperands],
+        manual: {
+            description: 'Sorts lines alphabetically. -n compares leading numbers, -r reverses the order and -u drops duplicate lines.',
+            examples: [['skills | sort -r', 'Skills in reverse order']],
+            seeAlso: ['uniq'],
+        },
+        run: (args, ctx) => {
+            const { flags, operands } = parseOptions(args, 'rnu');
+            let lines = [...readInput('sort', operands, ctx)];
+            lines.sort(flags.has('n')
+                ? (a, b) => (parseFloat(a) || 0) - (parseFloat(b) || 0)
+                : (a, b) => a < b ? -1 : a > b ? 1 : 0);
+            if (flags.has('r')) lines.reverse();
+            if (flags.has('u')) lines = lines.filter((line, i) => i === 0 || line !== lines[i - 1]);
+            if (lines.length) ctx.print(lines.join('\n'));
+        },
+    },
+    {
+        name: 'uniq',
+        summary: 'Collapse adjacent duplicate lines',
+        usage: 'uniq [-c] [file...]',
+        args: [fileOperands],
+        manual: {
+            description: 'Collapses runs of identical adjacent lines into one; -c prefixes each line with the size of its run. Sort the input first to count all duplicates.',
+            examples: [['history | sort | uniq -c | sort -rn | head -n 5', 'Your five most used command lines']],
+            seeAlso: ['sort', 'wc'],
+        },
+        run: (args, ctx) => {
+            const { flags, operands } = parseOptions(args, 'c');
+            const groups: Array<{ line: string; count: number }> = [];
+            for (const line of readInput('uniq', operands, ctx)) {
+                const last = groups[groups.length - 1];
+                if (last && last.line === line) last.count++;
+                else groups.push({ line, count: 1 });
+            }
+            if (groups.length) {
+                ctx.print(groups.map(({ line, count }) => flags.has('c') ? `${String(count).padStart(7)} ${line}` : line).join('\n'));
+            }
+        },
+    },
+];
@@ -0,0 +1,142 @@
+/**
+ * @file types.ts
+ * @description Shared type definitions for the command registry.
+ * Both the Terminal and the VimCommandPalette dispatch through these contracts.
+ * @module Commands
+ * @author Mishat
+ */
+import { VfsDir } from '../lib/vfs';
+
+/** Global colour themes the app can switch between. */
+export type ThemeName = 'default' | 'silicon' | 'light';
+
+/** The front-ends that can run registry commands. */
+export type CommandSurface = 'terminal' | 'palette';
+
+/**
+ * Declares a single positional argument of a command.
+ * Used to generate usage strings and to validate input before the handler runs.
+ */
+export interface ArgSpec {
+    /** Placeholder name shown in usage text (e.g. "scheme") */
+    name: string;
+    /** Allowed values (matched case-insensitively). Omit for free-form input. */
+    choices?: string[];
+    /** Suggestions offered by Tab completion for free-form arguments */
+    complete?: (partial: string, env: CompletionEnv) => string[];
+    /** If true, the argument may be omitted */
+    optional?: boolean;
+    /** If true, the argument swallows all remaining words */
+    variadic?: boolean;
+}
+
+/**
+ * Shell state of a surface that has a filesystem (the Terminal).
+ * The object lives as long as the surface and is updated in place, so later
+ * commands on the same line see the effects of earlier ones.
+ */
+export interface ShellSession {
+    /** Root of the virtual filesystem */
+    root: VfsDir;
+    /** Absolute working directory */
+    cwd: string;
+    /** Changes the working directory (expects a resolved absolute path) */
+    setCwd: (path: string) => void;
+    /** Exported variables, by name */
+    env: Record<string, string>;
+    /** Alias definitions, by name */
+    aliases: Record<string, string>;
+    /** Exit status of the last command line, which `$?` starts from */
+    lastStatus: number;
+}
+
+/**
+ * What Tab completion knows about the surface it completes for.
+ */
+export interface CompletionEnv {
+    surface: CommandSurface;
+    session?: ShellSession;
+}
+
+/**
+ * Access to a surface's input history, for surfaces that keep one.
+ */
+export interface CommandHistory {
+    /** Previously entered lines, oldest first */
+    entries: string[];
+    /** Forgets every entry, including persisted ones */
+    clear: () => void;
+}
+
+/**
+ * Callbacks a front-end exposes to command handlers.
+ * Each surface decides what "print" or "close" means for it.
+ */
+export interface CommandContext {
+    /** The surface that invoked the command */
+    surface: CommandSurface;
+    /** Writes a (possibly multi-line) message to the command's standard output */
+    print: (text: string) => void;
+    /** Writes a diagnostic to the surface directly, bypassing pipes and redirection */
+    error: (text: string) => void;
+    /** Output of the previous command in a pipeline, if any */
+    stdin?: string;
+    /** True when output goes to a pipe or file rather than the screen */
+    isPiped?: boolean;
+    /** Fires when the user interrupts the command (Ctrl+C) */
+    signal?: AbortSignal;
+    /** The active theme, where the surface knows it */
+    theme?: ThemeName;
+    /** Switches the global application theme */
+    setTheme: (theme: ThemeName) => void;
+    /** Clears the surface's output buffer */
+    clear: () => void;
+    /** Dismisses the surface (no-op where that makes no sense) */
+    close: () => void;
+    /** Reopens or restores the Terminal window, where the surface can */
+    openTerminal?: () => void;
+    /** Input history of the surface, if it keeps one */
+    history?: CommandHistory;
+    /** Filesystem and working directory, if the surface has a shell */
+    session?: ShellSession;
+    /** Shows long text in a pager, where the surface has one; resolves when it is dismissed */
+    page?: (title: string, text: string) => Promise<void>;
+}
+
+/**
+ * Long-form documentation of a command, rendered by `man` and `:help`.
+ */
+export interface CommandManual {
+    /** DESCRIPTION section; blank lines separate paragraphs */
+    description: string;
+    /** EXAMPLES section as [command line, explanation] pairs */
+    examples?: Array<[string, string]>;
+    /** Related commands for the SEE ALSO section */
+    seeAlso?: string[];
+}
+
+/**
+ * A command definition in the shared registry.
+ */
+export interface CommandSpec {
+    /** Canonical command name */
+    name: string;
+    /** Alternative names that resolve to this command */
+    aliases?: string[];
+    /** One-line description shown by `help` */
+    summary: string;
+    /** Positional argument declarations */
+    args?: ArgSpec[];
+    /** Hand-written synopsis for commands that parse their own options (e.g. "grep [-iv] <pattern> [file...]") */
+    usage?: string;
+    /** Surfaces the command is available on. Defaults to all. */
+    surfaces?: CommandSurface[];
+    /** Manual page content */
+    manual?: CommandManual;
+    /**
+     * Executes the command with already-validated arguments.
+     * May return (or resolve to) a non-zero exit status, or throw a CommandError.
+     * Long-running commands should stop when `ctx.signal` aborts.
+     */
+    run: (args: string[], ctx: CommandContext) => number | void | Promise<number | void>;
+}
@@ -0,0 +1,166 @@
+/**
+ * @file verilog.ts
+ * @description `sim`: evaluates continuous assigns written in a small Verilog
+ * subset, printing a truth table or the outputs for a given stimulus.
+ * @module Commands
+ * @author Mishat
+ */
+import { CommandError, UsageError } from './errors';
+import { pathArg } from './filesystem';
+import { parseOptions } from './textutils';
+import { CommandContext, CommandSpec } from './types';
+import { SGR, paint } from '../lib/ansi';
+import { VfsError, getFile, resolvePath } from '../lib/vfs';
+import {
+    Design, Net, RADIXES, Radix, VerilogError, formatValue, netLabel, parseLiteral, parseVerilog, simulateDesign,
+} from '../lib/verilog';
+
+/** Most free input bits `sim` will enumerate in a truth table (256 rows). */
+const MAX_TABLE_BITS = 8;
+
+/** A `name=value` stimulus argument, as opposed to source text. */
+const STIMULUS_PATTERN = /^([A-Za-z_][\w$]*)=([^\s;]+)$/;
+
+/**
+ * Formats a parse error compiler-style, quoting the line with a caret under the column.
+ */
+export const formatDiagnostic = (err: { message: string; line: number; column: number }, source: string, filename: string) => {
+    const text = source.split('\n')[err.line - 1] ?? '';
+    const gutter = String(err.line).length;
+    return [
+        `${filename}:${err.line}:${err.column}: ${paint('error:', SGR.bold, SGR.red)} ${err.message}`,
+        ` ${err.line} | ${text}`,
+        ` ${' '.repeat(gutter)} | ${' '.repeat(err.column - 1)}${paint('^', SGR.bold, SGR.green)}`,
+    ].join('\n');
+};
+
+/**
+ * Reads the module source from `-f`, the command line or stdin.
+ * @returns The source and the name to report errors against
+ */
+const readSource = (file: string | undefined, inline: string[], ctx: CommandContext) => {
+    if (file !== undefined) {
+        if (inline.length) throw new UsageError();
+        if (!ctx.session) throw new CommandError('sim: no filesystem on this surface');
+        try {
+            return { source: getFile(ctx.session.root, resolvePath(ctx.session.cwd, file)).content, filename: file };
+        } catch (err) {
+            if (!(err instanceof VfsError)) throw err;
+            throw new CommandError(`sim: ${file}: ${err.message}`);
+        }
+    }
+    if (inline.length) return { source: inline.join(' '), filename: '<command-line>' };
+    if (ctx.stdin !== undefined) return { source: ctx.stdin, filename: '<stdin>' };
+    throw new UsageError();
+};
+
+/**
+ * Decodes `name=value` arguments into input values.
+ * @throws {CommandError} for unknown names, driven nets or malformed values
+ */
+const parseStimulus = (design: Design, args: string[]) => {
+    const stimulus: Record<string, bigint> = {};
+    for (const arg of args) {
+        const [, name, text] = STIMULUS_PATTERN.exec(arg)!;
+        const net = design.nets.get(name);
+        if (!net) throw new CommandError(`sim: no net named '${name}'`);
+        if (!design.inputs.includes(net)) throw new CommandError(`sim: '${name}' is driven by an assign; only inputs can be set`);
+        try {
+            // 0x/0o/0b prefixes spare quoting the ' of a Verilog literal from the shell
+            stimulus[name] = /^0[xob]/i.test(text) ? BigInt(text) : parseLiteral(text);
+        } catch (err) {
+            if (!(err instanceof VerilogError || err instanceof SyntaxError)) throw err;
+            throw new CommandError(`sim: invalid value '${text}' for ${name}`);
+        }
+    }
+    return stimulus;
+};
+
+/**
+ * Lays out rows of cells in columns, with a rule under the header and a `|`
+ * between the input and output columns.
+ */
+const formatTable = (header: string[], rows: string[][], split: number) => {
+    const widths = header.map((label, i) => Math.max(label.length, ...rows.map(row => row[i].length)));
+    const line = (cells: string[]) => cells
+        .map((cell, i) => `${i === split ? '| ' : ''}${cell.padEnd(widths[i])}`)
+        .join(' ')
+        .trimEnd();
+    const rule = widths.map((width, i) => `${i === split ? '+-' : ''}${'-'.repeat(width)}`).join('-');
+    return [line(header), rule, ...rows.map(line)].join('\n');
+};
+
+export const VERILOG_COMMANDS: CommandSpec[] = [
+    {
+        name: 'sim',
+        summary: 'Evaluate Verilog continuous assigns (truth table, or outputs for a stimulus)',
+        usage: "sim [-r bin|oct|dec|hex] [-f file | 'source'] [name=value...]",
+        args: [pathArg({ name: 'args', variadic: true })],
+        surfaces: ['terminal'],
+        manual: {
+            description: "Simulates a small synthesizable Verilog subset: input, output and wire declarations (with optional [msb:lsb] ranges) and continuous assign statements, optionally inside one module. Expressions may use the bitwise, logical, reduction, arithmetic, shift, comparison and ternary operators, sized literals such as 4'h3 or 8'b1010_0101, bit and part selects, concatenation and replication. Values are unsigned and two-state; names that are never declared are implicit 1-bit wires.\n\nThe source is read from a file with -f, from the command line (quote it, since ; and & mean something to the shell) or from standard input. Inputs are set with name=value, where value is a Verilog literal (quote it, as in \"a=4'hf\") or a number such as 12, 0xc or 0b1100. If every input is set, the outputs are printed; otherwise a truth table enumerates the inputs left free (up to 8 bits of them). Outputs are the declared outputs, or every assigned net if none are declared.\n\n-r picks the radix for multi-bit values (hex by default). Parse errors are reported with line and column; the exit status is then 1.",
+            examples: [
+                ["sim 'assign y = a ^ b;'", 'Truth table of an XOR gate'],
+                ['sim -f ~/rtl/full_adder.v', 'Truth table of a full adder'],
+                ['sim -f ~/rtl/alu4.v op=1 a=3 b=5', 'Evaluate the ALU for one stimulus'],
+                ["sim -r bin -f ~/rtl/alu4.v op=0 \"a=4'hf\"", 'Sweep b with a fixed, in binary'],
+                ['cat ~/rtl/full_adder.v | sim a=1 b=1 cin=0', 'Read the module from a pipe'],
+            ],
+            seeAlso: ['run_test', 'cat'],
+        },
+        run: (args, ctx) => {
+            const { values, operands } = parseOptions(args, '', 'fr');
+            const radix = (values.r ?? 'hex') as Radix;
+            if (!RADIXES.includes(radix)) throw new CommandError(`sim: invalid radix '${values.r}' (expected ${RADIXES.join(', ')})`, 2);
+
+            const stimulusArgs = operands.filter(arg => STIMULUS_PATTERN.test(arg));
+            const { source, filename } = readSource(values.f, operands.filter(arg => !STIMULUS_PATTERN.test(arg)), ctx);
+
+            let design: Design;
+            try {
+                design = parseVerilog(source);
+            } catch (err) {
+                if (!(err instanceof VerilogError)) throw err;
+                ctx.error(formatDiagnostic(err, source, filename));
+                return 1;
+            }
+            for (const warning of design.warnings) ctx.error(`${filename}: ${paint('warning:', SGR.bold, SGR.yellow)} ${warning}`);
+            if (!design.outputs.length) throw new CommandError(`sim: ${filename}: nothing to simulate (no assigns)`);
+
+            const stimulus = parseStimulus(design, stimulusArgs);
+            const sized = (net: Net, value: bigint) => net.width === 1 ? value.toString() : formatValue(value, net.width, radix, true);
+            const free = design.inputs.filter(net => !Object.hasOwn(stimulus, net.name));
+            const settled = simulateDesign(design, stimulus);
+
+            if (!free.length) {
+                const labels = design.outputs.map(netLabel);
+                const width = Math.max(...labels.map(label => label.length));
+                ctx.print(design.outputs.map((net, i) => `${labels[i].padEnd(width)} = ${sized(net, settled.get(net.name)!)}`).join('\n'));
+                return;
+            }
+
+            const bits = free.reduce((sum, net) => sum + net.width, 0);
+            if (bits > MAX_TABLE_BITS) {
+                throw new CommandError(`sim: ${bits} free input bits would need ${2 ** bits} rows (at most ${MAX_TABLE_BITS} bits); set some inputs, e.g. ${free[0].name}=0`);
+            }
+            const fixed = design.inputs
+                .filter(net => Object.hasOwn(stimulus, net.name))
+                .map(net => `// ${netLabel(net)} = ${sized(net, settled.get(net.name)!)}`);
+            const cell = (net: Net, value: bigint) => formatValue(value, net.width, net.width === 1 ? 'bin' : radix);
+
+            const rows: string[][] = [];
+            for (let row = 0; row < 2 ** bits; row++) {
+                // The first free input is the most significant, so it changes slowest
+                const inputs = { ...stimulus };
+                let rest = BigInt(row);
+                for (const net of [...free].reverse()) {
+                    inputs[net.name] = BigInt.asUintN(net.width, rest);
+                    rest >>= BigInt(net.width);
+                }
+                const nets = simulateDesign(design, inputs);
+                rows.push([...free, ...design.outputs].map(net => cell(net, nets.get(net.name)!)));
+            }
+            ctx.print([...fixed, formatTable([...free, ...design.outputs].map(netLabel), rows, free.length)].join('\n'));
+        },
+    },
+];
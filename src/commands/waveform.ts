@@ -0,0 +1,136 @@
+/**
+ * @file waveform.ts
+ * @description Commands that work with the career waveform: `vcd` exports it
+ * as a Value Change Dump and `assert` checks SVA properties against it.
+ * @module Commands
+ * @author Mishat
+ */
+import { downloadText } from './builtins';
+import { CommandError, UsageError } from './errors';
+import { pathArg } from './filesystem';
+import { parseOptions } from './textutils';
+import { CommandContext, CommandSpec } from './types';
+import { formatDiagnostic } from './verilog';
+import { TRACE_SAMPLES, checkTraceAssertion } from '../data/traceSignals';
+import { TRACE_VCD_FILENAME, buildTraceVcd } from '../data/traceVcd';
+import { SGR, paint } from '../lib/ansi';
+import { formatDecimalYear } from '../lib/dates';
+import { SvaError } from '../lib/sva';
+import { VfsError, getFile, resolvePath } from '../lib/vfs';
+
+/**
+ * Reads properties from `-f`, the command line (one per argument) or stdin
+ * (one per line), skipping blank lines and `//` comments.
+ * @returns Each property with the line it came from, and the text to quote in errors
+ */
+const readProperties = (file: string | undefined, inline: string[], ctx: CommandContext) => {
+    const fromLines = (text: string, filename: string) => ({
+        filename,
+        lines: text.split('\n'),
+        properties: text.split('\n')
+            .map((source, i) => ({ source, line: i + 1 }))
+            .filter(({ source }) => source.trim() && !source.trim().startsWith('//')),
+    });
+    if (file !== undefined) {
+        if (inline.length) throw new UsageError();
+        if (!ctx.session) throw new CommandError('assert: no filesystem on this surface');
+        try {
+            return fromLines(getFile(ctx.session.root, resolvePath(ctx.session.cwd, file)).content, file);
+        } catch (err) {
+            if (!(err instanceof VfsError)) throw err;
+            throw new CommandError(`assert: ${file}: ${err.message}`);
+        }
+    }
+    if (inline.length) return { filename: '<command-line>', lines: inline, properties: inline.map((source, i) => ({ source, line: i + 1 })) };
+    if (ctx.stdin !== undefined) return fromLines(ctx.stdin, '<stdin>');
+    throw new UsageError();
+};
+
+/**
+ * Describes a clock cycle of the trace, e.g. `cycle 68 (Sept 2022)`.
+ */
+const describeCycle = (cycle: number) => `cycle ${cycle} (${formatDecimalYear(TRACE_SAMPLES.times[cycle])})`;
+
+export const WAVEFORM_COMMANDS: CommandSpec[] = [
+    {
+        name: 'vcd',
+        summary: 'Export the career trace as a VCD (downloads; prints when piped or redirected)',
+        manual: {
+            description: 'Writes the career trace shown in the waveform viewer as an IEEE 1364 Value Change Dump, with sys_clk, rst_n, state[3:0] and the company, school, degree and role buses (packed ASCII, so view them with an ASCII radix). It opens in GTKWave, Verdi and other viewers.\n\nThe file is downloaded as career_trace.vcd. When the output is piped or redirected, the dump is written there instead.',
+            examples: [
+                ['vcd', 'Download career_trace.vcd'],
+                ['vcd | head -n 30', 'Look at the header'],
+                ['vcd > ~/Downloads/trace.vcd', 'Save under another name'],
+            ],
+            seeAlso: ['run_test', 'assert'],
+        },
+        run: (_, ctx) => {
+            const vcd = buildTraceVcd();
+            // With a pipe or redirect attached, behave like a dumper writing to stdout
+            if (ctx.isPiped) {
+                ctx.print(vcd.trimEnd());
+                return;
+            }
+            downloadText(vcd, TRACE_VCD_FILENAME);
+            ctx.print(`Wrote ${TRACE_VCD_FILENAME} (${vcd.length} bytes). Open it with: gtkwave ${TRACE_VCD_FILENAME}`);
+        },
+    },
+    {
+        name: 'assert',
+        summary: 'Check SystemVerilog assertions against the career trace',
+        usage: "assert [-f file | 'property'...]",
+        args: [pathArg({ name: 'args', variadic: true })],
+        surfaces: ['terminal'],
+        manual: {
+            description: "Evaluates concurrent assertions written in a SystemVerilog Assertions (SVA) subset at every sys_clk posedge of the career trace, the same check the waveform's assertion panel runs. A property may be labelled (a_name: ...) and wrapped in assert property (@(posedge sys_clk) ...). It is a boolean expression, an ##N delayed sequence of them, or an implication: a |-> b checks b in the cycle a matches and a |=> b in the next one. disable iff (expr) abandons attempts while expr holds.\n\nExpressions use the signals rst_n, state, company_bus, school_bus, degree and role_bus, sized literals such as 4'h2, strings, the comparison and logical operators, and $rose, $fell, $stable, $changed, $past(sig[, n]) and $isunknown. A bus nothing drives is unknown, and an unknown condition does not match.\n\nProperties come from the command line (one per argument; quote them, and write 4'h2 as 2 or put the property in a file), from a file with -f or from standard input, one per line; blank lines and // comments are skipped. Each failure is reported with the cycle its attempt started and failed at, followed by a summary line per property. The exit status is 1 if any property fails or does not parse.",
+            examples: [
+                [`assert 'state == 2 |-> company_bus == "Marvell Technology"'`, 'Check the DV role was at Marvell'],
+                [`assert 'disable iff (!rst_n) $rose(company_bus) |-> $isunknown(school_bus)'`, 'Check no job started while studying'],
+                [`assert '$rose(state == 3) |=> $stable(company_bus)'`, 'Check a promotion kept the company'],
+                ['assert -f ~/rtl/career_trace.sva', 'Check every property in a file'],
+            ],
+            seeAlso: ['vcd', 'sim'],
+        },
+        run: (args, ctx) => {
+            const { values, operands } = parseOptions(args, '', 'f');
+            const { filename, lines, properties } = readProperties(values.f, operands, ctx);
+            if (!properties.length) throw new CommandError(`assert: ${filename}: no properties`);
+
+            let status = 0;
+            properties.forEach(({ source, line }, i) => {
+                let checked: ReturnType<typeof checkTraceAssertion>;
+                try {
+                    checked = checkTraceAssertion(source);
+                } catch (err) {
+                    if (!(err instanceof SvaError)) throw err;
+                    ctx.error(formatDiagnostic({ message: err.message, line, column: err.column }, lines.join('\n'), filename));
+                    status = 1;
+                    return;
+                }
+                const { assertion, report } = checked;
+                const name = `tb_top.${assertion.label ?? `assert_${i + 1}`}`;
+                for (const failure of report.failures) {
+                    ctx.print([
+                        `"${filename}", ${line}: ${name}: started at ${describeCycle(failure.start)} failed at ${describeCycle(failure.end)}`,
+                        `\tOffending '${failure.offending}'`,
+                    ].join('\n'));
+                }
+                const failed = report.failures.length > 0;
+                if (failed) status = 1;
+                const verdict = failed ? 'FAIL' : 'PASS';
+                const counts = [
+                    `${report.attempts} attempts`,
+                    `${report.passes.length + report.failures.length} matched`,
+                    `${report.passes.length} passed`,
+                    `${report.failures.length} failed`,
+                    `${report.vacuous} vacuous`,
+                    ...(report.disabled ? [`${report.disabled} disabled`] : []),
+                    ...(report.incomplete ? [`${report.incomplete} incomplete`] : []),
+                ];
+                const tag = ctx.isPiped ? verdict : paint(verdict, SGR.bold, failed ? SGR.red : SGR.green);
+                ctx.print(`${tag} ${name}: ${counts.join(', ')}`);
+            });
+            return status;
+        },
+    },
+];
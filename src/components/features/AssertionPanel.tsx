@@ -0,0 +1,125 @@
+/**
+ * @file AssertionPanel.tsx
+ * @description The WaveformViewer's list of SVA properties: pass/fail counts
+ * per property, toggles for their waveform markers, and a field to add more.
+ * @module Components/Features
+ * @author Mishat
+ */
+import React, { useState } from 'react';
+import { Eye, EyeOff, Plus, ShieldCheck, X } from 'lucide-react';
+import { TRACE_SAMPLES, checkTraceAssertion } from '../../data/traceSignals';
+import { formatDecimalYear } from '../../lib/dates';
+import { SvaError } from '../../lib/sva';
+
+/** A property in the panel, checked against the trace. */
+export interface CheckedAssertion extends ReturnType<typeof checkTraceAssertion> {
+    id: number;
+    visible: boolean;
+}
+
+interface AssertionPanelProps {
+    assertions: CheckedAssertion[];
+    /** Called with a property that parsed. */
+    onAdd: (source: string) => void;
+    onToggle: (id: number) => void;
+    onRemove: (id: number) => void;
+    /** Moves the cursor to a time (the first failure, when one is clicked). */
+    onSeek: (year: number) => void;
+    isLight: boolean;
+}
+
+const AssertionPanel = ({ assertions, onAdd, onToggle, onRemove, onSeek, isLight }: AssertionPanelProps) => {
+    const [draft, setDraft] = useState('');
+    const [error, setError] = useState<SvaError | null>(null);
+
+    const pass = isLight ? 'text-green-700' : 'text-green-400';
+    const fail = 'text-red-500';
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+        try {
+            checkTraceAssertion(draft);
+        } catch (err) {
+            if (!(err instanceof SvaError)) throw err;
+            setError(err);
+            return;
+        }
+        onAdd(draft);
+        setDraft('');
+        setError(null);
+    };
+
+    return (
+        <div className="border-t border-gray-800 bg-black">
+            <div className="h-8 flex items-center gap-2 px-2 text-gray-500 bg-gray-900/50 border-b border-gray-800">
+                <ShieldCheck size={12} /> Assertions
+                <span className="text-gray-600">@(posedge sys_clk)</span>
+            </div>
+            <div className="max-h-40 overflow-y-auto">
+                {assertions.map(({ id, visible, assertion, report }, i) => {
+                    const failed = report.failures.length > 0;
+                    const firstFailure = report.failures[0];
+                    return (
+                        <div key={id} className="flex items-center gap-3 px-2 py-1 border-b border-gray-800/50 hover:bg-gray-900 transition-colors">
+                            <button
+                                type="button"
+                                title={visible ? 'Hide markers' : 'Show markers'}
+                                onClick={() => onToggle(id)}
+                                className="text-gray-500 hover:text-electric transition-colors"
+                            >
+                                {visible ? <Eye size={12} /> : <EyeOff size={12} />}
+                            </button>
+                            <span className={`font-bold shrink-0 ${failed ? fail : pass}`}>{failed ? 'FAIL' : 'PASS'}</span>
+                            <span className="text-gray-300 shrink-0">{assertion.label ?? `assert_${i + 1}`}</span>
+                            <span className="text-gray-500 truncate flex-1" title={assertion.source}>{assertion.source}</span>
+                            <span className="text-gray-500 shrink-0" title={`${report.attempts} attempts, ${report.vacuous} vacuous`}>
+                                <span className={pass}>{report.passes.length}</span>/<span className={fail}>{report.failures.length}</span>
+                            </span>
+                            {firstFailure && (
+                                <button
+                                    type="button"
+                                    title={`Offending '${firstFailure.offending}'`}
+                                    onClick={() => onSeek(TRACE_SAMPLES.times[firstFailure.end])}
+                                    className={`${fail} shrink-0 underline decoration-dotted hover:no-underline`}
+                                >
+                                    {formatDecimalYear(TRACE_SAMPLES.times[firstFailure.end])}
+                                </button>
+                            )}
+                            <button
+                                type="button"
+                                title="Remove"
+                                onClick={() => onRemove(id)}
+                                className="text-gray-600 hover:text-red-500 transition-colors"
+                            >
+                                <X size={12} />
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+            <form onSubmit={handleSubmit} className="flex items-center gap-2 px-2 py-1">
+                <input
+                    value={draft}
+                    onChange={e => { setDraft(e.target.value); setError(null); }}
+                    placeholder={`a_label: state == 4'h3 |-> role_bus == "..."`}
+                    spellCheck={false}
+                    className="flex-1 bg-transparent text-gray-300 placeholder-gray-700 outline-none"
+                />
+                <button
+                    type="submit"
+                    className="flex items-center gap-1 px-2 py-0.5 bg-black rounded text-gray-400 border border-gray-700 hover:text-electric hover:border-electric transition-colors"
+                >
+                    <Plus size={12} /> Add
+                </button>
+            </form>
+            {error && (
+                <pre className="px-2 pb-2 text-red-500 whitespace-pre overflow-x-auto">
+                    {`${draft}\n${' '.repeat(error.column - 1)}^ ${error.message}`}
+                </pre>
+            )}
+        </div>
+    );
+};
+
+export default AssertionPanel;
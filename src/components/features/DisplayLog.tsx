@@ -0,0 +1,74 @@
+/**
+ * @file DisplayLog.tsx
+ * @description The WaveformViewer's $display log: a line for each value
+ * change the cursor crosses during playback, as a testbench printing
+ * transitions would, kept scrolled to the newest line.
+ * @module Components/Features
+ * @author Mishat
+ */
+import React, { useEffect, useRef } from 'react';
+import { SquareTerminal } from 'lucide-react';
+import { TimeAxis } from '../../lib/timeWindow';
+
+/** A printed transition. */
+export interface DisplayLine {
+    /** Increasing id, for keys */
+    id: number;
+    time: number;
+    name: string;
+    value: string;
+}
+
+interface DisplayLogProps {
+    lines: DisplayLine[];
+    onSeek: (time: number) => void;
+    onClear: () => void;
+    /** Formats times on the waveform's time axis. */
+    axis: Pick<TimeAxis, 'formatTime'>;
+}
+
+const DisplayLog = ({ lines, onSeek, onClear, axis }: DisplayLogProps) => {
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const list = listRef.current;
+        if (list) list.scrollTop = list.scrollHeight;
+    }, [lines]);
+
+    return (
+        <div className="border-t border-gray-800 bg-black">
+            <div className="h-8 flex items-center gap-2 px-2 text-gray-500 bg-gray-900/50 border-b border-gray-800">
+                <SquareTerminal size={12} /> $display
+                <button
+                    type="button"
+                    title="Clear the log"
+                    disabled={!lines.length}
+                    onClick={onClear}
+                    className="ml-auto px-2 py-0.5 bg-black rounded text-gray-400 border border-gray-700 hover:text-electric hover:border-electric disabled:opacity-40 disabled:pointer-events-none transition-colors"
+                >
+                    Clear
+                </button>
+            </div>
+            <div ref={listRef} className="h-32 overflow-y-auto py-1">
+                {lines.length === 0 && <div className="px-2 text-gray-600">Transitions print here as playback crosses them.</div>}
+                {lines.map(line => (
+                    <div key={line.id} className="px-2 whitespace-nowrap">
+                        <button
+                            type="button"
+                            title="Move the cursor here"
+                            onClick={() => onSeek(line.time)}
+                            className="text-gray-500 hover:text-electric transition-colors"
+                        >
+                            [{axis.formatTime(line.time)}]
+                        </button>
+                        <span className="text-gray-300"> {line.name}</span>
+                        <span className="text-gray-500"> = </span>
+                        <span className="text-green-400">{line.value}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default DisplayLog;
@@ -0,0 +1,71 @@
+/**
+ * @file MarkerPanel.tsx
+ * @description The WaveformViewer's list of named markers (A, B, C…), with
+ * each marker's time and its distance from the primary cursor.
+ * @module Components/Features
+ * @author Mishat
+ */
+import React from 'react';
+import { Flag, X } from 'lucide-react';
+import { TimeAxis } from '../../lib/timeWindow';
+
+/** A named marker dropped on the waveform. */
+export interface Marker {
+    name: string;
+    time: number;
+}
+
+interface MarkerPanelProps {
+    markers: Marker[];
+    cursorTime: number;
+    /** Drops a marker at the primary cursor; absent once every name is used. */
+    onDrop?: () => void;
+    onRemove: (name: string) => void;
+    onSeek: (time: number) => void;
+    /** Text colour of the marker flags. */
+    color: string;
+    /** Formats times and distances on the waveform's time axis. */
+    axis: Pick<TimeAxis, 'formatTime' | 'formatDelta'>;
+}
+
+const MarkerPanel = ({ markers, cursorTime, onDrop, onRemove, onSeek, color, axis }: MarkerPanelProps) => (
+    <div className="border-t border-gray-800 bg-black">
+        <div className="h-8 flex items-center gap-2 px-2 text-gray-500 bg-gray-900/50 border-b border-gray-800">
+            <Flag size={12} /> Markers
+            <button
+                type="button"
+                title="Drop a named marker at the cursor (Alt+N)"
+                disabled={!onDrop}
+                onClick={onDrop}
+                className="ml-auto px-2 py-0.5 bg-black rounded text-gray-400 border border-gray-700 hover:text-electric hover:border-electric disabled:opacity-40 disabled:pointer-events-none transition-colors"
+            >
+                Drop
+            </button>
+        </div>
+        {markers.length === 0 && <div className="px-2 py-1 text-gray-600">No markers. Click to place the cursor, then drop one.</div>}
+        {markers.map(marker => (
+            <div key={marker.name} className="flex items-center gap-3 px-2 py-1 border-b border-gray-800/50 hover:bg-gray-900 transition-colors">
+                <span className={`font-bold w-4 ${color}`}>{marker.name}</span>
+                <button
+                    type="button"
+                    title="Move the cursor here"
+                    onClick={() => onSeek(marker.time)}
+                    className="text-gray-300 hover:text-electric transition-colors"
+                >
+                    {axis.formatTime(marker.time)}
+                </button>
+                <span className="text-gray-500 flex-1">Δ cursor {axis.formatDelta(marker.time - cursorTime)}</span>
+                <button
+                    type="button"
+                    title="Remove"
+                    onClick={() => onRemove(marker.name)}
+                    className="text-gray-600 hover:text-red-500 transition-colors"
+                >
+                    <X size={12} />
+                </button>
+            </div>
+        ))}
+    </div>
+);
+
+export default MarkerPanel;
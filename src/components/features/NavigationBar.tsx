@@ -0,0 +1,93 @@
+/**
+ * @file NavigationBar.tsx
+ * @description The WaveformViewer's second toolbar row: previous/next edge on
+ * the selected signal, and a find box that steps through bus values matching
+ * a substring or a regular expression.
+ * @module Components/Features
+ * @author Mishat
+ */
+import React from 'react';
+import { ChevronDown, ChevronUp, Regex, Search, SkipBack, SkipForward } from 'lucide-react';
+
+interface NavigationBarProps {
+    /** Name of the selected signal; edge buttons are disabled without one */
+    selectedName?: string;
+    onEdge: (direction: 1 | -1) => void;
+    query: string;
+    onQueryChange: (query: string) => void;
+    regex: boolean;
+    onRegexChange: (regex: boolean) => void;
+    /** Why the query can't be searched for, e.g. a bad regular expression */
+    error?: string;
+    /** Buses the search can be narrowed to */
+    buses: { id: string; name: string }[];
+    /** The bus searched, or '' for all of them */
+    scopeId: string;
+    onScopeChange: (id: string) => void;
+    /** 1-based position of the match at the cursor, or 0 */
+    matchNumber: number;
+    matchCount: number;
+    onFind: (direction: 1 | -1) => void;
+    /** Called on Escape in the find box, to hand focus back to the viewer */
+    onDone: () => void;
+    inputRef: React.RefObject<HTMLInputElement | null>;
+}
+
+const button = 'px-1 py-0.5 text-gray-400 hover:text-electric disabled:opacity-40 disabled:pointer-events-none transition-colors';
+
+const NavigationBar = ({
+    selectedName, onEdge, query, onQueryChange, regex, onRegexChange, error, buses, scopeId, onScopeChange, matchNumber, matchCount, onFind, onDone, inputRef,
+}: NavigationBarProps) => (
+    <div className="bg-gray-900 px-2 py-1 flex items-center gap-4 border-b border-gray-800">
+        <div className="flex items-center gap-1">
+            <button type="button" title="Previous edge ([)" disabled={!selectedName} onClick={() => onEdge(-1)} className={button}>
+                <SkipBack size={12} />
+            </button>
+            <button type="button" title="Next edge (])" disabled={!selectedName} onClick={() => onEdge(1)} className={button}>
+                <SkipForward size={12} />
+            </button>
+            <span className="text-gray-500 truncate max-w-[12rem]">{selectedName ? `edges of ${selectedName}` : 'select a signal (↑/↓)'}</span>
+        </div>
+        <div className={`flex items-center gap-1 flex-1 max-w-md bg-black rounded border px-1 ${error ? 'border-red-500' : 'border-gray-700'}`} title={error}>
+            <Search size={12} className="text-gray-500 shrink-0" />
+            <select
+                title="Bus to search"
+                value={scopeId}
+                onChange={e => onScopeChange(e.target.value)}
+                className="bg-transparent text-gray-400 outline-none max-w-[8rem] shrink-0"
+            >
+                <option value="">all buses</option>
+                {buses.map(bus => <option key={bus.id} value={bus.id}>{bus.name}</option>)}
+            </select>
+            <input
+                ref={inputRef}
+                value={query}
+                onChange={e => onQueryChange(e.target.value)}
+                onKeyDown={e => {
+                    if (e.key === 'Enter') onFind(e.shiftKey ? -1 : 1);
+                    if (e.key === 'Escape') onDone();
+                }}
+                placeholder={regex ? 'Regular expression (/)' : 'Find value (/)'}
+                spellCheck={false}
+                className="flex-1 min-w-0 bg-transparent text-gray-300 placeholder-gray-600 outline-none py-0.5"
+            />
+            {query && !error && <span className="text-gray-500 shrink-0">{matchNumber || '-'}/{matchCount}</span>}
+            <button
+                type="button"
+                title={regex ? 'Regular expression (click for substring)' : 'Substring (click for regular expression)'}
+                onClick={() => onRegexChange(!regex)}
+                className={`${button} ${regex ? 'text-electric' : ''}`}
+            >
+                <Regex size={12} />
+            </button>
+            <button type="button" title="Previous match (N, Shift+Enter)" disabled={!matchCount} onClick={() => onFind(-1)} className={button}>
+                <ChevronUp size={12} />
+            </button>
+            <button type="button" title="Next match (n, Enter)" disabled={!matchCount} onClick={() => onFind(1)} className={button}>
+                <ChevronDown size={12} />
+            </button>
+        </div>
+    </div>
+);
+
+export default NavigationBar;
@@ -0,0 +1,68 @@
+/**
+ * @file PlaybackControls.tsx
+ * @description The WaveformViewer's playback buttons: play/pause, step to the
+ * previous or next transition, speed, looping, start and end marks at the
+ * cursor, and the $display log's switch. Playback itself is usePlayback.
+ * @module Components/Features
+ * @author Mishat
+ */
+import React from 'react';
+import { FlagTriangleLeft, FlagTriangleRight, Pause, Play, Repeat, SquareTerminal, StepBack, StepForward } from 'lucide-react';
+import { PLAYBACK_SPEEDS } from '../../hooks/usePlayback';
+
+interface PlaybackControlsProps {
+    playing: boolean;
+    onToggle: () => void;
+    onStep: (direction: 1 | -1) => void;
+    speed: number;
+    onSpeedChange: (speed: number) => void;
+    loop: boolean;
+    onLoopChange: (loop: boolean) => void;
+    /** Whether a start (end) mark is set; the buttons set one at the cursor, or clear it */
+    startMarked: boolean;
+    endMarked: boolean;
+    onMarkStart: () => void;
+    onMarkEnd: () => void;
+    showLog: boolean;
+    onShowLogChange: (show: boolean) => void;
+}
+
+const button = 'px-1.5 py-0.5 hover:text-electric transition-colors';
+
+const PlaybackControls = ({
+    playing, onToggle, onStep, speed, onSpeedChange, loop, onLoopChange, startMarked, endMarked, onMarkStart, onMarkEnd, showLog, onShowLogChange,
+}: PlaybackControlsProps) => (
+    <div className="flex items-center bg-black rounded border border-gray-700 text-gray-400">
+        <button type="button" title="Step back to the previous transition" onClick={() => onStep(-1)} className={button}>
+            <StepBack size={12} />
+        </button>
+        <button type="button" title={playing ? 'Pause (Space)' : 'Play (Space)'} onClick={onToggle} className={`${button} ${playing ? 'text-electric' : ''}`}>
+            {playing ? <Pause size={12} /> : <Play size={12} />}
+        </button>
+        <button type="button" title="Step to the next transition" onClick={() => onStep(1)} className={button}>
+            <StepForward size={12} />
+        </button>
+        <select
+            title="Playback speed"
+            value={speed}
+            onChange={e => onSpeedChange(Number(e.target.value))}
+            className="bg-transparent outline-none px-0.5"
+        >
+            {PLAYBACK_SPEEDS.map(option => <option key={option} value={option}>{option}×</option>)}
+        </select>
+        <button type="button" title={loop ? 'Looping (click to play once)' : 'Play once (click to loop)'} onClick={() => onLoopChange(!loop)} className={`${button} ${loop ? 'text-electric' : ''}`}>
+            <Repeat size={12} />
+        </button>
+        <button type="button" title={startMarked ? 'Clear the start mark' : 'Start playback at the cursor'} onClick={onMarkStart} className={`${button} ${startMarked ? 'text-green-500' : ''}`}>
+            <FlagTriangleRight size={12} />
+        </button>
+        <button type="button" title={endMarked ? 'Clear the end mark' : 'End playback at the cursor'} onClick={onMarkEnd} className={`${button} ${endMarked ? 'text-red-500' : ''}`}>
+            <FlagTriangleLeft size={12} />
+        </button>
+        <button type="button" title={showLog ? 'Hide the $display log' : 'Show the $display log'} onClick={() => onShowLogChange(!showLog)} className={`${button} ${showLog ? 'text-electric' : ''}`}>
+            <SquareTerminal size={12} />
+        </button>
+    </div>
+);
+
+export default PlaybackControls;
@@ -0,0 +1,134 @@
+/**
+ * @file ScopeTree.tsx
+ * @description The WaveformViewer's scope tree, like GTKWave's SST pane:
+ * the signals under their scopes, filtered by a name glob. Signals picked in
+ * the tree (or whole scopes) are appended to the signal pane.
+ * @module Components/Features
+ * @author Mishat
+ */
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, ListFilter, ListPlus } from 'lucide-react';
+import { ScopeNode, buildScopeTree, filterScopeTree, leafName, scopeSignals, signalPath } from '../../lib/scopeTree';
+import { WaveSignal } from '../../lib/waveModel';
+
+/** Scopes this shallow start open; deeper ones start closed. */
+const OPEN_DEPTH = 2;
+
+interface ScopeTreeProps {
+    signals: WaveSignal[];
+    /** Signals shown in the signal pane, which are marked in the tree */
+    shownIds: Set<string>;
+    onAppend: (signalIds: string[]) => void;
+}
+
+const iconButton = 'text-gray-500 hover:text-electric transition-colors';
+
+const ScopeTree = ({ signals, shownIds, onAppend }: ScopeTreeProps) => {
+    const [filter, setFilter] = useState('');
+    // Scopes opened or closed by hand, against their default
+    const [toggled, setToggled] = useState<Set<string>>(new Set());
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    const tree = useMemo(() => buildScopeTree(signals), [signals]);
+    const shownTree = useMemo(() => filter.trim() ? filterScopeTree(tree, filter.trim()) : tree, [tree, filter]);
+    const matchCount = useMemo(() => scopeSignals(shownTree).length, [shownTree]);
+
+    // While filtering, every scope with a match is open
+    const isOpen = (node: ScopeNode, depth: number) => Boolean(filter.trim()) || (depth < OPEN_DEPTH) !== toggled.has(node.path);
+
+    const toggleScope = (path: string) => setToggled(prev => {
+        const next = new Set(prev);
+        if (next.has(path)) next.delete(path);
+        else next.add(path);
+        return next;
+    });
+
+    /** Selects a signal alone, or with Ctrl/Cmd adds or removes it. */
+    const select = (id: string, add: boolean) => setSelected(prev => {
+        if (!add) return new Set([id]);
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+
+    const appendSelected = () => {
+        onAppend(signals.filter(signal => selected.has(signal.id)).map(signal => signal.id));
+        setSelected(new Set());
+    };
+
+    const renderScope = (node: ScopeNode, depth: number): React.ReactNode => {
+        const open = isOpen(node, depth);
+        return (
+            <div key={node.path}>
+                <div className="group/scope flex items-center gap-1 h-6 pr-2 hover:bg-gray-900" style={{ paddingLeft: depth * 12 + 4 }}>
+                    <button type="button" onClick={() => toggleScope(node.path)} className="flex items-center gap-1 flex-1 min-w-0 text-gray-300 hover:text-electric" title={node.path}>
+                        {open ? <ChevronDown size={12} className="shrink-0" /> : <ChevronRight size={12} className="shrink-0" />}
+                        <span className="truncate">{node.name}</span>
+                    </button>
+                    <button
+                        type="button"
+                        title={`Append the signals in ${node.path}`}
+                        onClick={() => onAppend(scopeSignals(node).map(signal => signal.id))}
+                        className={`${iconButton} opacity-0 group-hover/scope:opacity-100`}
+                    >
+                        <ListPlus size={12} />
+                    </button>
+                </div>
+                {open && (
+                    <>
+                        {node.scopes.map(child => renderScope(child, depth + 1))}
+                        {node.signals.map(signal => renderSignal(signal, depth + 1))}
+                    </>
+                )}
+            </div>
+        );
+    };
+
+    const renderSignal = (signal: WaveSignal, depth: number) => (
+        <div
+            key={signal.id}
+            title={`${signalPath(signal)}${shownIds.has(signal.id) ? ' (shown)' : ''} · double-click to append`}
+            onClick={e => select(signal.id, e.ctrlKey || e.metaKey)}
+            onDoubleClick={() => onAppend([signal.id])}
+            className={`flex items-center h-6 pr-2 cursor-default truncate ${selected.has(signal.id) ? 'bg-electric/10 text-electric' : shownIds.has(signal.id) ? 'text-gray-400' : 'text-gray-600'}`}
+            style={{ paddingLeft: depth * 12 + 20 }}
+        >
+            {leafName(signal)}
+        </div>
+    );
+
+    return (
+        <div className="w-48 md:w-56 h-[500px] bg-black border-r border-gray-800 flex flex-col shrink-0">
+            <div className="h-10 border-b border-gray-800 flex items-center gap-1 px-2 bg-gray-900/50 shrink-0">
+                <ListFilter size={12} className="text-gray-500 shrink-0" />
+                <input
+                    value={filter}
+                    onChange={e => setFilter(e.target.value)}
+                    placeholder="Filter, e.g. *_bus"
+                    spellCheck={false}
+                    className="flex-1 min-w-0 bg-transparent text-gray-300 placeholder-gray-600 outline-none"
+                />
+            </div>
+            <div className="flex-1 overflow-y-auto py-1">
+                {matchCount === 0 && <div className="px-2 text-gray-600">No signals match.</div>}
+                {shownTree.scopes.map(scope => renderScope(scope, 0))}
+                {shownTree.signals.map(signal => renderSignal(signal, 0))}
+            </div>
+            <div className="h-8 border-t border-gray-800 flex items-center gap-2 px-2 text-gray-500 shrink-0">
+                <span className="flex-1">{selected.size ? `${selected.size} selected` : `${matchCount} signals`}</span>
+                <button
+                    type="button"
+                    title="Append the selected signals to the signal pane"
+                    disabled={!selected.size}
+                    onClick={appendSelected}
+                    className="px-2 py-0.5 bg-black rounded text-gray-400 border border-gray-700 hover:text-electric hover:border-electric disabled:opacity-40 disabled:pointer-events-none transition-colors"
+                >
+                    Append
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ScopeTree;
@@ -0,0 +1,299 @@
+/**
+ * @file SignalPane.tsx
+ * @description The WaveformViewer's signal pane, GTKWave style: one row per
+ * signal with its value at the cursor, plus blank, comment and group rows.
+ * Rows can be hidden, dragged into a new order or into groups, and groups
+ * collapsed. Clicking a signal selects it for edge navigation, numeric
+ * buses have a menu of display formats, and analog signals switch between
+ * steps and lines. The canvas draws the same rows (see
+ * flattenRows).
+ * @module Components/Features
+ * @author Mishat
+ */
+import React, { useState } from 'react';
+import { Check, ChevronDown, ChevronRight, EyeOff, FolderPlus, GripVertical, MessageSquarePlus, Plus, X } from 'lucide-react';
+import { EnumLabels, VALUE_RADIXES, ValueRadix, formatEnumLabels, parseEnumLabels } from '../../lib/radix';
+import { ROW_HEIGHT, SignalPalette } from '../../lib/wavePaint';
+import {
+    DropPosition, FlatRow, Interpolation, PaneRow, SignalColor, WaveSignal,
+    addRow, hiddenRows, moveRow, removeRow, renameRow, setRowHidden, toggleGroup,
+} from '../../lib/waveModel';
+
+/** Data type used to carry a dragged row's id, so file drops can be told apart. */
+const ROW_DRAG_TYPE = 'application/x-wave-row';
+
+interface SignalPaneProps {
+    rows: PaneRow[];
+    /** The visible rows, as flattenRows lays them out */
+    flat: FlatRow[];
+    signals: Map<string, WaveSignal>;
+    palettes: Record<SignalColor, SignalPalette>;
+    cursorTime: number;
+    onChange: (rows: PaneRow[]) => void;
+    /** The signal row selected for edge navigation, if any */
+    selectedId: string | null;
+    onSelect: (id: string) => void;
+    /** The rows to render, [first, last) of `flat`; the rest are left as space */
+    range: { first: number; last: number };
+    /** Shows a numeric bus in a radix; enum labels come with the enum radix */
+    onRadixChange: (signalId: string, radix: ValueRadix, labels?: EnumLabels) => void;
+    /** Draws an analog signal as steps or as a line */
+    onInterpolationChange: (signalId: string, interpolation: Interpolation) => void;
+}
+
+const iconButton = 'text-gray-500 hover:text-electric transition-colors';
+
+/** Short names of the radixes, on the format menu's button. */
+const RADIX_ABBREVIATIONS: Record<ValueRadix, string> = { hex: 'hex', binary: 'bin', decimal: 'dec', signed: 'sgn', ascii: 'asc', enum: 'enum' };
+
+const SignalPane = ({ rows, flat, signals, palettes, cursorTime, onChange, selectedId, onSelect, range, onRadixChange, onInterpolationChange }: SignalPaneProps) => {
+    const [dragId, setDragId] = useState<string | null>(null);
+    const [drop, setDrop] = useState<{ id: string; position: DropPosition } | null>(null);
+    const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+    const [showHidden, setShowHidden] = useState(false);
+    // The signal whose format menu is open, and the enum mapping being typed there
+    const [formatMenu, setFormatMenu] = useState<string | null>(null);
+    const [enumDraft, setEnumDraft] = useState<{ text: string; error?: string } | null>(null);
+    const hidden = hiddenRows(rows);
+
+    const commitEdit = () => {
+        if (editing?.text.trim()) onChange(renameRow(rows, editing.id, editing.text.trim()));
+        setEditing(null);
+    };
+
+    const handleDragOver = (e: React.DragEvent, row: PaneRow) => {
+        if (!dragId || !e.dataTransfer.types.includes(ROW_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        const rect = e.currentTarget.getBoundingClientRect();
+        const fraction = (e.clientY - rect.top) / rect.height;
+        // The middle of a group header drops into the group
+        const position: DropPosition = row.kind === 'group' && fraction > 0.25 && fraction < 0.75 ? 'into' : fraction < 0.5 ? 'before' : 'after';
+        if (drop?.id !== row.id || drop.position !== position) setDrop({ id: row.id, position });
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        if (!dragId || !drop) return;
+        e.preventDefault();
+        e.stopPropagation();
+        onChange(moveRow(rows, dragId, drop.id, drop.position));
+        setDragId(null);
+        setDrop(null);
+    };
+
+    const editableText = (row: PaneRow, text: string, className: string) => editing?.id === row.id ? (
+        <input
+            autoFocus
+            value={editing.text}
+            onChange={e => setEditing({ id: row.id, text: e.target.value })}
+            onBlur={commitEdit}
+            onKeyDown={e => {
+                if (e.key === 'Enter') commitEdit();
+                if (e.key === 'Escape') setEditing(null);
+            }}
+            className="flex-1 min-w-0 bg-black border border-gray-700 px-1 text-gray-300 outline-none"
+        />
+    ) : (
+        <span className={`truncate flex-1 ${className}`} title="Double-click to edit" onDoubleClick={() => setEditing({ id: row.id, text })}>{text}</span>
+    );
+
+    const closeFormatMenu = () => {
+        setFormatMenu(null);
+        setEnumDraft(null);
+    };
+
+    const applyEnumDraft = (signal: WaveSignal) => {
+        if (!enumDraft) return;
+        try {
+            onRadixChange(signal.id, 'enum', parseEnumLabels(enumDraft.text));
+            closeFormatMenu();
+        } catch (err) {
+            setEnumDraft({ ...enumDraft, error: err instanceof Error ? err.message : String(err) });
+        }
+    };
+
+    const formatMenuFor = (signal: WaveSignal) => (
+        <div className="absolute top-full right-2 z-40 bg-black border border-gray-700 rounded shadow-xl py-1 min-w-[11rem]" onClick={e => e.stopPropagation()}>
+            {VALUE_RADIXES.map(({ radix, label }) => (
+                <button
+                    key={radix}
+                    type="button"
+                    onClick={() => {
+                        if (radix !== 'enum') {
+                            onRadixChange(signal.id, radix);
+                            closeFormatMenu();
+                        } else setEnumDraft({ text: formatEnumLabels(signal.enumLabels ?? {}) });
+                    }}
+                    className="flex items-center gap-2 w-full text-left px-2 py-0.5 text-gray-400 hover:bg-gray-900 hover:text-electric"
+                >
+                    <Check size={12} className={signal.radix === radix ? '' : 'invisible'} /> {label}
+                </button>
+            ))}
+            {enumDraft && (
+                <div className="px-2 pt-1">
+                    <input
+                        autoFocus
+                        value={enumDraft.text}
+                        placeholder="0=IDLE, 1=BUSY"
+                        onChange={e => setEnumDraft({ text: e.target.value })}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') applyEnumDraft(signal);
+                            if (e.key === 'Escape') closeFormatMenu();
+                        }}
+                        className={`w-full bg-black border px-1 text-gray-300 outline-none ${enumDraft.error ? 'border-red-500' : 'border-gray-700'}`}
+                    />
+                    <div className={`text-[10px] mt-0.5 ${enumDraft.error ? 'text-red-500' : 'text-gray-600'}`}>{enumDraft.error ?? 'value=LABEL pairs, Enter to apply'}</div>
+                </div>
+            )}
+        </div>
+    );
+
+    const rowContent = (row: PaneRow) => {
+        switch (row.kind) {
+            case 'signal': {
+                const signal = signals.get(row.signalId);
+                if (!signal) return null;
+                const value = signal.value(cursorTime);
+                const text = value?.text ?? 'z';
+                return (
+                    <>
+                        <span className={`${palettes[signal.color].name} font-mono truncate flex-1 min-w-[4rem]`} title={signal.name}>{signal.name}</span>
+                        {/* Long bus values are cut to the room left by the name */}
+                        <span className={`text-gray-400 font-mono truncate max-w-[60%] ${signal.type === 'bus' ? 'bg-gray-800 px-1 rounded' : 'shrink-0'}`} title={text}>
+                            {signal.type === 'bus' ? `= ${text}` : text}
+                        </span>
+                        {signal.radix && (
+                            <button
+                                type="button"
+                                title="Display format"
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    if (formatMenu === signal.id) closeFormatMenu();
+                                    else {
+                                        setFormatMenu(signal.id);
+                                        setEnumDraft(null);
+                                    }
+                                }}
+                                className={`${iconButton} shrink-0 text-[10px] uppercase`}
+                            >
+                                {RADIX_ABBREVIATIONS[signal.radix]}
+                            </button>
+                        )}
+                        {signal.interpolation && (
+                            <button
+                                type="button"
+                                title={signal.interpolation === 'step' ? 'Draw as a line' : 'Draw as steps'}
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    onInterpolationChange(signal.id, signal.interpolation === 'step' ? 'linear' : 'step');
+                                }}
+                                className={`${iconButton} shrink-0 text-[10px] uppercase`}
+                            >
+                                {signal.interpolation === 'step' ? 'step' : 'lin'}
+                            </button>
+                        )}
+                        {formatMenu === signal.id && formatMenuFor(signal)}
+                        <button type="button" title="Hide" onClick={() => onChange(setRowHidden(rows, row.id, true))} className={`${iconButton} opacity-0 group-hover/row:opacity-100`}>
+                            <EyeOff size={12} />
+                        </button>
+                    </>
+                );
+            }
+            case 'comment':
+                return (
+                    <>
+                        {editableText(row, row.text, 'text-gray-500 italic')}
+                        <button type="button" title="Delete" onClick={() => onChange(removeRow(rows, row.id))} className={`${iconButton} opacity-0 group-hover/row:opacity-100`}>
+                            <X size={12} />
+                        </button>
+                    </>
+                );
+            case 'blank':
+                return (
+                    <>
+                        <span className="flex-1" />
+                        <button type="button" title="Delete" onClick={() => onChange(removeRow(rows, row.id))} className={`${iconButton} opacity-0 group-hover/row:opacity-100`}>
+                            <X size={12} />
+                        </button>
+                    </>
+                );
+            case 'group':
+                return (
+                    <>
+                        <button type="button" title={row.collapsed ? 'Expand' : 'Collapse'} onClick={() => onChange(toggleGroup(rows, row.id))} className={iconButton}>
+                            {row.collapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+                        </button>
+                        {editableText(row, row.name, 'text-gray-300 font-bold')}
+                        <span className="text-gray-600 shrink-0">{row.rows.length}</span>
+                        <button type="button" title="Ungroup" onClick={() => onChange(removeRow(rows, row.id))} className={`${iconButton} opacity-0 group-hover/row:opacity-100`}>
+                            <X size={12} />
+                        </button>
+                    </>
+                );
+        }
+    };
+
+    return (
+        <>
+            <div className="h-10 border-b border-gray-800 flex items-center gap-2 px-2 text-gray-500 bg-gray-900/50 shrink-0 relative">
+                <span className="flex-1">Signals</span>
+                {hidden.length > 0 && (
+                    <button type="button" title="Hidden signals" onClick={() => setShowHidden(!showHidden)} className={`flex items-center gap-1 ${iconButton}`}>
+                        <EyeOff size={12} /> {hidden.length}
+                    </button>
+                )}
+                <button type="button" title="Insert a blank row" onClick={() => onChange(addRow(rows, 'blank'))} className={iconButton}>
+                    <Plus size={12} />
+                </button>
+                <button type="button" title="Insert a comment" onClick={() => onChange(addRow(rows, 'comment'))} className={iconButton}>
+                    <MessageSquarePlus size={12} />
+                </button>
+                <button type="button" title="Insert a group (drag rows onto it)" onClick={() => onChange(addRow(rows, 'group'))} className={iconButton}>
+                    <FolderPlus size={12} />
+                </button>
+                {showHidden && hidden.length > 0 && (
+                    <div className="absolute top-full right-2 z-40 bg-black border border-gray-700 rounded shadow-xl py-1 min-w-[10rem]">
+                        {hidden.map(row => row.kind === 'signal' && (
+                            <button
+                                key={row.id}
+                                type="button"
+                                onClick={() => onChange(setRowHidden(rows, row.id, false))}
+                                className="block w-full text-left px-2 py-0.5 text-gray-400 hover:bg-gray-900 hover:text-electric"
+                            >
+                                Show {signals.get(row.signalId)?.name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+            <div className="shrink-0" style={{ height: range.first * ROW_HEIGHT }} />
+            {flat.slice(range.first, range.last).map(({ row, depth }) => {
+                const target = drop?.id === row.id ? drop.position : null;
+                return (
+                    <div
+                        key={row.id}
+                        onClick={() => { if (row.kind === 'signal') onSelect(row.id); }}
+                        draggable={editing?.id !== row.id}
+                        onDragStart={e => {
+                            e.dataTransfer.setData(ROW_DRAG_TYPE, row.id);
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDragId(row.id);
+                        }}
+                        onDragOver={e => handleDragOver(e, row)}
+                        onDrop={handleDrop}
+                        onDragEnd={() => { setDragId(null); setDrop(null); }}
+                        className={`group/row relative h-10 border-b flex items-center gap-2 pr-2 text-[10px] md:text-xs hover:bg-gray-900 transition-colors shrink-0 ${depth ? 'pl-6' : 'pl-1'} ${
+                            target === 'before' ? 'border-t-2 border-t-electric border-b-gray-800' : target === 'after' ? 'border-b-2 border-b-electric' : 'border-b-gray-800'
+                        } ${target === 'into' || selectedId === row.id ? 'bg-electric/10' : ''} ${dragId === row.id ? 'opacity-40' : ''} ${row.kind === 'group' ? 'bg-gray-900/40' : ''}`}
+                    >
+                        <GripVertical size={12} className="text-gray-700 cursor-grab shrink-0" />
+                        {rowContent(row)}
+                    </div>
+                );
+            })}
+            <div className="shrink-0" style={{ height: (flat.length - range.last) * ROW_HEIGHT }} />
+        </>
+    );
+};
+
+export default SignalPane;
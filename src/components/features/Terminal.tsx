@@ -7,7 +7,19 @@
  * @author Mishat
  */
 import React, { useState, useRef, useEffect } from 'react';
-import { Terminal as TerminalIcon, X, Maximize2, Minus } from 'lucide-react';
+import { Terminal as TerminalIcon, X, Maximize2, Minimize2, Minus } from 'lucide-react';
+import { executeCommand } from '../../commands/registry';
+import { ShellSession, ThemeName } from '../../commands/types';
+import { BASHRC_PATH, buildSiteFilesystem } from '../../data/filesystem';
+import { HOME_DIR, VfsDir, displayPath, lookup, writeFile } from '../../lib/vfs';
+import { useCommandHistory, searchHistory } from '../../hooks/useCommandHistory';
+import { useTabCompletion } from '../../hooks/useTabCompletion';
+import { WindowGeometry, useWindowGeometry } from '../../hooks/useWindowGeometry';
+import AnsiText from '../ui/AnsiText';
+import Pager from '../ui/Pager';
+
+/** How the Terminal window is shown. */
+export type TerminalWindowMode = 'normal' | 'minimized' | 'maximized';
 
 /**
  * Props for the Terminal component.
@@ -16,177 +28,459 @@ interface TerminalProps {
     /** Callback when the close button (red dot) is clicked */
     onClose?: () => void;
     /** Callback to switch the global application theme */
-    onThemeChange?: (theme: 'default' | 'silicon' | 'light') => void;
+    onThemeChange?: (theme: ThemeName) => void;
+    /** The active theme (exposed to the shell as `$THEME`) */
+    theme?: ThemeName;
+    /** Current window mode */
+    mode?: TerminalWindowMode;
+    /** Callback when the minimize (yellow) or maximize (green) dot changes the mode */
+    onModeChange?: (mode: TerminalWindowMode) => void;
 }
 
+/** localStorage key for the persisted input history. */
+const HISTORY_STORAGE_KEY = 'mishatos.history';
+
+/** localStorage key for the visitor's edited `~/.bashrc`. */
+const BASHRC_STORAGE_KEY = 'mishatos.bashrc';
+
 /**
- * Raw text content for the resume.
- * This string is converted to a Blob and downloaded when the 'resume' command is run.
+ * Creates the site filesystem, with the visitor's saved `~/.bashrc` if there is one.
  */
-
+const buildFilesystemWithBashrc = (): VfsDir => {
+    const root = buildSiteFilesystem();
+    try {
+        const saved = localStorage.getItem(BASHRC_STORAGE_KEY);
+        if (saved !== null) writeFile(root, BASHRC_PATH, saved, false);
+    } catch {
+        // Fall back to the default .bashrc
+    }
+    return root;
+};
 
 /**
- * Static command responses.
- * Maps command strings to their output messages.
+ * Saves `~/.bashrc` if it was changed, ignoring storage failures.
  */
-const COMMANDS: Record<string, string> = {
-    'help': 'Available commands: help, whoami, skills, contact, clear, run_test, resume, theme [silicon|light|dark]',
-    'whoami': 'Mishat | Senior Design Verification Engineer @ Marvell Technology. Obsessed with zero bugs.',
-    'skills': 'SystemVerilog, UVM, Python, Formal Verification, Verdi, DVE, C++',
-    'contact': 'Email: mishath@mun.ca | LinkedIn: in/mishathassan',
-    'run_test': 'Starting UVM Sequence...\nRunning test_soc_boot...\nWait for interrupt...\nTEST PASSED (Coverage: 100%)',
+const saveBashrc = (root: VfsDir) => {
+    const node = lookup(root, BASHRC_PATH);
+    if (node?.type !== 'file') return;
+    try {
+        if (localStorage.getItem(BASHRC_STORAGE_KEY) !== node.content) localStorage.setItem(BASHRC_STORAGE_KEY, node.content);
+    } catch {
+        // The edit still applies for this session.
+    }
 };
 
+/** localStorage key for the window's position and size. */
+const GEOMETRY_STORAGE_KEY = 'mishatos.terminal.geometry';
+
+/** Initial placement: in the page flow, default width, 16rem body (the old `h-64`). */
+const DEFAULT_GEOMETRY: WindowGeometry = { x: 0, y: 0, width: null, height: 256 };
+
+/**
+ * State of an in-progress Ctrl+R reverse incremental search.
+ */
+interface ReverseSearch {
+    /** Text typed so far */
+    query: string;
+    /** Index of the current match in the input history, or -1 */
+    index: number;
+}
+
+/**
+ * A page of text shown in the pager, and how to hand control back to the command.
+ */
+interface PagerState {
+    title: string;
+    text: string;
+    close: () => void;
+}
+
 /**
  * Terminal Component.
  * Emulates a basic shell environment.
  * 
  * Features:
- * - Command history (visual only, not arrow key nav yet)
+ * - Up/Down history recall and Ctrl+R reverse-i-search, persisted in localStorage
+ * - Tab completion of command names and arguments (double Tab lists candidates)
+ * - In-memory filesystem built from the site data (ls, cd, pwd, cat, tree)
+ * - Quoting, pipes, `;` / `&&` sequencing, `>` redirection and text filters
+ * - Variables (`export`, `$VAR`), aliases and `source`; `~/.bashrc` runs on open and is saved
+ * - Long-running commands stream output and stop on Ctrl+C
+ * - `man` pages open in a less-style pager (j/k, Space/b, / search, q)
+ * - ANSI colour/bold/underline escape codes in output, mapped to theme colours
+ * - Window controls: minimize to a dock chip, maximize to a fullscreen overlay,
+ *   drag by the title bar and resize from the corner (geometry persisted)
  * - Auto-scroll to bottom on new output
- * - Custom commands: help, whoami, skills, contact, run_test, resume, theme
+ * - Commands are resolved through the shared command registry
  */
-export default function Terminal({ onClose, onThemeChange }: TerminalProps) {
+export default function Terminal({ onClose, onThemeChange, theme, mode = 'normal', onModeChange }: TerminalProps) {
     const [history, setHistory] = useState<Array<{ type: 'input' | 'output'; content: string }>>([
         { type: 'output', content: 'MishatOS v2.0.0 [Senior Build]' },
         { type: 'output', content: 'Type "help" for instructions.' }
     ]);
     const [input, setInput] = useState('');
     const scrollContainerRef = useRef<HTMLDivElement>(null);
+    const inputHistory = useCommandHistory(HISTORY_STORAGE_KEY);
+    // Position while browsing with Up/Down; null means a fresh line is being edited
+    const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+    // The fresh line stashed while browsing, restored when Down walks past the newest entry
+    const [draft, setDraft] = useState('');
+    const [search, setSearch] = useState<ReverseSearch | null>(null);
+    const [cwd, setCwd] = useState(HOME_DIR);
+    // One mutable session for the Terminal's lifetime; `cwd` state mirrors it for rendering
+    const [session] = useState<ShellSession>(() => {
+        const created: ShellSession = {
+            root: buildFilesystemWithBashrc(),
+            cwd: HOME_DIR,
+            setCwd: (path) => {
+                created.cwd = path;
+                setCwd(path);
+            },
+            env: {},
+            aliases: {},
+            lastStatus: 0,
+        };
+        return created;
+    });
+    // Latest theme, including switches made earlier on the same command line
+    const themeRef = useRef(theme);
+    const complete = useTabCompletion({ surface: 'terminal', session });
+    // Aborts the running command on Ctrl+C; null while the prompt is idle
+    const runningRef = useRef<AbortController | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [pager, setPager] = useState<PagerState | null>(null);
+    const { geometry, windowRef, startDrag, startResize } = useWindowGeometry(GEOMETRY_STORAGE_KEY, DEFAULT_GEOMETRY);
+    const isMaximized = mode === 'maximized';
+
+    const searchMatch = search && search.index >= 0 ? inputHistory.entries[search.index] : '';
+
+    /**
+     * Dispatches a line through the shared command registry. The prompt stays
+     * busy until the command finishes or is interrupted. A command that fails
+     * unexpectedly is reported like any other error, with exit status 1.
+     * @returns The exit status of the line
+     */
+    const execute = async (line: string, historyEntries: string[]): Promise<number> => {
+        const controller = new AbortController();
+        runningRef.current = controller;
+        setIsBusy(true);
+        const print = (text: string) => setHistory(prev => [...prev, { type: 'output', content: text }]);
+        // Shows the pager in place of the scrollback until it is quit or the command is interrupted
+        const page = (title: string, text: string) => new Promise<void>(resolve => {
+            const close = () => {
+                controller.signal.removeEventListener('abort', close);
+                setPager(null);
+                resolve();
+                setTimeout(() => document.getElementById('terminal-input')?.focus({ preventScroll: true }));
+            };
+            controller.signal.addEventListener('abort', close);
+            setPager({ title, text, close });
+        });
+        try {
+            return await executeCommand(line, {
+                surface: 'terminal',
+                print,
+                error: print,
+                get theme() {
+                    return themeRef.current;
+                },
+                setTheme: (next) => {
+                    themeRef.current = next;
+                    onThemeChange?.(next);
+                },
+                clear: () => setHistory([]),
+                close: () => { },
+                history: { entries: historyEntries, clear: inputHistory.clear },
+                page,
+                session,
+                signal: controller.signal,
+            });
+        } catch (err) {
+            print(`bash: ${err instanceof Error ? err.message : String(err)}`);
+            session.lastStatus = 1;
+            return 1;
+        } finally {
+            runningRef.current = null;
+            setIsBusy(false);
+            saveBashrc(session.root);
+        }
+    };
+
+    /**
+     * Echoes a line, records it in the input history and runs it.
+     */
+    const runLine = (line: string) => {
+        setHistory(prev => [...prev, { type: 'input', content: line }]);
+        inputHistory.push(line);
+        setInput('');
+        setHistoryIndex(null);
+        setSearch(null);
+        return execute(line, [...inputHistory.entries, line]);
+    };
+
+    useEffect(() => {
+        themeRef.current = theme;
+    }, [theme]);
+
+    // Run the startup script once, like a login shell
+    useEffect(() => {
+        void execute(`source ${BASHRC_PATH}`, inputHistory.entries);
+    }, []);
 
     /**
      * Handles command submission.
-     * Parses input, executes logic (or looks up static response), and updates history.
+     * During a reverse search, Enter runs the current match (as bash does).
      */
     const handleCommand = (e: React.FormEvent) => {
         e.preventDefault();
+        if (isBusy) return;
+        if (search) {
+            if (searchMatch.trim()) runLine(searchMatch);
+            else setSearch(null);
+            return;
+        }
         if (!input.trim()) return;
+        runLine(input);
+    };
 
-        const rawCmd = input.trim();
-        const args = rawCmd.split(/\s+/);
-        const cmd = args[0].toLowerCase();
-        const arg1 = args[1]?.toLowerCase();
+    /**
+     * Updates the reverse search query and jumps to the newest matching entry.
+     */
+    const updateSearchQuery = (query: string) => {
+        setSearch({ query, index: query ? searchHistory(inputHistory.entries, query) : -1 });
+    };
+
+    /**
+     * Keyboard handling for history recall (Up/Down), reverse-i-search (Ctrl+R)
+     * and Tab completion.
+     */
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        const { entries } = inputHistory;
 
-        if (cmd === 'clear') {
-            setHistory([]);
-            setInput('');
+        if (e.ctrlKey && e.key === 'r') {
+            e.preventDefault();
+            if (!search) {
+                setSearch({ query: '', index: -1 });
+            } else if (search.query) {
+                // Repeated Ctrl+R steps to the next older match
+                const next = searchHistory(entries, search.query, search.index === -1 ? entries.length : search.index);
+                if (next !== -1) setSearch({ ...search, index: next });
+            }
             return;
         }
 
-        if (cmd === 'theme') {
-            if (arg1 === 'silicon') {
-                if (onThemeChange) onThemeChange('silicon');
-                setHistory(prev => [
-                    ...prev,
-                    { type: 'input', content: input },
-                    { type: 'output', content: 'SWITCHING TO RTL VIEW... GATE LEVEL PRIMITIVES EXPOSED.' }
-                ]);
-            } else if (arg1 === 'dark') {
-                if (onThemeChange) onThemeChange('default');
-                setHistory(prev => [
-                    ...prev,
-                    { type: 'input', content: input },
-                    { type: 'output', content: 'REVERTING TO ABSTRACTION LAYER 0.' }
-                ]);
-            } else if (arg1 === 'light') {
-                if (onThemeChange) onThemeChange('light');
-                setHistory(prev => [
-                    ...prev,
-                    { type: 'input', content: input },
-                    { type: 'output', content: 'ACTIVATING CLEAN ROOM PROTOCOLS... ILLUMINATION: 100%' }
-                ]);
-            } else {
-                setHistory(prev => [
-                    ...prev,
-                    { type: 'input', content: input },
-                    { type: 'output', content: 'Usage: theme [silicon | light | dark]' }
-                ]);
+        if (search) {
+            if (e.key === 'Tab') {
+                e.preventDefault();
+            } else if (e.key === 'Escape' || (e.ctrlKey && (e.key === 'g' || e.key === 'c'))) {
+                // Abort: leave the original line untouched
+                e.preventDefault();
+                setSearch(null);
+            } else if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'].includes(e.key)) {
+                // Accept the match into the line for editing
+                e.preventDefault();
+                if (searchMatch) setInput(searchMatch);
+                setSearch(null);
             }
-            setInput('');
             return;
         }
 
-        if (cmd === 'resume') {
-            const link = document.createElement('a');
-            link.href = '/Mishat_Hassan_Resume.pdf';
-            link.download = 'Mishat_Hassan_Resume.pdf';
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-
-            setHistory(prev => [
-                ...prev,
-                { type: 'input', content: input },
-                { type: 'output', content: 'Downloading resume...' }
-            ]);
-            setInput('');
+        if (e.ctrlKey && e.key === 'c') {
+            e.preventDefault();
+            if (runningRef.current) {
+                setHistory(prev => [...prev, { type: 'output', content: '^C' }]);
+                runningRef.current.abort();
+            } else {
+                // Like bash: abandon the current line and start a fresh prompt
+                setHistory(prev => [...prev, { type: 'input', content: `${input}^C` }]);
+                setInput('');
+                setHistoryIndex(null);
+            }
             return;
         }
 
-        const output = COMMANDS[cmd] || `bash: ${cmd}: command not found`;
+        // No type-ahead while a command is running
+        if (isBusy) {
+            e.preventDefault();
+            return;
+        }
 
-        setHistory(prev => [
-            ...prev,
-            { type: 'input', content: input },
-            { type: 'output', content: output }
-        ]);
-        setInput('');
+        if (e.key === 'Tab') {
+            e.preventDefault();
+            const { line, listing } = complete(input);
+            if (listing) {
+                setHistory(prev => [
+                    ...prev,
+                    { type: 'input', content: input },
+                    { type: 'output', content: listing.join('  ') }
+                ]);
+            }
+            setInput(line);
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (!entries.length) return;
+            if (historyIndex === null) setDraft(input);
+            const next = historyIndex === null ? entries.length - 1 : Math.max(0, historyIndex - 1);
+            setHistoryIndex(next);
+            setInput(entries[next]);
+        } else if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            if (historyIndex === null) return;
+            if (historyIndex >= entries.length - 1) {
+                setHistoryIndex(null);
+                setInput(draft);
+            } else {
+                setHistoryIndex(historyIndex + 1);
+                setInput(entries[historyIndex + 1]);
+            }
+        }
     };
 
     useEffect(() => {
         if (scrollContainerRef.current) {
             scrollContainerRef.current.scrollTop = scrollContainerRef.current.scrollHeight;
         }
-    }, [history]);
+    }, [history, pager]);
+
+    // Refocus the prompt when the window is restored or maximized (but not on page load)
+    const isFirstRender = useRef(true);
+    useEffect(() => {
+        if (isFirstRender.current) {
+            isFirstRender.current = false;
+        } else if (mode !== 'minimized') {
+            document.getElementById('terminal-input')?.focus({ preventScroll: true });
+        }
+    }, [mode]);
+
+    // Closing the window ends the session, like closing a real terminal
+    useEffect(() => () => runningRef.current?.abort(), []);
+
+    const title = `mishat@silicon-valley:${displayPath(cwd)}`;
 
     return (
-        <div className="w-full max-w-2xl mx-auto bg-obsidian/95 border border-gray-800 rounded-lg shadow-2xl overflow-hidden backdrop-blur-sm font-mono text-sm">
-            {/* Header */}
-            <div className="bg-gray-900 px-4 py-2 flex items-center justify-between border-b border-gray-800">
-                <div className="flex items-center gap-2 text-gray-400">
-                    <TerminalIcon size={14} />
-                    <span>mishat@silicon-valley:~</span>
-                </div>
-                <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 rounded-full bg-yellow-500/20 hover:bg-yellow-500 cursor-pointer flex items-center justify-center">
-                        <Minus size={8} className="text-yellow-500" />
-                    </div>
-                    <div className="w-3 h-3 rounded-full bg-green-500/20 hover:bg-green-500 cursor-pointer flex items-center justify-center">
-                        <Maximize2 size={8} className="text-green-500" />
+        <>
+            <div
+                ref={windowRef}
+                style={isMaximized ? undefined : {
+                    transform: `translate(${geometry.x}px, ${geometry.y}px)`,
+                    width: geometry.width ?? undefined,
+                    maxWidth: geometry.width ? 'none' : undefined,
+                }}
+                className={`${isMaximized ? 'fixed inset-0 z-[150] flex flex-col' : 'relative w-full max-w-2xl mx-auto rounded-lg'} ${mode === 'minimized' ? 'hidden' : ''} bg-obsidian/95 border border-gray-800 shadow-2xl overflow-hidden backdrop-blur-sm font-mono text-sm`}
+            >
+                {/* Header: drag to move, double-click to maximize */}
+                <div
+                    className={`bg-gray-900 px-4 py-2 flex items-center justify-between border-b border-gray-800 select-none ${isMaximized ? '' : 'cursor-move'}`}
+                    onPointerDown={isMaximized ? undefined : startDrag}
+                    onDoubleClick={() => onModeChange?.(isMaximized ? 'normal' : 'maximized')}
+                >
+                    <div className="flex items-center gap-2 text-gray-400">
+                        <TerminalIcon size={14} />
+                        <span>{title}</span>
                     </div>
-                    <div className="w-3 h-3 rounded-full bg-red-500/20 hover:bg-red-500 cursor-pointer flex items-center justify-center" onClick={onClose}>
-                        <X size={8} className="text-red-500" />
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            aria-label="Minimize terminal"
+                            className="w-3 h-3 rounded-full bg-yellow-500/20 hover:bg-yellow-500 cursor-pointer flex items-center justify-center"
+                            onClick={() => onModeChange?.('minimized')}
+                        >
+                            <Minus size={8} className="text-yellow-500" />
+                        </button>
+                        <button
+                            type="button"
+                            aria-label={isMaximized ? 'Restore terminal' : 'Maximize terminal'}
+                            className="w-3 h-3 rounded-full bg-green-500/20 hover:bg-green-500 cursor-pointer flex items-center justify-center"
+                            onClick={() => onModeChange?.(isMaximized ? 'normal' : 'maximized')}
+                        >
+                            {isMaximized ? <Minimize2 size={8} className="text-green-500" /> : <Maximize2 size={8} className="text-green-500" />}
+                        </button>
+                        <button
+                            type="button"
+                            aria-label="Close terminal"
+                            className="w-3 h-3 rounded-full bg-red-500/20 hover:bg-red-500 cursor-pointer flex items-center justify-center"
+                            onClick={onClose}
+                        >
+                            <X size={8} className="text-red-500" />
+                        </button>
                     </div>
                 </div>
-            </div>
 
-            {/* Body */}
-            <div
-                ref={scrollContainerRef}
-                className="p-4 h-64 overflow-y-auto"
-                onClick={() => document.getElementById('terminal-input')?.focus()}
-            >
-                {history.map((line, i) => (
-                    <div key={i} className={`mb-1 ${line.type === 'input' ? 'text-gray-400' : 'text-electric'}`}>
-                        {line.type === 'input' ? (
-                            <span><span className="text-green-500">$</span> {line.content}</span>
-                        ) : (
-                            <span className="whitespace-pre-wrap">{line.content}</span>
-                        )}
+                {/* Body */}
+                {pager ? (
+                    <Pager
+                        title={pager.title}
+                        text={pager.text}
+                        onClose={pager.close}
+                        className={`px-4 py-2 ${isMaximized ? 'flex-1 min-h-0' : ''}`}
+                        style={isMaximized ? undefined : { height: geometry.height }}
+                    />
+                ) : (
+                    <div
+                        ref={scrollContainerRef}
+                        style={isMaximized ? undefined : { height: geometry.height }}
+                        className={`p-4 overflow-y-auto ${isMaximized ? 'flex-1' : ''}`}
+                        onClick={() => document.getElementById('terminal-input')?.focus()}
+                    >
+                        {history.map((line, i) => (
+                            <div key={i} className={`mb-1 ${line.type === 'input' ? 'text-gray-400' : 'text-electric'}`}>
+                                {line.type === 'input' ? (
+                                    <span><span className="text-green-500">$</span> {line.content}</span>
+                                ) : (
+                                    <span className="whitespace-pre-wrap"><AnsiText text={line.content} /></span>
+                                )}
+                            </div>
+                        ))}
+                        <form onSubmit={handleCommand} className={`flex items-center mt-2 ${search ? '' : 'gap-2'}`}>
+                            {search ? (
+                                <span className="text-gray-500 whitespace-nowrap">
+                                    ({search.query && search.index === -1 ? 'failed ' : ''}reverse-i-search)`
+                                </span>
+                            ) : isBusy ? null : (
+                                <span className="whitespace-nowrap">
+                                    <span className="text-gray-500">{displayPath(cwd)}</span> <span className="text-green-500">$</span>
+                                </span>
+                            )}
+                            <input
+                                id="terminal-input"
+                                type="text"
+                                value={search ? search.query : input}
+                                onChange={(e) => search ? updateSearchQuery(e.target.value) : setInput(e.target.value)}
+                                onKeyDown={handleKeyDown}
+                                readOnly={isBusy}
+                                size={search ? Math.max(1, search.query.length) : undefined}
+                                className={`${search ? '' : 'flex-1'} bg-transparent border-none outline-none text-gray-100 placeholder-gray-600`}
+                                autoComplete="off"
+                            />
+                            {search && (
+                                <span className="flex-1 truncate text-gray-400 whitespace-pre">': {searchMatch}</span>
+                            )}
+                        </form>
                     </div>
-                ))}
-                <form onSubmit={handleCommand} className="flex items-center gap-2 mt-2">
-                    <span className="text-green-500">$</span>
-                    <input
-                        id="terminal-input"
-                        type="text"
-                        value={input}
-                        onChange={(e) => setInput(e.target.value)}
-                        className="flex-1 bg-transparent border-none outline-none text-gray-100 placeholder-gray-600"
-                        autoComplete="off"
+                )}
+
+                {/* Resize grip */}
+                {!isMaximized && (
+                    <div
+                        aria-hidden="true"
+                        className="absolute bottom-0 right-0 w-3 h-3 cursor-se-resize border-r-2 border-b-2 border-gray-600 hover:border-electric rounded-br-lg"
+                        onPointerDown={startResize}
                     />
-                </form>
+                )}
             </div>
-        </div>
+
+            {/* Dock chip while minimized */}
+            {mode === 'minimized' && (
+                <button
+                    type="button"
+                    onClick={() => onModeChange?.('normal')}
+                    className="fixed bottom-4 left-4 z-[150] flex items-center gap-2 px-3 py-1.5 rounded-full bg-gray-900/95 border border-gray-700 hover:border-electric text-gray-300 font-mono text-xs shadow-2xl backdrop-blur-sm"
+                >
+                    <TerminalIcon size={12} className="text-electric" />
+                    <span>{title}</span>
+                    {isBusy && <span className="w-2 h-2 rounded-full bg-success animate-pulse" title="Command running" />}
+                </button>
+            )}
+        </>
     );
 }
\ No newline at end of file
@@ -0,0 +1,257 @@
+/**
+ * @file WaveCanvas.tsx
+ * @description The WaveformViewer's signal rows, drawn on one canvas: clocks
+ * as a square wave, bits as a line (x as a red band, z at mid level), buses as
+ * segments labelled with their value, analog signals as a line scaled to the
+ * values in view with the range marked at the left. Only the rows scrolled into view and the
+ * visible time window are drawn, and transitions closer together than a pixel
+ * are drawn as hatched blocks (see waveRaster), so the cost follows the size
+ * of the canvas rather than the size of the dump.
+ * @module Components/Features
+ * @author Mishat
+ */
+import React, { useEffect, useRef } from 'react';
+import { TimeWindow } from '../../lib/timeWindow';
+import { FlatRow, SignalColor, ValueMatch, WaveSignal, formatAnalog } from '../../lib/waveModel';
+import {
+    ANALOG_PADDING, BUS_HEIGHT, BUS_TOP, LABEL_PADDING, LEVELS, PAINT, ROW_HEIGHT, SignalPalette,
+    analogY, busColors, createPainter, fitLabel,
+} from '../../lib/wavePaint';
+import { analogTrace, clockEdges, rasterizeSignal } from '../../lib/waveRaster';
+
+const FONT = '10px "JetBrains Mono", monospace';
+
+/** Resolves colours and makes hatch patterns, kept until the theme changes. */
+interface PaintCache {
+    theme: string;
+    paint: (color: string) => string;
+    hatches: Map<string, CanvasPattern | null>;
+}
+
+/**
+ * Makes (once per colour) the diagonal hatching that fills dense blocks.
+ */
+const hatchPattern = (ctx: CanvasRenderingContext2D, color: string, cache: PaintCache) => {
+    if (cache.hatches.has(color)) return cache.hatches.get(color)!;
+    const tile = document.createElement('canvas');
+    tile.width = tile.height = 6;
+    const tileCtx = tile.getContext('2d')!;
+    tileCtx.strokeStyle = color;
+    tileCtx.lineWidth = 1;
+    tileCtx.beginPath();
+    tileCtx.moveTo(0, 6);
+    tileCtx.lineTo(6, 0);
+    tileCtx.moveTo(-1, 1);
+    tileCtx.lineTo(1, -1);
+    tileCtx.moveTo(5, 7);
+    tileCtx.lineTo(7, 5);
+    tileCtx.stroke();
+    const pattern = ctx.createPattern(tile, 'repeat');
+    cache.hatches.set(color, pattern);
+    return pattern;
+};
+
+interface WaveCanvasProps {
+    /** The visible rows, as flattenRows lays them out */
+    rows: FlatRow[];
+    signals: Map<string, WaveSignal>;
+    palettes: Record<SignalColor, SignalPalette>;
+    view: TimeWindow;
+    /** End of the time axis; the last value holds until then */
+    endTime: number;
+    width: number;
+    /** How far the rows are scrolled, from the top of the header row above them */
+    scrollTop: number;
+    /** Height of the scrolled viewport */
+    height: number;
+    /** The row selected for edge navigation, shaded */
+    selectedId: string | null;
+    /** The current find match, outlined */
+    highlight?: ValueMatch;
+    /** Redraws with the new theme's colours when it changes */
+    theme: string;
+}
+
+const WaveCanvas = ({ rows, signals, palettes, view, endTime, width, scrollTop, height, selectedId, highlight, theme }: WaveCanvasProps) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const cacheRef = useRef<PaintCache | null>(null);
+
+    useEffect(() => {
+        // Drawn on the next frame: the theme's class is put on <body> after this
+        // effect runs, and a burst of wheel events only needs one frame
+        const frame = requestAnimationFrame(() => {
+            const canvas = canvasRef.current;
+            const ctx = canvas?.getContext('2d');
+            if (!canvas || !ctx || width <= 0 || height <= 0) return;
+
+            if (cacheRef.current?.theme !== theme) cacheRef.current = { theme, paint: createPainter(canvas), hatches: new Map() };
+            const cache = cacheRef.current;
+            const { paint } = cache;
+
+            const dpr = window.devicePixelRatio || 1;
+            canvas.width = Math.round(width * dpr);
+            canvas.height = Math.round(height * dpr);
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.clearRect(0, 0, width, height);
+            ctx.font = FONT;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            const charWidth = ctx.measureText('0').width;
+
+            const span = view.end - view.start;
+            const x = (time: number) => ((time - view.start) / span) * width;
+            const hatch = (color: string, left: number, top: number, right: number, bottom: number) => {
+                ctx.fillStyle = hatchPattern(ctx, paint(color), cache) ?? paint(color);
+                ctx.fillRect(left, top, Math.max(1, right - left), bottom - top);
+            };
+
+            // The header row sits above the first signal row
+            const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - 1);
+            const last = Math.min(rows.length, Math.ceil((scrollTop + height) / ROW_HEIGHT));
+            for (let index = first; index < last; index++) {
+                const { row } = rows[index];
+                const top = (index + 1) * ROW_HEIGHT - scrollTop;
+                const bottom = top + ROW_HEIGHT;
+
+                if (row.id === selectedId || row.kind === 'group') {
+                    ctx.fillStyle = paint(row.kind === 'group' ? PAINT.group : PAINT.selected);
+                    ctx.fillRect(0, top, width, ROW_HEIGHT);
+                }
+                ctx.fillStyle = paint(PAINT.separator);
+                ctx.fillRect(0, bottom - 1, width, 1);
+
+                const signal = row.kind === 'signal' ? signals.get(row.signalId) : undefined;
+                if (!signal) continue;
+                const palette = palettes[signal.color];
+
+                if (signal.type === 'clock' && signal.period) {
+                    const origin = signal.edges[0] ?? 0;
+                    const edges = clockEdges(view, width, origin, signal.period);
+                    if (!edges) {
+                        hatch(palette.stroke, 0, top, width, bottom);
+                        continue;
+                    }
+                    ctx.beginPath();
+                    ctx.moveTo(x(edges[0]), bottom);
+                    for (const edge of edges.slice(0, -1)) {
+                        const high = x(edge + signal.period / 2);
+                        ctx.lineTo(x(edge), top);
+                        ctx.lineTo(high, top);
+                        ctx.lineTo(high, bottom);
+                        ctx.lineTo(x(edge + signal.period), bottom);
+                    }
+                    ctx.strokeStyle = paint(palette.stroke);
+                    ctx.lineWidth = 1;
+                    ctx.stroke();
+                    continue;
+                }
+
+                if (signal.type === 'analog') {
+                    const trace = analogTrace(signal, view, width, endTime);
+                    if (!trace) continue;
+                    const { points, min, max } = trace;
+                    const y = (value: number) => analogY(value, min, max, top);
+                    const line = new Path2D();
+                    points.forEach(([time, value], i) => i ? line.lineTo(x(time), y(value)) : line.moveTo(x(time), y(value)));
+                    if (palette.area) {
+                        const area = new Path2D(line);
+                        area.lineTo(x(points[points.length - 1][0]), y(min));
+                        area.lineTo(x(points[0][0]), y(min));
+                        ctx.fillStyle = paint(palette.area);
+                        ctx.fill(area);
+                    }
+                    ctx.strokeStyle = paint(palette.stroke);
+                    ctx.lineWidth = 1.5;
+                    ctx.stroke(line);
+                    // The range in view, at the left edge
+                    ctx.fillStyle = paint(PAINT.axis);
+                    ctx.textAlign = 'left';
+                    ctx.fillText(formatAnalog(max, signal.unit), 4, top + ANALOG_PADDING);
+                    ctx.fillText(formatAnalog(min, signal.unit), 4, bottom - ANALOG_PADDING);
+                    ctx.textAlign = 'center';
+                    continue;
+                }
+
+                const blocks = rasterizeSignal(signal, view, width, endTime);
+
+                if (signal.type !== 'bus') {
+                    const levelY = (level: number) => top + level * ROW_HEIGHT;
+                    ctx.beginPath();
+                    let previous: number | undefined;
+                    for (const { start, end, value, dense } of blocks) {
+                        const level = value ? LEVELS[value.text] : undefined;
+                        if (dense || value?.text === 'x') {
+                            const [left, right] = [x(start), x(end)];
+                            if (dense) hatch(palette.stroke, left, levelY(LEVELS['1']), right, levelY(LEVELS['0']));
+                            else {
+                                ctx.fillStyle = paint(PAINT.unknownFill);
+                                ctx.fillRect(left, levelY(LEVELS['1']), right - left, levelY(LEVELS['0']) - levelY(LEVELS['1']));
+                                ctx.strokeStyle = paint(PAINT.unknown);
+                                ctx.lineWidth = 0.5;
+                                ctx.strokeRect(left, levelY(LEVELS['1']), right - left, levelY(LEVELS['0']) - levelY(LEVELS['1']));
+                            }
+                        }
+                        if (level === undefined) {
+                            previous = undefined;
+                            continue;
+                        }
+                        // A vertical edge from the previous level, then the level itself
+                        if (previous !== undefined && previous !== level) {
+                            ctx.moveTo(x(start), levelY(previous));
+                            ctx.lineTo(x(start), levelY(level));
+                        }
+                        ctx.moveTo(x(start), levelY(level));
+                        ctx.lineTo(x(end), levelY(level));
+                        previous = level;
+                    }
+                    ctx.strokeStyle = paint(palette.stroke);
+                    ctx.lineWidth = 1;
+                    ctx.stroke();
+                    continue;
+                }
+
+                const busTop = top + BUS_TOP;
+                for (const { start, end, value, dense } of blocks) {
+                    const left = x(start);
+                    const right = x(end);
+                    if (dense) {
+                        hatch(palette.bus?.border ?? palette.stroke, left, busTop, right, busTop + BUS_HEIGHT);
+                        continue;
+                    }
+                    if (!value) continue;
+                    const colors = busColors(palette, value.state);
+                    if (colors.fill) {
+                        ctx.fillStyle = paint(colors.fill);
+                        ctx.fillRect(left, busTop, right - left, BUS_HEIGHT);
+                    }
+                    if (!value.state && colors.sheen) {
+                        ctx.fillStyle = paint(colors.sheen);
+                        ctx.fillRect(left, busTop, right - left, BUS_HEIGHT);
+                    }
+                    const isMatch = highlight?.signalId === signal.id && start < highlight.end && end > highlight.start;
+                    ctx.strokeStyle = paint(isMatch ? PAINT.highlight : colors.border);
+                    ctx.lineWidth = 1;
+                    ctx.strokeRect(left + 0.5, busTop + 0.5, Math.max(0, right - left - 1), BUS_HEIGHT - 1);
+                    // Labels are centred on the part of the segment in view
+                    const [shownLeft, shownRight] = [Math.max(left, 0), Math.min(right, width)];
+                    const label = fitLabel(value.text, shownRight - shownLeft - 2 * LABEL_PADDING, charWidth);
+                    if (label) {
+                        ctx.fillStyle = paint(colors.text);
+                        ctx.fillText(label, (shownLeft + shownRight) / 2, busTop + BUS_HEIGHT / 2);
+                    }
+                }
+            }
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [rows, signals, palettes, view, endTime, width, scrollTop, height, selectedId, highlight, theme]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            className="absolute left-0 w-full pointer-events-none"
+            style={{ top: scrollTop, height }}
+        />
+    );
+};
+
+export default WaveCanvas;
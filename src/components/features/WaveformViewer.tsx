@@ -1,65 +1,237 @@
 /**
  * @file WaveformViewer.tsx
  * @description A complex "GTKWave-like" digital signal viewer.
- * Visualizes career history data as digital waveforms (CLK, BUS, STATE).
- * Supporting zooming (visual) and time cursor interactions.
+ * Visualizes career history data as digital waveforms (CLK, BUS, STATE),
+ * with skill proficiency plotted as analog rows.
+ * Supports zooming and panning the time window, a time cursor, and SVA
+ * assertions checked against the trace, with pass/fail markers on the waves.
+ * Rows come from a signal model (hide, reorder, group, comment) and are all
+ * drawn on one canvas, which scales to large dumps. The cursor can step
+ * between a signal's edges and through bus values matching a search. A VCD
+ * file dropped on the viewer (or opened) replaces the trace. Sessions are
+ * saved as .gtkw files, and the trace's view is kept in the URL hash.
+ * Playback sweeps the cursor across the timeline like a simulation run,
+ * printing the transitions it crosses to a $display log.
  * @module Components/Features
  * @author Mishat
  */
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Download, FolderOpen, ImageDown, ListTree, Maximize, Save, X, ZoomIn, ZoomOut } from 'lucide-react';
+import AssertionPanel, { CheckedAssertion } from './AssertionPanel';
+import DisplayLog, { DisplayLine } from './DisplayLog';
+import MarkerPanel, { Marker } from './MarkerPanel';
+import NavigationBar from './NavigationBar';
+import PlaybackControls from './PlaybackControls';
+import ScopeTree from './ScopeTree';
+import SignalPane from './SignalPane';
+import WaveCanvas from './WaveCanvas';
 import { TRACE_DATA } from '../../data/traceData';
+import {
+    CLOCK_CYCLES_PER_YEAR, DEFAULT_TRACE_ASSERTIONS, TRACE_END_YEAR, TRACE_SAMPLES, TRACE_START_YEAR, TRACE_WAVE_ROWS, TRACE_WAVE_SIGNALS,
+    checkTraceAssertion,
+} from '../../data/traceSignals';
+import { TRACE_VCD_FILENAME, buildTraceVcd } from '../../data/traceVcd';
+import { downloadBlob, downloadText } from '../../commands/builtins';
+import { usePlayback } from '../../hooks/usePlayback';
+import { formatDecimalYear, formatDuration } from '../../lib/dates';
+import { isAbortError } from '../../lib/async';
+import { loadVcd } from '../../lib/loadVcd';
+import { TimeAxis, TimeWindow, clampWindow, gridTicks, numericTicks, panWindow, snapToEdge, zoomWindow } from '../../lib/timeWindow';
+import { VcdDump, VcdError, formatVcdTime } from '../../lib/vcd';
+import {
+    PaneRow, SignalColor, ValueMatch, WaveSignal,
+    appendSignals, crossedChanges, findEdge, findValues, flattenRows, signalRows, signalsFromVcd, stepMatch, withInterpolation, withRadix,
+} from '../../lib/waveModel';
+import { ROW_HEIGHT, SignalPalette, createPainter } from '../../lib/wavePaint';
+import {
+    SESSION_EXTENSION, SessionError, SignalFormat, WaveSession, hasSessionHash, readSession, readSessionHash, sessionHash, writeSession,
+} from '../../lib/waveSession';
+import { WaveMark, buildWaveSvg, svgToPng } from '../../lib/waveSvg';
 
-// Month names for formatting
-const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'April', 'May', 'June', 'July', 'Aug', 'Sept', 'Oct', 'Nov', 'Dec'];
+/** Zoom factor of one button press or key stroke. */
+const ZOOM_STEP = 2;
+
+/** Grid labels are kept at least this many pixels apart. */
+const MIN_GRID_SPACING = 56;
+
+/** A press that moves less than this many pixels is a click rather than a drag. */
+const CLICK_SLOP = 3;
+
+/** Cursors placed within this many pixels of a transition snap to it. */
+const SNAP_DISTANCE = 6;
+
+/** Rows rendered in the signal pane beyond those scrolled into view, each way. */
+const ROW_OVERSCAN = 5;
+
+/** Grid labels of a loaded dump (times with units) are kept at least this many pixels apart. */
+const MIN_VCD_GRID_SPACING = 80;
+
+/** Narrowest view of a loaded dump, in its time units. */
+const MIN_VCD_SPAN = 2;
+
+/** The career trace's time axis: decimal years, down to two sys_clk cycles. */
+const TRACE_AXIS: TimeAxis = {
+    bounds: { start: TRACE_START_YEAR, end: TRACE_END_YEAR },
+    minSpan: 2 / CLOCK_CYCLES_PER_YEAR,
+    formatTime: year => formatDecimalYear(year),
+    formatDelta: formatDuration,
+    ticks: (view, width) => gridTicks(view, width, MIN_GRID_SPACING),
+    edges: [...new Set(TRACE_DATA.flatMap(d => [d.start, d.end]))].sort((a, b) => a - b),
+};
 
 /**
- * Formats a decimal year to a readable month/year string.
- * @param decimalYear - Year as decimal (e.g., 2025.5 for June 2025)
- * @returns Formatted string (e.g., "June 2025")
+ * The time axis of a loaded dump, in its own time units.
  */
-const formatDecimalYear = (decimalYear: number): string => {
-    const year = Math.floor(decimalYear);
-    const monthDecimal = (decimalYear - year) * 12;
-    const monthIndex = Math.round(monthDecimal) - 1;
-    const safeMonthIndex = Math.max(0, Math.min(11, monthIndex < 0 ? 0 : monthIndex));
-    return `${MONTH_NAMES[safeMonthIndex]} ${year}`;
+const vcdAxis = (dump: VcdDump): TimeAxis => {
+    const format = (time: number) => formatVcdTime(Math.round(time), dump.timescale);
+    return {
+        bounds: { start: 0, end: Math.max(1, dump.endTime) },
+        minSpan: MIN_VCD_SPAN,
+        formatTime: format,
+        formatDelta: format,
+        ticks: (view, width) => numericTicks(view, width, MIN_VCD_GRID_SPACING, format),
+        edges: [...new Set(dump.signals.flatMap(signal => signal.changes.map(([time]) => time)))].sort((a, b) => a - b),
+    };
 };
 
-// Helper component for SignalRow
-const SignalRow = ({ name, color, value, isBus = false }: { name: string, color: string, value: string, isBus?: boolean }) => (
-    <div className="h-10 border-b border-gray-800 flex items-center px-4 justify-between text-[10px] md:text-xs hover:bg-gray-900 transition-colors shrink-0">
-        <span className={`${color} font-mono`}>{name}</span>
-        <span className={`text-gray-400 font-mono ${isBus ? 'bg-gray-800 px-1 rounded' : ''}`}>
-            {isBus ? `= ${value}` : value}
-        </span>
-    </div>
-);
-
-// Pre-sort trace data to avoid sorting on every render
-const SORTED_TRACE_DATA = [...TRACE_DATA].sort((a, b) => a.type === 'EDU' ? -1 : 1);
-
-// Generate Clock Pulses
-const clockCycles = 50;
-const clockPath = `M 0 10 ` + Array.from({ length: clockCycles }).map((_, i) => {
-    const x1 = (i / clockCycles) * 100;
-    const x2 = ((i + 0.5) / clockCycles) * 100;
-    const x3 = ((i + 1) / clockCycles) * 100;
-    return `L ${x1} 0 L ${x2} 0 L ${x2} 24 L ${x3} 24`;
-}).join(" ");
+/** A dump loaded into the viewer, with where it came from. */
+interface LoadedDump {
+    fileName: string;
+    dump: VcdDump;
+    signals: WaveSignal[];
+    axis: TimeAxis;
+}
+
+/**
+ * Builds the test for a find query: a case-insensitive substring, or a regular expression.
+ * @throws {SyntaxError} If the query is not a valid regular expression
+ */
+const valueTest = (query: string, regex: boolean): ((text: string) => boolean) => {
+    if (regex) {
+        const pattern = new RegExp(query, 'i');
+        return text => pattern.test(text);
+    }
+    const needle = query.toLowerCase();
+    return text => text.toLowerCase().includes(needle);
+};
+
+/** Scales offered for PNG export, in pixels per screen pixel. */
+const PNG_SCALES = [1, 2, 4];
+
+/** Milliseconds the view must stay still before the URL hash follows it. */
+const HASH_UPDATE_DELAY = 400;
+
+/** Replaces the URL's hash without adding a history entry. */
+const replaceHash = (hash: string) => {
+    if (window.location.hash !== hash) window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}${hash}`);
+};
+
+/** Lines kept in the $display log; older ones scroll away. */
+const DISPLAY_LOG_LIMIT = 500;
+
+/** Names of the markers that can be dropped, in order. */
+const MARKER_NAMES = Array.from({ length: 26 }, (_, i) => String.fromCharCode(65 + i));
 
 /**
  * Interactive Waveform Viewer (simulating GTKWave).
- * Renders digital signals (CLK, RST, BUS) using SVG paths and div blocks.
- * Supports zooming (visual only) and time cursor navigation.
+ * Draws the signal pane's rows (clocks, bits and buses) on a canvas, only those in view.
+ * Supports zoom (wheel, buttons and keys) and pan (drag, shift+wheel, arrows),
+ * primary and secondary cursors (click and shift+click) with the delta between
+ * them, named markers, VCD and image (SVG/PNG) export and an assertion panel
+ * whose results are marked on the waveform. Without a mouse: ↑/↓ select a signal, [ and ] move
+ * the cursor to its previous/next edge, / finds a bus value, n/N step
+ * through the matches and Space plays or pauses. VCD files can be dropped on it or opened, and are
+ * shown in place of the trace until closed; .gtkw session files restore a
+ * saved view over the trace or dump they were saved from.
  */
 const WaveformViewer = ({ theme }: { theme: 'default' | 'silicon' | 'light' }) => {
     const [cursorTime, setCursorTime] = useState<number>(2026.0);
+    const [secondaryTime, setSecondaryTime] = useState<number | null>(null);
+    const [hoverTime, setHoverTime] = useState<number | null>(null);
+    const [hoverRow, setHoverRow] = useState<number | null>(null);
+    const [namedMarkers, setNamedMarkers] = useState<Marker[]>([]);
+    const [assertions, setAssertions] = useState(() => DEFAULT_TRACE_ASSERTIONS.map((source, id) => ({ id, source, visible: true })));
+    const nextAssertionId = useRef(DEFAULT_TRACE_ASSERTIONS.length);
+    const [view, setView] = useState<TimeWindow>(TRACE_AXIS.bounds);
+    const [canvasWidth, setCanvasWidth] = useState(0);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [bodyHeight, setBodyHeight] = useState(0);
+    const [loaded, setLoaded] = useState<LoadedDump | null>(null);
+    const [loading, setLoading] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isDragOver, setIsDragOver] = useState(false);
+    const [showExport, setShowExport] = useState(false);
+    const [rows, setRows] = useState<PaneRow[]>(TRACE_WAVE_ROWS);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [formats, setFormats] = useState<Record<string, SignalFormat>>({});
+    const [query, setQuery] = useState('');
+    const [regex, setRegex] = useState(false);
+    const [scopeId, setScopeId] = useState('');
+    const [matchIndex, setMatchIndex] = useState(-1);
+    const [showLog, setShowLog] = useState(false);
+    const [showScopes, setShowScopes] = useState(false);
+    const [displayLines, setDisplayLines] = useState<DisplayLine[]>([]);
+    const nextLineId = useRef(0);
+    const rootRef = useRef<HTMLDivElement>(null);
+    const bodyRef = useRef<HTMLDivElement>(null);
+    const findInputRef = useRef<HTMLInputElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const loadAbortRef = useRef<AbortController | null>(null);
+    // Where a drag-to-pan started: pointer x and the view at the time
+    const dragRef = useRef<{ x: number; view: TimeWindow } | null>(null);
+
+    const axis = loaded?.axis ?? TRACE_AXIS;
+    // Buses shown in a radix other than their own (and analog signals drawn
+    // the other way) are re-formatted here, so every view of them agrees
+    const baseSignals = loaded?.signals ?? TRACE_WAVE_SIGNALS;
+    const signals = useMemo(
+        () => baseSignals.map(signal => {
+            const format = formats[signal.id];
+            if (format?.interpolation) return withInterpolation(signal, format.interpolation);
+            return format?.radix ? withRadix(signal, format.radix, format.labels) : signal;
+        }),
+        [baseSignals, formats]
+    );
+    const signalMap = useMemo(() => new Map(signals.map(signal => [signal.id, signal])), [signals]);
+    const flatRows = useMemo(() => flattenRows(rows), [rows]);
+    // Only visible signal rows can be selected, stepped through or searched
+    const signalRowIds = flatRows.flatMap(({ row }) => row.kind === 'signal' ? [{ id: row.id, signalId: row.signalId }] : []);
+    const selectedSignal = signalMap.get(signalRowIds.find(r => r.id === selectedId)?.signalId ?? '');
+    // The pane renders only the rows scrolled into view (and a few either side)
+    const paneRange = {
+        first: Math.min(flatRows.length, Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - 1 - ROW_OVERSCAN)),
+        last: Math.min(flatRows.length, Math.ceil((scrollTop + bodyHeight) / ROW_HEIGHT) + ROW_OVERSCAN),
+    };
+    const shownSignals = signalRowIds.flatMap(r => signalMap.get(r.signalId) ?? []);
+    const buses = shownSignals.filter(signal => signal.type === 'bus');
+    // The window listeners below are registered once, so they read the axis through a ref
+    const axisRef = useRef(axis);
+    axisRef.current = axis;
+
+    // Only properties that parsed are added, so checking them cannot throw
+    const checkedAssertions = useMemo<CheckedAssertion[]>(
+        () => assertions.map(({ id, source, visible }) => ({ id, visible, ...checkTraceAssertion(source) })),
+        [assertions]
+    );
+    const shownAssertions = checkedAssertions.filter(a => a.visible);
 
-    // Config
-    const startYear = 2017;
-    const endYear = 2026;
-    const duration = endYear - startYear;
+    const search = useMemo((): { matches: ValueMatch[]; error?: string } => {
+        if (!query) return { matches: [] };
+        try {
+            const test = valueTest(query, regex);
+            const searched = buses.filter(bus => !scopeId || bus.id === scopeId);
+            return { matches: findValues(searched, test, axis.bounds) };
+        } catch (err) {
+            return { matches: [], error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [query, regex, scopeId, buses.map(bus => bus.id).join(), axis]);
+    const currentMatch: ValueMatch | undefined = search.matches[matchIndex];
+    // A new search starts again from the cursor
+    useEffect(() => setMatchIndex(-1), [search]);
+
+    const duration = view.end - view.start;
+    const zoomLevel = Math.round(((axis.bounds.end - axis.bounds.start) / duration) * 100);
 
     // Active Data based on cursor
     const activeData = TRACE_DATA.find(d => cursorTime >= d.start && cursorTime < d.end) || TRACE_DATA[0];
@@ -69,221 +241,811 @@ const WaveformViewer = ({ theme }: { theme: 'default' | 'silicon' | 'light' }) =
     const c = {
         clk: isLight ? "text-green-700" : "text-green-500",
         clkStroke: isLight ? "#15803d" : "#00ff41",
+        // Name colours for exports, which can't use the classes above
+        clkLabel: isLight ? "#15803d" : "#22c55e",
+        stateLabel: isLight ? "#ca8a04" : "#eab308",
+        companyLabel: isLight ? "#1d4ed8" : "var(--color-electric)",
+        schoolLabel: isLight ? "#0284c7" : "#60a5fa",
+        degreeLabel: isLight ? "#ea580c" : "#fb923c",
+        roleLabel: isLight ? "#7e22ce" : "#c084fc",
         rst: "text-red-500",
         state: isLight ? "text-yellow-600" : "text-yellow-500",
-        stateBorder: isLight ? "border-yellow-600/50" : "border-yellow-500/50",
-        stateBg: isLight ? "bg-yellow-600/10" : "bg-yellow-500/10",
-        stateText: isLight ? "text-yellow-600/80" : "text-yellow-500/50",
+        // Bus colours are painted on the canvas: CSS colours with a Tailwind-style opacity
+        stateBorder: isLight ? "#ca8a04/50" : "#eab308/50",
+        stateBg: isLight ? "#ca8a04/10" : "#eab308/10",
+        stateText: isLight ? "#ca8a04/80" : "#eab308/50",
 
         company: isLight ? "text-blue-700" : "text-electric",
-        companyBorder: isLight ? "border-blue-700/50" : "border-electric/50",
-        companyBg: isLight ? "bg-blue-700/10" : "bg-electric/10",
-        companyText: isLight ? "text-blue-700/80" : "text-electric/80",
-        companySkew: isLight ? "bg-blue-700/5" : "bg-electric/5",
+        companyBorder: isLight ? "#1d4ed8/50" : "var(--color-electric)/50",
+        companyBg: isLight ? "#1d4ed8/10" : "var(--color-electric)/10",
+        companyText: isLight ? "#1d4ed8/80" : "var(--color-electric)/80",
+        companySkew: isLight ? "#1d4ed8/5" : "var(--color-electric)/5",
 
         school: isLight ? "text-sky-600" : "text-blue-400",
-        schoolBorder: isLight ? "border-sky-600/50" : "border-blue-500/50",
-        schoolBg: isLight ? "bg-sky-600/10" : "bg-blue-500/10",
-        schoolText: isLight ? "text-sky-600/80" : "text-blue-400/80",
-        schoolSkew: isLight ? "bg-sky-600/5" : "bg-blue-500/5",
+        schoolBorder: isLight ? "#0284c7/50" : "#3b82f6/50",
+        schoolBg: isLight ? "#0284c7/10" : "#3b82f6/10",
+        schoolText: isLight ? "#0284c7/80" : "#60a5fa/80",
+        schoolSkew: isLight ? "#0284c7/5" : "#3b82f6/5",
 
         degree: isLight ? "text-orange-600" : "text-orange-400",
-        degreeBorder: isLight ? "border-orange-600/50" : "border-orange-500/50",
-        degreeBg: isLight ? "bg-orange-600/10" : "bg-orange-500/10",
-        degreeText: isLight ? "text-orange-600/80" : "text-orange-400/80",
-        degreeSkew: isLight ? "bg-orange-600/5" : "bg-orange-500/5",
+        degreeBorder: isLight ? "#ea580c/50" : "#f97316/50",
+        degreeBg: isLight ? "#ea580c/10" : "#f97316/10",
+        degreeText: isLight ? "#ea580c/80" : "#fb923c/80",
+        degreeSkew: isLight ? "#ea580c/5" : "#f97316/5",
 
         role: isLight ? "text-purple-700" : "text-purple-400",
-        roleBorder: isLight ? "border-purple-700/50" : "border-purple-500/50",
-        roleBg: isLight ? "bg-purple-700/10" : "bg-purple-500/10",
-        roleText: isLight ? "text-purple-700/80" : "text-purple-400/80",
+        roleBorder: isLight ? "#7e22ce/50" : "#a855f7/50",
+        roleBg: isLight ? "#7e22ce/10" : "#a855f7/10",
+        roleText: isLight ? "#7e22ce/80" : "#c084fc/80",
+
+        skill: isLight ? "text-teal-700" : "text-teal-400",
+        skillLabel: isLight ? "#0f766e" : "#2dd4bf",
+        skillArea: isLight ? "#0f766e/10" : "#2dd4bf/10",
 
-        eduRole: isLight ? "text-gray-600" : "text-gray-300",
-        eduBorder: isLight ? "border-gray-500/50" : "border-gray-600/30",
-        eduBg: isLight ? "bg-gray-800" : "bg-gray-700",
+        gridText: isLight ? "text-gray-600" : "text-gray-400",
 
-        gridText: isLight ? "text-gray-600" : "text-gray-400"
+        vcdScalar: isLight ? "text-green-700" : "text-green-500",
+        vcdVector: isLight ? "text-blue-700" : "text-electric",
+        vcdBorder: isLight ? "#1d4ed8/50" : "var(--color-electric)/50",
+        vcdBg: isLight ? "#1d4ed8/10" : "var(--color-electric)/10",
+        vcdText: isLight ? "#1d4ed8/80" : "var(--color-electric)/80",
+
+        secondary: isLight ? "bg-cyan-700" : "bg-cyan-400",
+        marker: isLight ? "text-amber-700" : "text-pcbgold",
+        markerLine: isLight ? "border-amber-700/70" : "border-pcbgold/60",
+        markerFlag: isLight ? "bg-amber-700" : "bg-pcbgold",
+        secondaryPaint: isLight ? "#0e7490" : "#22d3ee",
+        markerPaint: isLight ? "#b45309" : "var(--color-pcbgold)",
     };
 
+    // Colours for each signal colour token; kept between renders so the canvas only redraws when they change
+    const palettes = useMemo<Record<SignalColor, SignalPalette>>(() => ({
+        clock: { name: c.clk, label: c.clkLabel, stroke: c.clkStroke },
+        reset: { name: c.rst, label: '#ef4444', stroke: '#ef4444' },
+        state: { name: c.state, label: c.stateLabel, stroke: c.clkStroke, bus: { border: c.stateBorder, fill: c.stateBg, text: c.stateText } },
+        company: { name: c.company, label: c.companyLabel, stroke: c.clkStroke, bus: { border: c.companyBorder, fill: c.companyBg, text: c.companyText, sheen: c.companySkew } },
+        school: { name: c.school, label: c.schoolLabel, stroke: c.clkStroke, bus: { border: c.schoolBorder, fill: c.schoolBg, text: c.schoolText, sheen: c.schoolSkew } },
+        degree: { name: c.degree, label: c.degreeLabel, stroke: c.clkStroke, bus: { border: c.degreeBorder, fill: c.degreeBg, text: c.degreeText, sheen: c.degreeSkew } },
+        role: { name: c.role, label: c.roleLabel, stroke: c.clkStroke, bus: { border: c.roleBorder, fill: c.roleBg, text: c.roleText } },
+        scalar: { name: c.vcdScalar, label: c.clkLabel, stroke: c.clkStroke },
+        vector: { name: c.vcdVector, label: c.companyLabel, stroke: c.clkStroke, bus: { border: c.vcdBorder, fill: c.vcdBg, text: c.vcdText } },
+        skill: { name: c.skill, label: c.skillLabel, stroke: c.skillLabel, area: c.skillArea },
+    }), [isLight]);
+
+    // Track the canvas width for the grid, and for converting pixels to time
+    useEffect(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(([entry]) => setCanvasWidth(entry.contentRect.width));
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    // And the height of the scrolled rows, for drawing only those in view
+    useEffect(() => {
+        const el = bodyRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(([entry]) => setBodyHeight(entry.contentRect.height));
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    /**
+     * Converts a client x coordinate to a time in the current view.
+     */
+    const timeAt = (clientX: number, current = view) => {
+        const rect = containerRef.current!.getBoundingClientRect();
+        const pct = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+        return current.start + pct * (current.end - current.start);
+    };
+
+    // Wheel zooms about the pointer; shift+wheel (or a sideways scroll) pans.
+    // Registered natively, as React's wheel listener is passive and can't stop the page scrolling.
+    useEffect(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const width = el.getBoundingClientRect().width;
+            setView(current => {
+                const span = current.end - current.start;
+                const { bounds, minSpan } = axisRef.current;
+                if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+                    const delta = e.shiftKey ? e.deltaY || e.deltaX : e.deltaX;
+                    return panWindow(current, (delta / width) * span, bounds, minSpan);
+                }
+                return zoomWindow(current, Math.exp(e.deltaY * 0.002), timeAt(e.clientX, current), bounds, minSpan);
+            });
+        };
+        el.addEventListener('wheel', handleWheel, { passive: false });
+        return () => el.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    // Dragging pans and a click places a cursor (shift+click the secondary one).
+    // The listeners live on the window so the drag survives leaving the canvas.
+    useEffect(() => {
+        const handleMove = (e: MouseEvent) => {
+            const drag = dragRef.current;
+            if (!drag || !containerRef.current) return;
+            const span = drag.view.end - drag.view.start;
+            const delta = ((drag.x - e.clientX) / containerRef.current.getBoundingClientRect().width) * span;
+            setView(panWindow(drag.view, delta, axisRef.current.bounds, axisRef.current.minSpan));
+        };
+        const handleUp = (e: MouseEvent) => {
+            const drag = dragRef.current;
+            dragRef.current = null;
+            if (!drag || !containerRef.current || Math.abs(e.clientX - drag.x) >= CLICK_SLOP) return;
+            const rect = containerRef.current.getBoundingClientRect();
+            const span = drag.view.end - drag.view.start;
+            const time = drag.view.start + Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * span;
+            const snapped = snapToEdge(time, axisRef.current.edges, (SNAP_DISTANCE / rect.width) * span);
+            (e.shiftKey ? setSecondaryTime : setCursorTime)(snapped);
+        };
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', handleUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', handleUp);
+        };
+    }, []);
+
     const handleMouseMove = (e: React.MouseEvent) => {
-        if (!containerRef.current) return;
-        const rect = containerRef.current.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const width = rect.width;
-        const pct = Math.max(0, Math.min(1, x / width));
-        setCursorTime(startYear + pct * duration);
+        if (!containerRef.current || dragRef.current) return;
+        setHoverTime(timeAt(e.clientX));
+        setHoverRow(Math.floor((e.clientY - containerRef.current.getBoundingClientRect().top) / ROW_HEIGHT) - 1);
+    };
+
+    // The canvas has no elements to put titles on, so the bus or analog value under the pointer goes on the canvas
+    const hoverRowData = hoverRow !== null ? flatRows[hoverRow]?.row : undefined;
+    const hoverSignal = hoverRowData?.kind === 'signal' ? signalMap.get(hoverRowData.signalId) : undefined;
+    const hoverValue = (hoverSignal?.type === 'bus' || hoverSignal?.type === 'analog') && hoverTime !== null ? hoverSignal.value(hoverTime)?.text : undefined;
+
+    const freeMarkerName = MARKER_NAMES.find(name => !namedMarkers.some(m => m.name === name));
+    const dropMarker = () => {
+        if (!freeMarkerName) return;
+        setNamedMarkers(prev => [...prev, { name: freeMarkerName, time: cursorTime }].sort((a, b) => a.name.localeCompare(b.name)));
+    };
+
+    /**
+     * Switches to a dump (or back to the trace with null), fitting it in view
+     * and clearing the cursors and markers, which belong to the old time axis.
+     */
+    const show = (next: LoadedDump | null) => {
+        const nextAxis = next?.axis ?? TRACE_AXIS;
+        setLoaded(next);
+        setRows(next ? signalRows(next.signals) : TRACE_WAVE_ROWS);
+        setView(nextAxis.bounds);
+        setCursorTime(next ? nextAxis.bounds.start : nextAxis.bounds.end);
+        setSecondaryTime(null);
+        setNamedMarkers([]);
+        setSelectedId(null);
+        setFormats({});
+        setScopeId('');
+        playback.reset();
+        setDisplayLines([]);
+    };
+
+    /** The session as it stands, for saving or sharing. */
+    const currentSession = (): WaveSession => ({
+        dumpFile: loaded?.fileName,
+        view,
+        cursor: cursorTime,
+        secondary: secondaryTime,
+        markers: namedMarkers,
+        rows,
+        formats,
+    });
+
+    // The trace's view as it first appears, which needs no link, and the hash
+    // the page had before the viewer, put back whenever the view has no link
+    const [defaultHash] = useState(() => sessionHash(currentSession(), TRACE_WAVE_SIGNALS));
+    const [pageHash] = useState(() => hasSessionHash(window.location.hash) ? '' : window.location.hash);
+
+    /**
+     * Puts the view back as a session left it. Times are kept inside the
+     * current axis, and markers without a known name are dropped.
+     */
+    const restore = (session: WaveSession) => {
+        const { bounds, minSpan } = axis;
+        const clamp = (time: number) => Math.min(bounds.end, Math.max(bounds.start, time));
+        setRows(session.rows);
+        setFormats(session.formats);
+        setView(clampWindow(session.view, bounds, minSpan));
+        setCursorTime(clamp(session.cursor));
+        setSecondaryTime(session.secondary === null ? null : clamp(session.secondary));
+        setNamedMarkers(session.markers
+            .filter(marker => MARKER_NAMES.includes(marker.name))
+            .map(marker => ({ name: marker.name, time: clamp(marker.time) }))
+            .sort((a, b) => a.name.localeCompare(b.name)));
+        setSelectedId(null);
+    };
+
+    /**
+     * Restores a save file over the trace or dump it was saved from.
+     */
+    const openSession = async (file: File) => {
+        setError(null);
+        try {
+            const { session, missing } = readSession(await file.text(), baseSignals);
+            if (session.dumpFile !== loaded?.fileName) {
+                throw new SessionError(session.dumpFile ? `saved over ${session.dumpFile}; open it first` : 'saved over the career trace; close the dump first');
+            }
+            restore(session);
+            if (missing.length) setError(`${file.name}: no signals named ${missing.join(', ')}`);
+        } catch (err) {
+            setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    // A shared link opens the trace at the view it was taken from
+    useEffect(() => {
+        try {
+            const shared = readSessionHash(window.location.hash, TRACE_WAVE_SIGNALS);
+            if (shared) restore(shared);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    }, []);
+
+    // Once the trace's view is changed, it is kept in the URL hash, so the
+    // address is a link to it. Updates wait for a pause, as browsers limit
+    // how often the URL may change
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            const hash = loaded ? '' : sessionHash(currentSession(), TRACE_WAVE_SIGNALS);
+            replaceHash(hash && hash !== defaultHash ? hash : pageHash);
+        }, HASH_UPDATE_DELAY);
+        return () => clearTimeout(timer);
+    }, [loaded, view, cursorTime, secondaryTime, namedMarkers, rows, formats]);
+
+    // Closing the viewer (back to the log view) takes its link with it
+    useEffect(() => () => {
+        if (hasSessionHash(window.location.hash)) replaceHash(pageHash);
+    }, []);
+
+    const openFile = async (file: File) => {
+        if (file.name.toLowerCase().endsWith(SESSION_EXTENSION)) {
+            openSession(file);
+            return;
+        }
+        loadAbortRef.current?.abort();
+        const controller = new AbortController();
+        loadAbortRef.current = controller;
+        setLoading(file.name);
+        setError(null);
+        try {
+            const dump = await loadVcd(file, controller.signal);
+            if (!dump.signals.length) throw new VcdError('no $var declarations');
+            show({ fileName: file.name, dump, signals: signalsFromVcd(dump), axis: vcdAxis(dump) });
+        } catch (err) {
+            if (isAbortError(err)) return;
+            setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            if (loadAbortRef.current === controller) {
+                loadAbortRef.current = null;
+                setLoading(null);
+            }
+        }
+    };
+
+    /**
+     * Renders the visible time window as an SVG: every row, not just those
+     * scrolled into view, with names, cursors and markers in the theme's colours.
+     */
+    const buildSvg = () => {
+        const marks: WaveMark[] = [
+            ...namedMarkers.map(marker => ({ time: marker.time, color: c.markerPaint, label: marker.name, dashed: true })),
+            ...(secondaryTime !== null ? [{ time: secondaryTime, color: c.secondaryPaint }] : []),
+            { time: cursorTime, color: '#eab308', label: `t = ${axis.formatTime(cursorTime)}` },
+        ];
+        return buildWaveSvg({
+            rows: flatRows,
+            signals: signalMap,
+            palettes,
+            view,
+            endTime: axis.bounds.end,
+            width: canvasWidth,
+            ticks: axis.ticks(view, canvasWidth),
+            marks,
+            paint: createPainter(containerRef.current!),
+        });
+    };
+
+    // Exports are named after the dump, or the trace
+    const exportName = (loaded?.fileName ?? TRACE_VCD_FILENAME).replace(/\.vcd$/i, '');
+
+    const exportImage = async (scale?: number) => {
+        setShowExport(false);
+        const svg = buildSvg();
+        if (!scale) {
+            downloadText(svg, `${exportName}.svg`, 'image/svg+xml');
+            return;
+        }
+        try {
+            downloadBlob(await svgToPng(svg, scale), `${exportName}${scale > 1 ? `@${scale}x` : ''}.png`);
+        } catch (err) {
+            setError(`PNG export: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    // Stop parsing if the viewer goes away
+    useEffect(() => () => loadAbortRef.current?.abort(), []);
+
+    // Only files are dropped here; rows dragged within the signal pane are handled there
+    const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+    const handleDrop = (e: React.DragEvent) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        setIsDragOver(false);
+        const file = e.dataTransfer.files[0];
+        if (file) openFile(file);
+    };
+
+    const handleMouseDown = (e: React.MouseEvent) => {
+        if (e.button !== 0) return;
+        dragRef.current = { x: e.clientX, view };
+    };
+
+    /**
+     * Zooms by a factor about the cursor, or about the middle when the cursor is out of view.
+     */
+    const zoomBy = (factor: number) => setView(current => {
+        const anchor = cursorTime >= current.start && cursorTime <= current.end ? cursorTime : (current.start + current.end) / 2;
+        return zoomWindow(current, factor, anchor, axis.bounds, axis.minSpan);
+    });
+    const zoomFit = () => setView(axis.bounds);
+
+    /**
+     * Moves the cursor to a time, panning (at the same zoom) if it is out of view.
+     */
+    const seek = (time: number) => {
+        setCursorTime(time);
+        setView(current => {
+            if (time >= current.start && time <= current.end) return current;
+            const half = (current.end - current.start) / 2;
+            return clampWindow({ start: time - half, end: time + half }, axis.bounds, axis.minSpan);
+        });
+    };
+
+    /**
+     * Moves the cursor for playback. A sweep prints the transitions it crossed
+     * on the shown signals to the $display log, while the log is open.
+     */
+    const playTo = (time: number, from?: number) => {
+        if (showLog && from !== undefined && time > from) {
+            const lines = crossedChanges(shownSignals, from, time, axis.bounds.end).map(({ time, signal, value }): DisplayLine => ({
+                id: nextLineId.current++,
+                time,
+                name: signal.name,
+                value: value?.text ?? 'z',
+            }));
+            if (lines.length) setDisplayLines(prev => [...prev, ...lines].slice(-DISPLAY_LOG_LIMIT));
+        }
+        seek(time);
+    };
+    const playback = usePlayback({ bounds: axis.bounds, edges: axis.edges, cursorTime, onMove: playTo });
+
+    const stepEdge = (direction: 1 | -1) => {
+        if (!selectedSignal) return;
+        const edge = findEdge(selectedSignal, cursorTime, direction, axis.bounds);
+        if (edge !== null) seek(edge);
+    };
+
+    /**
+     * Steps to the next (or previous) match. Matches at the cursor's time on
+     * other buses are visited in turn before moving on.
+     */
+    const stepFind = (direction: 1 | -1) => {
+        const { matches } = search;
+        if (!matches.length) return;
+        const index = currentMatch?.start === cursorTime
+            ? (matchIndex + direction + matches.length) % matches.length
+            : stepMatch(matches, cursorTime, direction);
+        const match = matches[index];
+        setMatchIndex(index);
+        setSelectedId(signalRowIds.find(r => r.signalId === match.signalId)?.id ?? null);
+        seek(match.start);
+    };
+
+    const selectRow = (direction: 1 | -1) => {
+        if (!signalRowIds.length) return;
+        const index = signalRowIds.findIndex(r => r.id === selectedId);
+        const next = index < 0 ? (direction > 0 ? 0 : signalRowIds.length - 1) : Math.max(0, Math.min(signalRowIds.length - 1, index + direction));
+        setSelectedId(signalRowIds[next].id);
+    };
+
+    // Scroll the selected row into view; rows out of view aren't rendered, so this goes by position
+    useEffect(() => {
+        const body = bodyRef.current;
+        const index = flatRows.findIndex(({ row }) => row.id === selectedId);
+        if (!body || index < 0) return;
+        const top = (index + 1) * ROW_HEIGHT;
+        if (top < body.scrollTop + ROW_HEIGHT) body.scrollTop = top - ROW_HEIGHT;
+        else if (top + ROW_HEIGHT > body.scrollTop + body.clientHeight) body.scrollTop = top + ROW_HEIGHT - body.clientHeight;
+    }, [selectedId]);
+
+    // GTKWave-style shortcuts, while the viewer has focus
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (['INPUT', 'TEXTAREA', 'SELECT'].includes((e.target as HTMLElement).tagName)) return;
+        const span = view.end - view.start;
+        const { bounds, minSpan } = axis;
+        if (e.altKey && e.code === 'KeyF') zoomFit();
+        else if (e.altKey && e.code === 'KeyN') dropMarker();
+        else if (e.key === 'Escape' && secondaryTime !== null) setSecondaryTime(null);
+        else if (e.key === '+' || e.key === '=') zoomBy(1 / ZOOM_STEP);
+        else if (e.key === '-' || e.key === '_') zoomBy(ZOOM_STEP);
+        else if (e.key === 'ArrowLeft') setView(panWindow(view, -span / 10, bounds, minSpan));
+        else if (e.key === 'ArrowRight') setView(panWindow(view, span / 10, bounds, minSpan));
+        else if (e.key === 'Home') setView(clampWindow({ start: bounds.start, end: bounds.start + span }, bounds, minSpan));
+        else if (e.key === 'End') setView(clampWindow({ start: bounds.end - span, end: bounds.end }, bounds, minSpan));
+        else if (e.key === 'ArrowUp') selectRow(-1);
+        else if (e.key === 'ArrowDown') selectRow(1);
+        else if (e.key === ']') stepEdge(1);
+        else if (e.key === '[') stepEdge(-1);
+        else if (e.key === '/') findInputRef.current?.focus();
+        else if (e.key === 'n') stepFind(1);
+        else if (e.key === 'N') stepFind(-1);
+        // Buttons take Space themselves
+        else if (e.key === ' ' && (e.target as HTMLElement).tagName !== 'BUTTON') playback.toggle();
+        else return;
+        e.preventDefault();
+        e.stopPropagation();
     };
 
     const getX = (year: number) => {
-        return `${((year - startYear) / duration) * 100}%`;
+        return `${((year - view.start) / duration) * 100}%`;
     };
 
+    const sampleX = (cycle: number) => getX(TRACE_SAMPLES.times[cycle]);
+
     return (
-        <div className="w-full bg-gray-900 border border-gray-800 rounded-lg overflow-hidden flex flex-col font-mono text-xs select-none shadow-2xl">
+        <div
+            ref={rootRef}
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            onDragOver={e => { if (isFileDrag(e)) { e.preventDefault(); setIsDragOver(true); } }}
+            onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragOver(false); }}
+            onDrop={handleDrop}
+            className={`w-full bg-gray-900 border rounded-lg overflow-hidden flex flex-col font-mono text-xs select-none shadow-2xl outline-none focus-visible:border-electric/50 ${isDragOver ? 'border-electric' : 'border-gray-800'}`}
+        >
             {/* Toolbar */}
-            <div className="bg-gray-800 p-2 flex justify-between items-center border-b border-gray-700">
+            <div className="bg-gray-800 p-2 flex flex-wrap justify-between items-center gap-2 border-b border-gray-700">
                 <div className="flex gap-4">
                     <span className="text-electric font-bold">GTKWave v3.3.104</span>
-                    <span className="text-gray-400">Cursor: {formatDecimalYear(cursorTime)}</span>
+                    {loaded && (
+                        <span className="flex items-center gap-1 text-gray-300">
+                            {loaded.fileName}
+                            <button type="button" title="Close the dump and show the career trace" onClick={() => show(null)} className="text-gray-500 hover:text-red-500 transition-colors">
+                                <X size={12} />
+                            </button>
+                        </span>
+                    )}
+                    <span className="text-gray-400">Cursor: {axis.formatTime(cursorTime)}</span>
+                    {secondaryTime !== null && (
+                        <>
+                            <span className="text-gray-400" title="Shift+click to move, Escape to clear">Secondary: {axis.formatTime(secondaryTime)}</span>
+                            <span className="text-green-400">Δ {axis.formatDelta(secondaryTime - cursorTime)}</span>
+                        </>
+                    )}
+                    {loading && <span className="text-yellow-500 animate-pulse">Parsing {loading}…</span>}
+                    {error && (
+                        <span className="flex items-center gap-1 text-red-500" title={error}>
+                            <span className="truncate max-w-xs">{error}</span>
+                            <button type="button" title="Dismiss" onClick={() => setError(null)} className="hover:text-red-300">
+                                <X size={12} />
+                            </button>
+                        </span>
+                    )}
                 </div>
                 <div className="flex gap-2">
-                    <div className="px-2 py-0.5 bg-black rounded text-green-400 border border-green-900">ZOOM: 100%</div>
+                    <PlaybackControls
+                        playing={playback.playing}
+                        onToggle={playback.toggle}
+                        onStep={playback.step}
+                        speed={playback.speed}
+                        onSpeedChange={playback.setSpeed}
+                        loop={playback.loop}
+                        onLoopChange={playback.setLoop}
+                        startMarked={playback.marks.start !== null}
+                        endMarked={playback.marks.end !== null}
+                        onMarkStart={() => playback.markStart(playback.marks.start === null ? cursorTime : null)}
+                        onMarkEnd={() => playback.markEnd(playback.marks.end === null ? cursorTime : null)}
+                        showLog={showLog}
+                        onShowLogChange={setShowLog}
+                    />
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={`.vcd,${SESSION_EXTENSION}`}
+                        className="hidden"
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) openFile(file);
+                        }}
+                    />
+                    <button
+                        type="button"
+                        title={showScopes ? 'Hide the scope tree' : 'Show the scope tree, to find signals and append them'}
+                        onClick={() => setShowScopes(!showScopes)}
+                        className={`flex items-center gap-1 px-2 py-0.5 bg-black rounded border hover:text-electric hover:border-electric transition-colors ${showScopes ? 'text-electric border-electric' : 'text-gray-400 border-gray-700'}`}
+                    >
+                        <ListTree size={12} /> SST
+                    </button>
+                    <button
+                        type="button"
+                        title={`Open a VCD file or a ${SESSION_EXTENSION} session (or drop one on the viewer)`}
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-1 px-2 py-0.5 bg-black rounded text-gray-400 border border-gray-700 hover:text-electric hover:border-electric transition-colors"
+                    >
+                        <FolderOpen size={12} /> Open
+                    </button>
+                    <button
+                        type="button"
+                        title={`Save the signals, formats, view and markers as ${exportName}${SESSION_EXTENSION}`}
+                        onClick={() => downloadText(writeSession(currentSession(), signalMap), `${exportName}${SESSION_EXTENSION}`)}
+                        className="flex items-center gap-1 px-2 py-0.5 bg-black rounded text-gray-400 border border-gray-700 hover:text-electric hover:border-electric transition-colors"
+                    >
+                        <Save size={12} /> Session
+                    </button>
+                    {!loaded && (
+                        <button
+                            type="button"
+                            title={`Export as ${TRACE_VCD_FILENAME}`}
+                            onClick={() => downloadText(buildTraceVcd(), TRACE_VCD_FILENAME)}
+                            className="flex items-center gap-1 px-2 py-0.5 bg-black rounded text-gray-400 border border-gray-700 hover:text-electric hover:border-electric transition-colors"
+                        >
+                            <Download size={12} /> VCD
+                        </button>
+                    )}
+                    <div className="relative">
+                        <button
+                            type="button"
+                            title="Export the view as an image"
+                            onClick={() => setShowExport(!showExport)}
+                            className="flex items-center gap-1 px-2 py-0.5 bg-black rounded text-gray-400 border border-gray-700 hover:text-electric hover:border-electric transition-colors"
+                        >
+                            <ImageDown size={12} /> Image
+                        </button>
+                        {showExport && (
+                            <div className="absolute top-full right-0 mt-1 z-40 bg-black border border-gray-700 rounded shadow-xl py-1 min-w-[8rem]">
+                                <button
+                                    type="button"
+                                    onClick={() => exportImage()}
+                                    className="block w-full text-left px-2 py-0.5 text-gray-400 hover:bg-gray-900 hover:text-electric"
+                                >
+                                    SVG
+                                </button>
+                                {PNG_SCALES.map(scale => (
+                                    <button
+                                        key={scale}
+                                        type="button"
+                                        onClick={() => exportImage(scale)}
+                                        className="block w-full text-left px-2 py-0.5 text-gray-400 hover:bg-gray-900 hover:text-electric"
+                                    >
+                                        PNG {scale}×
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex items-center bg-black rounded border border-gray-700 text-gray-400">
+                        <button type="button" title="Zoom out (-)" onClick={() => zoomBy(ZOOM_STEP)} className="px-1.5 py-0.5 hover:text-electric transition-colors">
+                            <ZoomOut size={12} />
+                        </button>
+                        <button type="button" title="Zoom in (+)" onClick={() => zoomBy(1 / ZOOM_STEP)} className="px-1.5 py-0.5 hover:text-electric transition-colors">
+                            <ZoomIn size={12} />
+                        </button>
+                        <button type="button" title="Zoom fit (Alt+F)" onClick={zoomFit} className="px-1.5 py-0.5 hover:text-electric transition-colors">
+                            <Maximize size={12} />
+                        </button>
+                    </div>
+                    <div className="px-2 py-0.5 bg-black rounded text-green-400 border border-green-900">ZOOM: {zoomLevel}%</div>
                 </div>
             </div>
 
-            <div className="flex h-[500px]">
-                {/* Signals List (Sidebar) */}
-                <div className="w-56 md:w-80 bg-black border-r border-gray-800 flex flex-col shrink-0 overflow-hidden">
-                    <div className="h-10 border-b border-gray-800 flex items-center px-2 text-gray-500 bg-gray-900/50 shrink-0">Signals</div>
-                    <SignalRow name="sys_clk" color={c.clk} value="1" />
-                    <SignalRow name="rst_n" color={c.rst} value="1" />
-                    <SignalRow name="state[3:0]" color={c.state} value={activeData.stateCode} />
-                    <SignalRow name="company_bus" color={c.company} value={activeData.company.substring(0, 16) + (activeData.company.length > 16 ? "..." : "")} isBus />
-                    <SignalRow name="school_bus" color={c.school} value={activeData.school.substring(0, 16) + (activeData.school.length > 16 ? "..." : "")} isBus />
-                    <SignalRow name="degree" color={c.degree} value={activeData.degree.substring(0, 16) + (activeData.degree.length > 16 ? "..." : "")} isBus />
-                    <SignalRow name="role_bus" color={c.role} value={activeData.title.substring(0, 16) + (activeData.title.length > 16 ? "..." : "")} isBus />
-
-                    {/* Active Transaction Detail Panel */}
-                    <div className="p-4 bg-gray-900/20 h-48 flex flex-col justify-start shrink-0">
-                        <div className="text-gray-500 mb-1 text-[10px] uppercase tracking-wider">Transaction Detail</div>
-                        <div className={`${c.role} font-bold mb-0.5 truncate`}>{activeData.title}</div>
-                        <div className={`${c.company} mb-0.5 truncate`}>{activeData.company}</div>
-                        <div className={`${c.school} mb-0.5 truncate`}>{activeData.school}</div>
-                        <div className={`${c.degree} truncate`}>{activeData.degree}</div>
-                    </div>
-                </div>
+            <NavigationBar
+                selectedName={selectedSignal?.name}
+                onEdge={stepEdge}
+                query={query}
+                onQueryChange={setQuery}
+                regex={regex}
+                onRegexChange={setRegex}
+                error={search.error}
+                buses={buses}
+                scopeId={scopeId}
+                onScopeChange={setScopeId}
+                matchNumber={currentMatch && cursorTime >= currentMatch.start && cursorTime < currentMatch.end ? matchIndex + 1 : 0}
+                matchCount={search.matches.length}
+                onFind={stepFind}
+                onDone={() => rootRef.current?.focus()}
+                inputRef={findInputRef}
+            />
 
-                {/* Waveform Canvas */}
+            {/* The scope tree sits beside the rows and scrolls on its own */}
+            <div className="flex">
+                {showScopes && (
+                    <ScopeTree
+                        key={loaded?.fileName ?? ''}
+                        signals={baseSignals}
+                        shownIds={new Set(shownSignals.map(signal => signal.id))}
+                        onAppend={ids => setRows(prev => appendSignals(prev, ids))}
+                    />
+                )}
+
+                {/* Scrolls when rows are added or a dump has more signals than fit */}
                 <div
-                    ref={containerRef}
-                    className="flex-1 bg-obsidian relative overflow-hidden cursor-crosshair group"
-                    onMouseMove={handleMouseMove}
+                    ref={bodyRef}
+                    onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+                    className="flex flex-1 min-w-0 h-[500px] overflow-y-auto items-start"
                 >
-                    {/* Grid Lines - positioned at exact year boundaries */}
-                    <div className="absolute inset-0">
-                        {Array.from({ length: duration }).map((_, i) => {
-                            const year = startYear + i + 1;
-                            return (
-                                <div
-                                    key={i}
-                                    className="absolute top-0 bottom-0 border-r border-white/5"
-                                    style={{ left: getX(year) }}
-                                >
-                                    <span className={`absolute bottom-1 left-1 text-[10px] opacity-70 ${c.gridText}`}>
-                                        {year}
-                                    </span>
-                                </div>
-                            );
-                        })}
+                    {/* Signals List (Sidebar) */}
+                    <div className="w-56 md:w-80 bg-black border-r border-gray-800 flex flex-col shrink-0 min-h-full">
+                        <SignalPane
+                            rows={rows}
+                            flat={flatRows}
+                            signals={signalMap}
+                            palettes={palettes}
+                            cursorTime={cursorTime}
+                            onChange={setRows}
+                            selectedId={selectedId}
+                            onSelect={setSelectedId}
+                            onRadixChange={(id, radix, labels) => setFormats(prev => ({ ...prev, [id]: { ...prev[id], radix, labels: labels ?? prev[id]?.labels } }))}
+                            onInterpolationChange={(id, interpolation) => setFormats(prev => ({ ...prev, [id]: { ...prev[id], interpolation } }))}
+                            range={paneRange}
+                        />
+
+                        {/* Active Transaction Detail Panel */}
+                        {!loaded && (
+                            <div className="p-4 bg-gray-900/20 flex flex-col justify-start shrink-0">
+                                <div className="text-gray-500 mb-1 text-[10px] uppercase tracking-wider">Transaction Detail</div>
+                                <div className={`${c.role} font-bold mb-0.5 truncate`}>{activeData.title}</div>
+                                <div className={`${c.company} mb-0.5 truncate`}>{activeData.company}</div>
+                                <div className={`${c.school} mb-0.5 truncate`}>{activeData.school}</div>
+                                <div className={`${c.degree} truncate`}>{activeData.degree}</div>
+                            </div>
+                        )}
                     </div>
 
-                    {/* Cursor Line */}
+                    {/* Waveform Canvas */}
                     <div
-                        className="absolute top-0 bottom-0 w-px bg-yellow-500 z-20 pointer-events-none group-hover:opacity-100 opacity-50"
-                        style={{ left: getX(cursorTime) }}
+                        ref={containerRef}
+                        className="flex-1 bg-obsidian relative overflow-hidden cursor-crosshair active:cursor-grabbing min-h-full"
+                        style={{ height: (flatRows.length + 1) * ROW_HEIGHT }}
+                        title={hoverValue}
+                        onMouseMove={handleMouseMove}
+                        onMouseLeave={() => { setHoverTime(null); setHoverRow(null); }}
+                        onMouseDown={handleMouseDown}
                     >
-                        <div className="absolute -top-4 -left-10 bg-yellow-500 text-black px-1 rounded text-[10px] whitespace-nowrap">
-                            t = {formatDecimalYear(cursorTime)}
-                        </div>
-                    </div>
-
-                    {/* Signals Rendering - Matches Sidebar Height h-10 */}
-                    <div className="flex flex-col gap-0">
-                        {/* Spacer to align with Sidebar "Signals" header */}
-                        <div className="h-10 border-b border-white/5 w-full bg-gray-900/20" />
-
-                        {/* CLK */}
-                        <div className="h-10 relative border-b border-white/5 w-full">
-                            <svg className="w-full h-full" preserveAspectRatio="none" viewBox="0 0 100 24">
-                                <path d={clockPath} fill="none" stroke={c.clkStroke} strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
-                            </svg>
-                        </div>
-                        {/* RST */}
-                        <div className="h-10 relative border-b border-white/5 w-full flex items-center">
-                            <div className="w-full h-px bg-red-500" />
-                        </div>
-                        {/* STATE */}
-                        <div className="h-10 relative border-b border-white/5 w-full">
-                            {TRACE_DATA.map((d, i) => (
+                        {/* Grid Lines - for the trace, years, quarters or months, whichever fit */}
+                        <div className="absolute inset-0">
+                            {axis.ticks(view, canvasWidth).map(tick => (
                                 <div
-                                    key={i}
-                                    className={`absolute h-6 top-2 border flex items-center justify-center overflow-hidden ${c.stateBorder} ${c.stateBg}`}
-                                    style={{
-                                        left: getX(d.start),
-                                        width: `${((d.end - d.start) / duration) * 100}%`
-                                    }}
+                                    key={tick.time}
+                                    className="absolute top-0 bottom-0 border-l border-white/5"
+                                    style={{ left: getX(tick.time) }}
                                 >
-                                    <span className={`${c.stateText} text-[10px]`}>{d.stateCode}</span>
+                                    <span className={`absolute bottom-1 left-1 text-[10px] opacity-70 whitespace-nowrap ${c.gridText}`}>
+                                        {tick.label}
+                                    </span>
                                 </div>
                             ))}
                         </div>
-                        {/* COMPANY BUS */}
-                        <div className="h-10 relative border-b border-white/5 w-full">
-                            {TRACE_DATA.map((d, i) => d.company ? (
-                                <div
-                                    key={i}
-                                    className={`absolute h-6 top-2 border flex items-center justify-center overflow-hidden px-1 ${c.companyBorder} ${c.companyBg}`}
-                                    style={{
-                                        left: getX(d.start),
-                                        width: `${((d.end - d.start) / duration) * 100}%`
-                                    }}
-                                >
-                                    <div className={`absolute inset-0 skew-x-12 ${c.companySkew}`} />
-                                    <span className={`${c.companyText} z-10 truncate`}>{d.company}</span>
-                                </div>
-                            ) : null)}
-                        </div>
-                        {/* SCHOOL BUS */}
-                        <div className="h-10 relative border-b border-white/5 w-full">
-                            {TRACE_DATA.map((d, i) => d.school ? (
-                                <div
-                                    key={i}
-                                    className={`absolute h-6 top-2 border flex items-center justify-center overflow-hidden px-1 ${c.schoolBorder} ${c.schoolBg}`}
-                                    style={{
-                                        left: getX(d.start),
-                                        width: `${((d.end - d.start) / duration) * 100}%`
-                                    }}
-                                >
-                                    <div className={`absolute inset-0 skew-x-12 ${c.schoolSkew}`} />
-                                    <span className={`${c.schoolText} z-10 truncate`}>{d.school}</span>
-                                </div>
-                            ) : null)}
+
+                        <WaveCanvas
+                            rows={flatRows}
+                            signals={signalMap}
+                            palettes={palettes}
+                            view={view}
+                            endTime={axis.bounds.end}
+                            width={canvasWidth}
+                            scrollTop={scrollTop}
+                            height={bodyHeight}
+                            selectedId={selectedId}
+                            highlight={currentMatch}
+                            theme={theme}
+                        />
+
+                        {/* Assertion failure lines */}
+                        {!loaded && shownAssertions.flatMap(({ id, report }) => report.failures.map(failure => (
+                            <div
+                                key={`${id}-fail-${failure.start}`}
+                                className="absolute top-0 bottom-0 w-px bg-red-500/40 z-10 pointer-events-none"
+                                style={{ left: sampleX(failure.end) }}
+                            />
+                        )))}
+
+                        {/* Hover Line - where a click would put the cursor */}
+                        {hoverTime !== null && (
+                            <div className="absolute top-0 bottom-0 w-px bg-white/10 z-10 pointer-events-none" style={{ left: getX(hoverTime) }} />
+                        )}
+
+                        {/* Named Markers */}
+                        {namedMarkers.map(marker => (
+                            <div
+                                key={marker.name}
+                                className={`absolute top-0 bottom-0 border-l border-dashed z-20 pointer-events-none ${c.markerLine}`}
+                                style={{ left: getX(marker.time) }}
+                            >
+                                <div className={`absolute top-0 left-0 px-1 rounded-br text-black text-[10px] font-bold ${c.markerFlag}`}>{marker.name}</div>
+                            </div>
+                        ))}
+
+                        {/* Playback start and end marks */}
+                        {playback.marks.start !== null && (
+                            <div className="absolute top-0 bottom-0 border-l-2 border-green-500/60 z-20 pointer-events-none" style={{ left: getX(playback.marks.start) }} />
+                        )}
+                        {playback.marks.end !== null && (
+                            <div className="absolute top-0 bottom-0 border-l-2 border-red-500/60 z-20 pointer-events-none" style={{ left: getX(playback.marks.end) }} />
+                        )}
+
+                        {/* Secondary Cursor */}
+                        {secondaryTime !== null && (
+                            <div className={`absolute top-0 bottom-0 w-px z-20 pointer-events-none ${c.secondary}`} style={{ left: getX(secondaryTime) }} />
+                        )}
+
+                        {/* Cursor Line */}
+                        <div
+                            className="absolute top-0 bottom-0 w-px bg-yellow-500 z-20 pointer-events-none"
+                            style={{ left: getX(cursorTime) }}
+                        >
+                            <div className="absolute -top-4 -left-10 bg-yellow-500 text-black px-1 rounded text-[10px] whitespace-nowrap">
+                                t = {axis.formatTime(cursorTime)}
+                            </div>
                         </div>
-                        {/* DEGREE BUS */}
-                        <div className="h-10 relative border-b border-white/5 w-full">
-                            {TRACE_DATA.map((d, i) => d.degree ? (
+
+                        {/* Spacer to align with Sidebar "Signals" header; assertion markers sit here. The rows below it are on the canvas */}
+                        <div className="h-10 relative border-b border-white/5 w-full bg-gray-900/20">
+                            {!loaded && shownAssertions.flatMap(({ id, assertion, report }) => report.passes.map(pass => (
                                 <div
-                                    key={i}
-                                    className={`absolute h-6 top-2 border flex items-center justify-center overflow-hidden px-1 ${c.degreeBorder} ${c.degreeBg}`}
-                                    style={{
-                                        left: getX(d.start),
-                                        width: `${((d.end - d.start) / duration) * 100}%`
-                                    }}
-                                >
-                                    <div className={`absolute inset-0 skew-x-12 ${c.degreeSkew}`} />
-                                    <span className={`${c.degreeText} z-10 truncate`}>{d.degree}</span>
-                                </div>
-                            ) : null)}
-                        </div>
-                        {/* ROLE BUS */}
-                        <div className="h-10 relative border-b border-white/5 w-full">
-                            {/* Render Work/Intern items last to be on top */}
-                            {SORTED_TRACE_DATA.map((d, i) => (
+                                    key={`${id}-pass-${pass.start}`}
+                                    title={`${assertion.label ?? 'assertion'} passed at ${formatDecimalYear(TRACE_SAMPLES.times[pass.end])}`}
+                                    className={`absolute bottom-1 w-px h-2 ${isLight ? 'bg-green-700' : 'bg-green-400'}`}
+                                    style={{ left: sampleX(pass.end) }}
+                                />
+                            )))}
+                            {!loaded && shownAssertions.flatMap(({ id, assertion, report }) => report.failures.map(failure => (
                                 <div
-                                    key={i}
-                                    className={`absolute h-6 top-2 border bg-opacity-10 flex items-center justify-center overflow-hidden px-1 ${d.type === 'EDU' ? `${c.eduBorder} ${c.eduBg} z-0` : `${c.roleBorder} ${c.roleBg} z-10`}`}
-                                    style={{
-                                        left: getX(d.start),
-                                        width: `${((d.end - d.start) / duration) * 100}%`
-                                    }}
-                                >
-                                    <span className={`${d.type === 'EDU' ? c.eduRole : c.roleText} z-10 truncate`}>{d.title}</span>
-                                </div>
-                            ))}
+                                    key={`${id}-fail-${failure.start}`}
+                                    title={`${assertion.label ?? 'assertion'} failed at ${formatDecimalYear(TRACE_SAMPLES.times[failure.end])}: offending '${failure.offending}'`}
+                                    className="absolute top-1 -ml-1.5 w-3 h-3 rotate-45 bg-red-500 z-30"
+                                    style={{ left: sampleX(failure.end) }}
+                                />
+                            )))}
                         </div>
                     </div>
                 </div>
             </div>
+
+            {showLog && (
+                <DisplayLog
+                    lines={displayLines}
+                    onSeek={seek}
+                    onClear={() => setDisplayLines([])}
+                    axis={axis}
+                />
+            )}
+
+            <MarkerPanel
+                markers={namedMarkers}
+                cursorTime={cursorTime}
+                onDrop={freeMarkerName ? dropMarker : undefined}
+                onRemove={name => setNamedMarkers(prev => prev.filter(m => m.name !== name))}
+                onSeek={setCursorTime}
+                color={c.marker}
+                axis={axis}
+            />
+
+            {/* Assertions are over the trace's signals, so they only apply to it */}
+            {!loaded && <AssertionPanel
+                assertions={checkedAssertions}
+                onAdd={source => setAssertions(prev => [...prev, { id: nextAssertionId.current++, source, visible: true }])}
+                onToggle={id => setAssertions(prev => prev.map(a => a.id === id ? { ...a, visible: !a.visible } : a))}
+                onRemove={id => setAssertions(prev => prev.filter(a => a.id !== id))}
+                onSeek={setCursorTime}
+                isLight={isLight}
+            />}
         </div >
     );
 };
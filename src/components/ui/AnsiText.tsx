@@ -0,0 +1,44 @@
+/**
+ * @file AnsiText.tsx
+ * @description Renders text containing ANSI SGR escape codes as styled spans.
+ * The 16 base colours resolve to the `--ansi-*` theme tokens.
+ * @module Components/UI
+ * @author Mishat
+ */
+import React, { useMemo } from 'react';
+import { AnsiStyle, parseAnsi } from '../../lib/ansi';
+
+/**
+ * Converts a parsed ANSI style to inline CSS.
+ */
+const toCss = (style: AnsiStyle): React.CSSProperties => {
+    const fg = style.inverse ? style.bg ?? 'var(--color-obsidian)' : style.fg;
+    const bg = style.inverse ? style.fg ?? 'currentColor' : style.bg;
+    return {
+        color: fg,
+        backgroundColor: bg,
+        fontWeight: style.bold ? 700 : undefined,
+        fontStyle: style.italic ? 'italic' : undefined,
+        textDecoration: style.underline ? 'underline' : undefined,
+        opacity: style.dim ? 0.6 : undefined,
+    };
+};
+
+/**
+ * Displays a string with ANSI colours and attributes applied.
+ * Unstyled runs inherit the surrounding text colour.
+ */
+const AnsiText = ({ text }: { text: string }) => {
+    const spans = useMemo(() => parseAnsi(text), [text]);
+    return (
+        <>
+            {spans.map((span, i) => Object.keys(span.style).length ? (
+                <span key={i} style={toCss(span.style)}>{span.text}</span>
+            ) : (
+                <React.Fragment key={i}>{span.text}</React.Fragment>
+            ))}
+        </>
+    );
+};
+
+export default AnsiText;
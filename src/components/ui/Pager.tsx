@@ -0,0 +1,203 @@
+/**
+ * @file Pager.tsx
+ * @description A `less`-style pager for long command output such as manual pages.
+ * Scrolls with vi keys and searches with `/`, `n` and `N`.
+ * @module Components/UI
+ * @author Mishat
+ */
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { stripAnsi } from '../../lib/ansi';
+import AnsiText from './AnsiText';
+
+interface PagerProps {
+    /** Shown in the status line, e.g. `Manual page man(1)` */
+    title: string;
+    /** Text to page through; may contain ANSI codes */
+    text: string;
+    /** Called when the user quits with q or Escape */
+    onClose: () => void;
+    /** Sizing classes for the pager box */
+    className?: string;
+    style?: React.CSSProperties;
+}
+
+/** Height of one line in pixels; scrolling moves in whole lines. */
+const LINE_HEIGHT = 20;
+
+/**
+ * Escapes a search pattern for use in a RegExp. Searches are literal, not regular expressions.
+ */
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Pager Component.
+ * Keys: j/k or arrows scroll a line, Space/f and b a page, d/u half a page,
+ * g/G jump to the start/end, / searches (case-insensitive), n/N repeat it, q quits.
+ */
+export default function Pager({ title, text, onClose, className = '', style }: PagerProps) {
+    const lines = useMemo(() => text.split('\n'), [text]);
+    const plainLines = useMemo(() => lines.map(stripAnsi), [lines]);
+    const [top, setTop] = useState(0);
+    const [rows, setRows] = useState(1);
+    // Text being typed after `/`; null when not typing a search
+    const [query, setQuery] = useState<string | null>(null);
+    const [pattern, setPattern] = useState('');
+    const [message, setMessage] = useState('');
+    const viewRef = useRef<HTMLDivElement>(null);
+    const rootRef = useRef<HTMLDivElement>(null);
+
+    const maxTop = Math.max(0, lines.length - rows);
+    const scrollTo = (line: number) => setTop(Math.min(maxTop, Math.max(0, line)));
+
+    const matcher = useMemo(() => pattern ? new RegExp(escapeRegExp(pattern), 'gi') : null, [pattern]);
+
+    /**
+     * Moves to the next (or previous) line matching the pattern, wrapping around.
+     * As in less, the search starts after (or before) the top line.
+     */
+    const findMatch = (search: string, backwards = false) => {
+        const needle = search.toLowerCase();
+        for (let step = 1; step <= lines.length; step++) {
+            const i = (top + (backwards ? -step : step) + lines.length) % lines.length;
+            if (plainLines[i].toLowerCase().includes(needle)) {
+                scrollTo(i);
+                const wrapped = backwards ? i > top : i < top;
+                setMessage(wrapped ? `search hit ${backwards ? 'TOP, continuing at BOTTOM' : 'BOTTOM, continuing at TOP'}` : '');
+                return;
+            }
+        }
+        setMessage('Pattern not found');
+    };
+
+    // Track how many lines fit as the box resizes
+    useEffect(() => {
+        const view = viewRef.current;
+        if (!view) return;
+        const measure = () => setRows(Math.max(1, Math.floor(view.clientHeight / LINE_HEIGHT)));
+        measure();
+        const observer = new ResizeObserver(measure);
+        observer.observe(view);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        if (viewRef.current) viewRef.current.scrollTop = top * LINE_HEIGHT;
+    }, [top]);
+
+    useEffect(() => {
+        rootRef.current?.focus({ preventScroll: true });
+    }, []);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        // Keys typed into the search box are handled there
+        if (query !== null) return;
+        // Keep Escape and friends from reaching the page's global shortcuts
+        e.stopPropagation();
+        const half = Math.max(1, Math.floor(rows / 2));
+        const actions: Record<string, () => void> = {
+            j: () => scrollTo(top + 1),
+            ArrowDown: () => scrollTo(top + 1),
+            Enter: () => scrollTo(top + 1),
+            k: () => scrollTo(top - 1),
+            ArrowUp: () => scrollTo(top - 1),
+            ' ': () => scrollTo(top + rows),
+            f: () => scrollTo(top + rows),
+            PageDown: () => scrollTo(top + rows),
+            b: () => scrollTo(top - rows),
+            PageUp: () => scrollTo(top - rows),
+            d: () => scrollTo(top + half),
+            u: () => scrollTo(top - half),
+            g: () => scrollTo(0),
+            Home: () => scrollTo(0),
+            G: () => scrollTo(maxTop),
+            End: () => scrollTo(maxTop),
+            '/': () => setQuery(''),
+            n: () => pattern ? findMatch(pattern) : setMessage('No previous regular expression'),
+            N: () => pattern ? findMatch(pattern, true) : setMessage('No previous regular expression'),
+            q: onClose,
+            Escape: onClose,
+        };
+        const key = e.ctrlKey && e.key === 'c' ? 'q' : e.key;
+        if (!Object.hasOwn(actions, key) || e.altKey || e.metaKey) return;
+        e.preventDefault();
+        setMessage('');
+        actions[key]();
+    };
+
+    const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            // An empty search repeats the last pattern
+            const next = query || pattern;
+            setQuery(null);
+            if (next) {
+                setPattern(next);
+                findMatch(next);
+            }
+            rootRef.current?.focus({ preventScroll: true });
+        } else if (e.key === 'Escape' || (e.key === 'Backspace' && !query)) {
+            e.preventDefault();
+            setQuery(null);
+            rootRef.current?.focus({ preventScroll: true });
+        }
+    };
+
+    /**
+     * Renders a line, highlighting pattern matches (which drops its own styling).
+     */
+    const renderLine = (line: string, i: number) => {
+        if (!matcher || !plainLines[i].match(matcher)) return <AnsiText text={line} />;
+        const plain = plainLines[i];
+        const parts: React.ReactNode[] = [];
+        let last = 0;
+        for (const match of plain.matchAll(matcher)) {
+            parts.push(plain.slice(last, match.index));
+            parts.push(<mark key={match.index} className="bg-electric text-obsidian">{match[0]}</mark>);
+            last = match.index + match[0].length;
+        }
+        parts.push(plain.slice(last));
+        return parts;
+    };
+
+    const atEnd = top >= maxTop;
+    const status = `${title} line ${top + 1}/${lines.length}${atEnd ? ' (END)' : ''} (press q to quit)`;
+
+    return (
+        <div
+            ref={rootRef}
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            style={style}
+            className={`flex flex-col outline-none font-mono text-sm ${className}`}
+        >
+            <div ref={viewRef} className="flex-1 min-h-0 overflow-hidden text-gray-200">
+                {lines.map((line, i) => (
+                    <div key={i} className="whitespace-pre" style={{ height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }}>
+                        {renderLine(line, i)}
+                    </div>
+                ))}
+            </div>
+            {query !== null ? (
+                <div className="flex items-center" style={{ height: LINE_HEIGHT }}>
+                    <span className="text-gray-100">/</span>
+                    <input
+                        autoFocus
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={handleSearchKeyDown}
+                        aria-label="Search pattern"
+                        className="flex-1 bg-transparent border-none outline-none text-gray-100"
+                        autoComplete="off"
+                        spellCheck={false}
+                    />
+                </div>
+            ) : (
+                <div className="truncate" style={{ height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }}>
+                    <span className="bg-gray-200 text-gray-900 px-1">{message || status}</span>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,112 +1,37 @@
 /**
  * @file VimCommandPalette.tsx
  * @description Vim-style command palette that appears at the bottom of the screen
- * when the user presses ':'. Supports theme switching, navigation, and other commands.
+ * when the user presses ':'. Commands come from the shared command registry;
+ * `:help <topic>` opens the topic's manual page in a pager above the command line.
  * 
  * @author Mishat
  */
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { executeCommand } from '../../commands/registry';
+import { ThemeName } from '../../commands/types';
+import { useTabCompletion } from '../../hooks/useTabCompletion';
+import AnsiText from './AnsiText';
+import Pager from './Pager';
 
 interface VimCommandPaletteProps {
     isOpen: boolean;
     onClose: () => void;
-    onThemeChange: (theme: 'default' | 'silicon' | 'light') => void;
+    onThemeChange: (theme: ThemeName) => void;
+    /** Reopens the Terminal window (`:terminal`) */
+    onOpenTerminal?: () => void;
 }
 
-/**
- * Command definitions with their handlers.
- */
-type CommandHandler = (args: string[], callbacks: {
-    onClose: () => void;
-    onThemeChange: (theme: 'default' | 'silicon' | 'light') => void;
-    setOutput: (msg: string) => void;
-}) => void;
-
-const COMMANDS: Record<string, CommandHandler> = {
-    'help': (_, { setOutput }) => {
-        setOutput('Commands: help, q, wq, theme [dark|light|silicon], colorscheme, top, $, contact, skills, resume');
-    },
-    'q': (_, { onClose }) => onClose(),
-    'quit': (_, { onClose }) => onClose(),
-    'wq': (_, { onClose }) => onClose(), // Easter egg - "write and quit"
-    'x': (_, { onClose }) => onClose(),
-
-    'theme': (args, { onThemeChange, setOutput }) => {
-        const theme = args[0]?.toLowerCase();
-        if (theme === 'silicon') {
-            onThemeChange('silicon');
-            setOutput('SWITCHING TO RTL VIEW...');
-        } else if (theme === 'light') {
-            onThemeChange('light');
-            setOutput('CLEAN ROOM MODE ACTIVATED');
-        } else if (theme === 'dark' || theme === 'default') {
-            onThemeChange('default');
-            setOutput('ABSTRACTION LAYER 0');
-        } else {
-            setOutput('Usage: theme [dark|light|silicon]');
-        }
-    },
-
-    'colorscheme': (args, callbacks) => COMMANDS['theme'](args, callbacks),
-    'colo': (args, callbacks) => COMMANDS['theme'](args, callbacks),
-
-    'top': (_, { onClose }) => {
-        window.scrollTo({ top: 0, behavior: 'smooth' });
-        onClose();
-    },
-    '0': (_, { onClose }) => {
-        window.scrollTo({ top: 0, behavior: 'smooth' });
-        onClose();
-    },
-    '$': (_, { onClose }) => {
-        window.scrollTo({ top: document.body.scrollHeight, behavior: 'smooth' });
-        onClose();
-    },
-    'bottom': (_, { onClose }) => {
-        window.scrollTo({ top: document.body.scrollHeight, behavior: 'smooth' });
-        onClose();
-    },
-
-    'contact': (_, { onClose }) => {
-        document.getElementById('terminal')?.scrollIntoView({ behavior: 'smooth' });
-        onClose();
-    },
-
-    'skills': (_, { onClose }) => {
-        document.getElementById('coverage')?.scrollIntoView({ behavior: 'smooth' });
-        onClose();
-    },
-
-    'resume': (_, { setOutput }) => {
-        const link = document.createElement('a');
-        link.href = '/Mishat_Hassan_Resume.pdf';
-        link.download = 'Mishat_Hassan_Resume.pdf';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        setOutput('Downloading resume...');
-    },
-
-    'verification': (_, { onClose }) => {
-        document.getElementById('verification')?.scrollIntoView({ behavior: 'smooth' });
-        onClose();
-    },
-
-    'trace': (_, { onClose }) => {
-        document.getElementById('trace')?.scrollIntoView({ behavior: 'smooth' });
-        onClose();
-    },
-};
-
 /**
  * VimCommandPalette Component.
  * Renders a vim-style command line at the bottom of the viewport.
  */
-export default function VimCommandPalette({ isOpen, onClose, onThemeChange }: VimCommandPaletteProps) {
+export default function VimCommandPalette({ isOpen, onClose, onThemeChange, onOpenTerminal }: VimCommandPaletteProps) {
     const [input, setInput] = useState('');
     const [output, setOutput] = useState<string | null>(null);
+    const [pager, setPager] = useState<{ title: string; text: string; close: () => void } | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    const complete = useTabCompletion({ surface: 'palette' });
 
     // Auto-focus when opened
     useEffect(() => {
@@ -114,19 +39,30 @@ export default function VimCommandPalette({ isOpen, onClose, onThemeChange }: Vi
             inputRef.current.focus();
             setInput('');
             setOutput(null);
+            setPager(null);
         }
     }, [isOpen]);
 
     // Handle Escape to close
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'Escape' && isOpen) {
+            // While paging, Escape only quits the pager
+            if (e.key === 'Escape' && isOpen && !pager) {
                 onClose();
             }
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [isOpen, onClose]);
+    }, [isOpen, onClose, pager]);
+
+    // Tab completes; a double Tab lists the candidates on the output line
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key !== 'Tab') return;
+        e.preventDefault();
+        const { line, listing } = complete(input);
+        if (listing) setOutput(listing.join('  '));
+        setInput(line);
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
@@ -137,16 +73,27 @@ export default function VimCommandPalette({ isOpen, onClose, onThemeChange }: Vi
             return;
         }
 
-        const parts = trimmed.split(/\s+/);
-        const cmd = parts[0].toLowerCase();
-        const args = parts.slice(1);
-
-        const handler = COMMANDS[cmd];
-        if (handler) {
-            handler(args, { onClose, onThemeChange, setOutput });
-        } else {
-            setOutput(`E492: Not a command: ${cmd}`);
-        }
+        // Output of a multi-command line accumulates; each submission starts afresh
+        const print = (text: string) => setOutput(prev => prev ? `${prev}\n${text}` : text);
+        setOutput(null);
+        void executeCommand(trimmed, {
+            surface: 'palette',
+            print,
+            error: print,
+            setTheme: onThemeChange,
+            clear: () => setOutput(null),
+            close: onClose,
+            openTerminal: onOpenTerminal,
+            page: (title, text) => new Promise<void>(resolve => setPager({
+                title,
+                text,
+                close: () => {
+                    setPager(null);
+                    resolve();
+                    inputRef.current?.focus();
+                },
+            })),
+        }).catch((err: unknown) => print(`E605: Exception not caught: ${err instanceof Error ? err.message : String(err)}`));
 
         setInput('');
     };
@@ -162,10 +109,20 @@ export default function VimCommandPalette({ isOpen, onClose, onThemeChange }: Vi
                     className="fixed bottom-0 left-0 right-0 z-[200] pointer-events-auto"
                 >
                     <div className="bg-gray-900/95 backdrop-blur-sm border-t border-gray-700">
+                        {/* Help pager */}
+                        {pager && (
+                            <Pager
+                                title={pager.title}
+                                text={pager.text}
+                                onClose={pager.close}
+                                className="h-[60vh] px-4 py-1 border-b border-gray-800"
+                            />
+                        )}
+
                         {/* Output line */}
                         {output && (
-                            <div className="px-4 py-1 font-mono text-sm text-electric border-b border-gray-800">
-                                {output}
+                            <div className="px-4 py-1 font-mono text-sm text-electric border-b border-gray-800 whitespace-pre-wrap">
+                                <AnsiText text={output} />
                             </div>
                         )}
 
@@ -177,6 +134,7 @@ export default function VimCommandPalette({ isOpen, onClose, onThemeChange }: Vi
                                 type="text"
                                 value={input}
                                 onChange={(e) => setInput(e.target.value)}
+                                onKeyDown={handleKeyDown}
                                 className="flex-1 bg-transparent border-none outline-none text-white font-mono text-sm py-2 pr-4"
                                 placeholder=""
                                 autoComplete="off"
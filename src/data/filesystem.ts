@@ -0,0 +1,132 @@
+/**
+ * @file filesystem.ts
+ * @description Builds the Terminal's virtual filesystem from the site's data.
+ * Every visitor starts with a fresh copy, so edits never leak between sessions.
+ * @author Mishat
+ */
+import { TRACE_DATA } from './traceData';
+import { SKILLS_DATA } from './skillsData';
+import { DEFAULT_TRACE_ASSERTIONS } from './traceSignals';
+import { formatDateRange } from '../lib/dates';
+import { HOME_DIR, VfsDir, dir, file } from '../lib/vfs';
+
+/** Public path of the resume PDF (served from /public). */
+export const RESUME_PATH = '/Mishat_Hassan_Resume.pdf';
+
+/** Files written below this directory are also downloaded by the browser. */
+export const DOWNLOADS_DIR = `${HOME_DIR}/Downloads`;
+
+/** Startup script the Terminal sources when it opens. */
+export const BASHRC_PATH = `${HOME_DIR}/.bashrc`;
+
+/** Contents of a fresh `~/.bashrc`. */
+const DEFAULT_BASHRC = [
+    '# ~/.bashrc: sourced when the Terminal opens.',
+    '# Edits are saved in this browser, e.g.:',
+    "#   echo 'theme silicon' >> ~/.bashrc",
+    '#   echo "alias ll=\'ls ~/experience\'" >> ~/.bashrc',
+    '',
+    'export EDITOR=vim',
+    "alias rt='run_test'",
+    "alias cls='clear'",
+].join('\n');
+
+/** Example modules for the Terminal's `sim` command, and properties for `assert`. */
+const RTL_FILES: Record<string, string> = {
+    'full_adder.v': [
+        '// 1-bit full adder',
+        'module full_adder (',
+        '    input  a,',
+        '    input  b,',
+        '    input  cin,',
+        '    output sum,',
+        '    output cout',
+        ');',
+        '    assign sum  = a ^ b ^ cin;',
+        '    assign cout = (a & b) | (cin & (a ^ b));',
+        'endmodule',
+    ].join('\n'),
+    'alu4.v': [
+        '// 4-bit ALU with flags',
+        'module alu4 (',
+        '    input  [1:0] op,     // 0: add, 1: sub, 2: and, 3: xor',
+        '    input  [3:0] a,',
+        '    input  [3:0] b,',
+        '    output [3:0] y,',
+        '    output       carry,',
+        '    output       zero,',
+        '    output       parity',
+        ');',
+        "    wire [4:0] sum  = {1'b0, a} + {1'b0, b};",
+        "    wire [4:0] diff = {1'b0, a} - {1'b0, b};",
+        '',
+        "    assign {carry, y} = op == 2'd0 ? sum",
+        "                      : op == 2'd1 ? diff",
+        "                      : op == 2'd2 ? {1'b0, a & b}",
+        "                      :              {1'b0, a ^ b};",
+        '    assign zero   = ~|y;',
+        '    assign parity = ^y;',
+        'endmodule',
+    ].join('\n'),
+    'career_trace.sva': [
+        '// Properties over the career trace (check them with: assert -f career_trace.sva)',
+        ...DEFAULT_TRACE_ASSERTIONS,
+    ].join('\n'),
+};
+
+/**
+ * Turns a display name into a filename-safe slug.
+ */
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Renders one trace entry as a plain-text log file.
+ */
+const experienceFile = (entry: typeof TRACE_DATA[number]) => file([
+    `TITLE:    ${entry.title}`,
+    `ORG:      ${entry.company || entry.school}`,
+    ...(entry.degree ? [`DEGREE:   ${entry.degree}`] : []),
+    `PERIOD:   ${formatDateRange(entry.start, entry.end)}`,
+    `TYPE:     ${entry.type}`,
+    `STATE:    ${entry.stateCode}`,
+    '',
+    entry.description,
+].join('\n'));
+
+/**
+ * Renders one skill as a coverage report with a 16-bin bar.
+ */
+const skillFile = (skill: typeof SKILLS_DATA[number]) => {
+    const bins = 16;
+    const filled = Math.floor((skill.level / 100) * bins);
+    return file(`${skill.name}\nCOVERAGE: ${skill.level}%\n[${'#'.repeat(filled)}${'.'.repeat(bins - filled)}]`);
+};
+
+/**
+ * Creates the filesystem tree: `/home/mishat` holds the portfolio content,
+ * `/dev/null` discards whatever is redirected to it.
+ */
+export const buildSiteFilesystem = (): VfsDir => {
+    const experience = dir(Object.fromEntries(TRACE_DATA.map(entry => [
+        `${Math.floor(entry.start)}_${slugify(entry.title)}.log`,
+        experienceFile(entry),
+    ])));
+    const skills = dir(Object.fromEntries(SKILLS_DATA.map(skill => [`${slugify(skill.name)}.cov`, skillFile(skill)])));
+
+    const home = dir({
+        '.bashrc': file(DEFAULT_BASHRC),
+        'about.txt': file('Mishat | Senior Design Verification Engineer @ Marvell Technology. Obsessed with zero bugs.'),
+        'contact.txt': file('Email: mishath@mun.ca\nLinkedIn: in/mishathassan'),
+        'resume.pdf': file('', RESUME_PATH),
+        Downloads: dir(),
+        experience,
+        rtl: dir(Object.fromEntries(Object.entries(RTL_FILES).map(([name, source]) => [name, file(source)]))),
+        skills,
+    });
+
+    // Wrap the home directory in /home/mishat
+    const [, ...parents] = HOME_DIR.split('/');
+    const root = parents.reduceRight<VfsDir>((child, name) => dir({ [name]: child }), home);
+    root.children['dev'] = dir({ 'null': file('') });
+    return root;
+};
@@ -0,0 +1,62 @@
+/**
+ * @file skillsData.ts
+ * @description Static data definition for the Functional Coverage (Skills) section.
+ * @author Mishat
+ */
+
+/**
+ * Skill entries shown in the coverage dashboard.
+ * @property {string} name - Display name
+ * @property {number} level - Proficiency as a coverage percentage (0-100)
+ */
+export const SKILLS_DATA = [
+    { name: "SystemVerilog", level: 95 },
+    { name: "UVM Framework", level: 90 },
+    { name: "Python / Scripting", level: 85 },
+    { name: "Ethernet / COMPHY", level: 80 },
+    { name: "Verdi / DVE", level: 88 },
+    { name: "Formal (JasperGold)", level: 75 },
+];
+
+/**
+ * How each skill's proficiency grew, as dated estimates in decimal years (the
+ * trace's time axis). Each history runs up to the skill's current level in
+ * SKILLS_DATA, which holds from the end of the trace.
+ */
+export const SKILL_HISTORY: Record<string, Array<{ year: number; level: number }>> = {
+    "SystemVerilog": [
+        { year: 2019.75, level: 10 },
+        { year: 2021.0, level: 30 },
+        { year: 2022.75, level: 55 },
+        { year: 2023.5, level: 70 },
+        { year: 2024.5, level: 85 },
+        { year: 2025.41, level: 92 },
+    ],
+    "UVM Framework": [
+        { year: 2022.0, level: 10 },
+        { year: 2022.75, level: 35 },
+        { year: 2023.5, level: 55 },
+        { year: 2024.5, level: 75 },
+        { year: 2025.41, level: 85 },
+    ],
+    "Python / Scripting": [
+        { year: 2017.75, level: 10 },
+        { year: 2019.0, level: 40 },
+        { year: 2021.0, level: 60 },
+        { year: 2023.5, level: 75 },
+    ],
+    "Ethernet / COMPHY": [
+        { year: 2023.5, level: 10 },
+        { year: 2024.0, level: 40 },
+        { year: 2024.75, level: 65 },
+    ],
+    "Verdi / DVE": [
+        { year: 2022.75, level: 20 },
+        { year: 2023.5, level: 50 },
+        { year: 2024.5, level: 75 },
+    ],
+    "Formal (JasperGold)": [
+        { year: 2024.0, level: 10 },
+        { year: 2025.0, level: 45 },
+    ],
+};
@@ -0,0 +1,187 @@
+/**
+ * @file traceSignals.ts
+ * @description The career trace as waveform signals for the viewer, and as
+ * clocked samples: the value of every signal at each sys_clk posedge.
+ * Assertions are evaluated over the samples, and the VCD export shares the
+ * timeline constants.
+ * @module Data
+ * @author Mishat
+ */
+import { TRACE_DATA } from './traceData';
+import { SKILLS_DATA, SKILL_HISTORY } from './skillsData';
+import { SvaValue, checkAssertion, parseAssertion } from '../lib/sva';
+import { encodeUnsigned } from '../lib/vcd';
+import { PaneRow, WaveSignal, analogSignal, bitsValue, signalGroup, signalRows } from '../lib/waveModel';
+
+export type TraceEntry = typeof TRACE_DATA[number];
+
+/** First and last year covered by the trace, rounded out to whole years. */
+export const TRACE_START_YEAR = Math.floor(Math.min(...TRACE_DATA.map(d => d.start)));
+export const TRACE_END_YEAR = Math.ceil(Math.max(...TRACE_DATA.map(d => d.end)));
+
+/** sys_clk runs at one cycle per month. */
+export const CLOCK_CYCLES_PER_YEAR = 12;
+
+/** Clock cycles rst_n is held low for; it is sampled high from this cycle on. */
+export const RESET_CYCLES = 2;
+
+/**
+ * Picks the entry driving the role and state signals. Work and internships
+ * win over education, as they are drawn on top in the viewer.
+ */
+export const primaryEntry = (active: TraceEntry[]) => active.find(d => d.type !== 'EDU') ?? active[0];
+
+/**
+ * Decodes a `4'hN` state code.
+ */
+export const stateValue = (entry: TraceEntry) => parseInt(entry.stateCode.split("'h")[1], 16);
+
+/** What each state code means, for showing state[3:0] as enum labels. */
+const STATE_LABELS = { '0': 'STUDENT', '1': 'INTERN', '2': 'ENGINEER', '3': 'SENIOR' };
+
+/**
+ * Scopes of the trace's signals, as in its VCD export: the clock and reset at
+ * the top, work and education fields below the career state, and the skills.
+ */
+export const TRACE_SCOPES = {
+    top: ['tb_top'],
+    career: ['tb_top', 'career'],
+    work: ['tb_top', 'career', 'work'],
+    edu: ['tb_top', 'career', 'edu'],
+    skills: ['tb_top', 'skills'],
+};
+
+/** Entries active at a time. */
+const activeAt = (year: number) => TRACE_DATA.filter(d => year >= d.start && year < d.end);
+
+/** Times where any entry starts or ends. */
+const TRACE_EDGES = [...new Set(TRACE_DATA.flatMap(d => [d.start, d.end]))].sort((a, b) => a - b);
+
+/**
+ * Declares a bus carrying a text field of the entry `pick` chooses among
+ * those that have one; it is undriven where none does.
+ */
+const fieldBus = (name: string, field: 'company' | 'school' | 'degree' | 'title', color: WaveSignal['color'], scope: string[], pick = (entries: TraceEntry[]) => entries[0]): WaveSignal => ({
+    id: name,
+    name,
+    type: 'bus',
+    color,
+    scope,
+    edges: TRACE_EDGES,
+    value: year => {
+        const text = pick(activeAt(year).filter(d => d[field]))?.[field];
+        return text ? { text } : null;
+    },
+});
+
+/**
+ * Proficiency in each skill over the trace, in percent, as analog signals
+ * drawn through the dated estimates to the current level.
+ */
+const TRACE_SKILL_SIGNALS = SKILLS_DATA.map(({ name, level }) => {
+    const id = `skill_${name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}`;
+    const history = (SKILL_HISTORY[name] ?? []).map(({ year, level }): [number, number] => [year, level]);
+    return { ...analogSignal(id, id, 'skill', [...history, [TRACE_END_YEAR, level]], 'linear', '%'), scope: TRACE_SCOPES.skills };
+});
+
+/**
+ * The signals the waveform viewer shows for the trace, in their default order.
+ */
+export const TRACE_WAVE_SIGNALS: WaveSignal[] = [
+    {
+        id: 'sys_clk',
+        name: 'sys_clk',
+        type: 'clock',
+        color: 'clock',
+        scope: TRACE_SCOPES.top,
+        edges: [TRACE_START_YEAR, TRACE_END_YEAR],
+        period: 1 / CLOCK_CYCLES_PER_YEAR,
+        value: year => ({ text: ((year - TRACE_START_YEAR) * CLOCK_CYCLES_PER_YEAR) % 1 < 0.5 ? '1' : '0' }),
+    },
+    {
+        id: 'rst_n',
+        name: 'rst_n',
+        type: 'bit',
+        color: 'reset',
+        scope: TRACE_SCOPES.top,
+        edges: [TRACE_START_YEAR, TRACE_START_YEAR + RESET_CYCLES / CLOCK_CYCLES_PER_YEAR],
+        value: year => ({ text: year < TRACE_START_YEAR + RESET_CYCLES / CLOCK_CYCLES_PER_YEAR ? '0' : '1' }),
+    },
+    {
+        id: 'state',
+        name: 'state[3:0]',
+        type: 'bus',
+        color: 'state',
+        scope: TRACE_SCOPES.career,
+        edges: TRACE_EDGES,
+        width: 4,
+        radix: 'hex',
+        enumLabels: STATE_LABELS,
+        value: year => {
+            const primary = primaryEntry(activeAt(year));
+            return bitsValue(primary ? encodeUnsigned(stateValue(primary), 4) : 'xxxx', 'hex');
+        },
+    },
+    fieldBus('company_bus', 'company', 'company', TRACE_SCOPES.work),
+    fieldBus('school_bus', 'school', 'school', TRACE_SCOPES.edu),
+    fieldBus('degree', 'degree', 'degree', TRACE_SCOPES.edu),
+    fieldBus('role_bus', 'title', 'role', TRACE_SCOPES.work, primaryEntry),
+    ...TRACE_SKILL_SIGNALS,
+];
+
+/** The viewer's rows for the trace: the digital signals, then the skills in a group. */
+export const TRACE_WAVE_ROWS: PaneRow[] = [
+    ...signalRows(TRACE_WAVE_SIGNALS.filter(signal => signal.type !== 'analog')),
+    signalGroup('skills', TRACE_SKILL_SIGNALS),
+];
+
+/** Signals assertions can refer to. sys_clk is the sampling clock, so it is not one of them. */
+export const SAMPLED_SIGNALS = ['rst_n', 'state', 'company_bus', 'school_bus', 'degree', 'role_bus'];
+
+/**
+ * Samples every signal at a time. Undriven buses and the state between
+ * entries are unknown (null).
+ */
+const sampleAt = (year: number, cycle: number): Record<string, SvaValue> => {
+    const active = activeAt(year);
+    const field = (name: 'company' | 'school' | 'degree' | 'title', pick = (entries: TraceEntry[]) => entries[0]) =>
+        pick(active.filter(d => d[name]))?.[name] ?? null;
+    const primary = primaryEntry(active);
+    return {
+        rst_n: cycle >= RESET_CYCLES ? 1 : 0,
+        state: primary ? stateValue(primary) : null,
+        company_bus: field('company'),
+        school_bus: field('school'),
+        degree: field('degree'),
+        role_bus: field('title', primaryEntry),
+    };
+};
+
+/**
+ * The trace sampled at every sys_clk posedge: `times[i]` is the decimal year
+ * of cycle i and `values[i]` the signal values there.
+ */
+export const TRACE_SAMPLES = (() => {
+    const cycles = (TRACE_END_YEAR - TRACE_START_YEAR) * CLOCK_CYCLES_PER_YEAR;
+    const times = Array.from({ length: cycles }, (_, i) => TRACE_START_YEAR + i / CLOCK_CYCLES_PER_YEAR);
+    return { times, values: times.map(sampleAt) };
+})();
+
+/**
+ * Example assertions the waveform's assertion panel starts with.
+ * The last one fails: the internship started before graduation.
+ */
+export const DEFAULT_TRACE_ASSERTIONS = [
+    `a_dv_at_marvell: state == 4'h2 |-> company_bus == "Marvell Technology"`,
+    `a_promoted: $changed(state) && state == 4'h3 |-> $past(state) == 4'h2`,
+    `a_graduated_first: disable iff (!rst_n) $rose(company_bus) |-> $isunknown(school_bus)`,
+];
+
+/**
+ * Parses an assertion against the trace's signals and checks it over the samples.
+ * @throws {SvaError} if the property cannot be parsed
+ */
+export const checkTraceAssertion = (source: string) => {
+    const assertion = parseAssertion(source, SAMPLED_SIGNALS, 'sys_clk');
+    return { assertion, report: checkAssertion(assertion, TRACE_SAMPLES.values) };
+};
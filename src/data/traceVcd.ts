@@ -0,0 +1,102 @@
+/**
+ * @file traceVcd.ts
+ * @description Encodes the career trace (TRACE_DATA) as a VCD file, with the
+ * same signals and scopes the WaveformViewer shows: sys_clk, rst_n, state[3:0]
+ * and the buses.
+ * @module Data
+ * @author Mishat
+ */
+import { TRACE_DATA } from './traceData';
+import {
+    CLOCK_CYCLES_PER_YEAR, RESET_CYCLES, TRACE_END_YEAR, TRACE_START_YEAR, TraceEntry, primaryEntry, stateValue,
+} from './traceSignals';
+import { VcdVar, encodeAscii, encodeUnsigned, writeVcd } from '../lib/vcd';
+
+/** Suggested filename for downloads. */
+export const TRACE_VCD_FILENAME = 'career_trace.vcd';
+
+/** Dump time unit is one second; a (Julian) year of them per year of career. */
+const SECONDS_PER_YEAR = 31_557_600;
+
+/**
+ * Converts a decimal year to dump time (seconds since the start of TRACE_START_YEAR).
+ */
+const toTime = (year: number) => Math.round((year - TRACE_START_YEAR) * SECONDS_PER_YEAR);
+
+/**
+ * Width of an ASCII bus wide enough for the longest value of a field.
+ */
+const busWidth = (field: 'company' | 'school' | 'degree' | 'title') =>
+    8 * Math.max(1, ...TRACE_DATA.map(d => d[field].length));
+
+/**
+ * Builds a variable from a value function sampled at every time in `times`,
+ * keeping only the points where the value changes.
+ */
+const sampled = (name: string, width: number, times: number[], valueAt: (time: number) => string, type: VcdVar['type'] = 'reg'): VcdVar => {
+    const changes: VcdVar['changes'] = [];
+    for (const time of times) {
+        const value = valueAt(time);
+        if (changes[changes.length - 1]?.[1] !== value) changes.push([time, value]);
+    }
+    return { name, width, type, changes };
+};
+
+/**
+ * Generates the career trace as VCD text.
+ * Buses carry packed ASCII (view them with an ASCII radix); a bus nothing drives
+ * is high-impedance, and state is unknown between entries.
+ * @param generatedAt - Timestamp for the `$date` section
+ */
+export const buildTraceVcd = (generatedAt = new Date()) => {
+    const endTime = toTime(TRACE_END_YEAR);
+    const halfCycle = SECONDS_PER_YEAR / CLOCK_CYCLES_PER_YEAR / 2;
+    const clockEdges = Array.from({ length: Math.round(endTime / halfCycle) }, (_, i) => Math.round(i * halfCycle));
+
+    // Data signals only change where an entry starts or ends
+    const boundaries = [...new Set([0, ...TRACE_DATA.flatMap(d => [toTime(d.start), toTime(d.end)])])]
+        .filter(time => time < endTime)
+        .sort((a, b) => a - b);
+    const activeAt = (time: number) => TRACE_DATA.filter(d => time >= toTime(d.start) && time < toTime(d.end));
+
+    const bus = (name: string, field: 'company' | 'school' | 'degree' | 'title', pick: (active: TraceEntry[]) => TraceEntry | undefined) => {
+        const width = busWidth(field);
+        return sampled(name, width, boundaries, time => {
+            const entry = pick(activeAt(time).filter(d => d[field]));
+            return entry ? encodeAscii(entry[field], width) : 'z';
+        });
+    };
+
+    return writeVcd({
+        date: generatedAt.toUTCString(),
+        version: 'MishatOS career trace generator',
+        comment: [
+            `t=0 is ${TRACE_START_YEAR}-01-01; 1 s timescale, so 1 year = ${SECONDS_PER_YEAR} ticks.`,
+            'sys_clk: 1 cycle per month. Buses hold packed ASCII.',
+        ].join('\n'),
+        timescale: '1 s',
+        endTime,
+        scope: {
+            name: 'tb_top',
+            vars: [
+                { name: 'sys_clk', width: 1, changes: clockEdges.map((time, i) => [time, i % 2 ? '0' : '1']) },
+                // Reset is released on the second posedge, so it samples high from cycle RESET_CYCLES on
+                { name: 'rst_n', width: 1, changes: [[0, '0'], [clockEdges[2 * (RESET_CYCLES - 1)] ?? 0, '1']] },
+            ],
+            // The viewer's scope tree shows the same hierarchy (TRACE_SCOPES)
+            scopes: [{
+                name: 'career',
+                vars: [
+                    sampled('state', 4, boundaries, time => {
+                        const entry = primaryEntry(activeAt(time));
+                        return entry ? encodeUnsigned(stateValue(entry), 4) : 'x';
+                    }),
+                ],
+                scopes: [
+                    { name: 'work', vars: [bus('company_bus', 'company', active => active[0]), bus('role_bus', 'title', primaryEntry)] },
+                    { name: 'edu', vars: [bus('school_bus', 'school', active => active[0]), bus('degree', 'degree', active => active[0])] },
+                ],
+            }],
+        },
+    });
+};
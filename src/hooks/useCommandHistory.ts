@@ -0,0 +1,69 @@
+/**
+ * @file useCommandHistory.ts
+ * @description Persistent shell-style input history.
+ * Entries survive reloads through localStorage and are capped to a fixed length.
+ * @module Hooks
+ * @author Mishat
+ */
+import { useState, useCallback, useEffect } from 'react';
+
+/** Maximum number of entries kept (oldest are dropped first). */
+const HISTORY_LIMIT = 200;
+
+/**
+ * Reads the stored history, tolerating missing storage or corrupt data.
+ */
+const loadHistory = (storageKey: string): string[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(storageKey) ?? '[]');
+        return Array.isArray(parsed) ? parsed.filter(e => typeof e === 'string').slice(-HISTORY_LIMIT) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Writes the history, ignoring quota or privacy-mode failures.
+ */
+const saveHistory = (storageKey: string, entries: string[]) => {
+    try {
+        localStorage.setItem(storageKey, JSON.stringify(entries));
+    } catch {
+        // History is a convenience; losing it is acceptable.
+    }
+};
+
+/**
+ * Finds the most recent entry containing `query`, searching backwards from `before`.
+ * @param entries - History, oldest first
+ * @param query - Substring to look for
+ * @param before - Only indices strictly below this are considered
+ * @returns The index of the match, or -1
+ */
+export const searchHistory = (entries: string[], query: string, before = entries.length): number => {
+    for (let i = Math.min(before, entries.length) - 1; i >= 0; i--) {
+        if (entries[i].includes(query)) return i;
+    }
+    return -1;
+};
+
+/**
+ * Hook to manage a persisted, capped list of previously entered commands.
+ * Consecutive duplicates are collapsed, like bash's `ignoredups`.
+ * @param storageKey - localStorage key to persist under
+ */
+export const useCommandHistory = (storageKey: string) => {
+    const [entries, setEntries] = useState<string[]>(() => loadHistory(storageKey));
+
+    useEffect(() => {
+        saveHistory(storageKey, entries);
+    }, [storageKey, entries]);
+
+    const push = useCallback((line: string) => {
+        setEntries(prev => prev[prev.length - 1] === line ? prev : [...prev, line].slice(-HISTORY_LIMIT));
+    }, []);
+
+    const clear = useCallback(() => setEntries([]), []);
+
+    return { entries, push, clear };
+};
@@ -0,0 +1,109 @@
+/**
+ * @file usePlayback.ts
+ * @description Plays a time axis like a running simulation: sweeps a cursor
+ * from a start time to an end time at a chosen speed, a frame at a time,
+ * optionally looping, with single steps between edges.
+ * @module Hooks
+ * @author Mishat
+ */
+import { useEffect, useRef, useState } from 'react';
+
+/** Seconds one sweep of the whole range takes at 1× speed. */
+const SWEEP_SECONDS = 20;
+
+/** Longest time a frame advances the sweep by, so a tab returning from the background doesn't leap ahead. */
+const MAX_FRAME_SECONDS = 0.1;
+
+/** Speeds offered, as multiples of the 1× rate. */
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+interface PlaybackOptions {
+    /** The whole time axis; the range played defaults to it */
+    bounds: { start: number; end: number };
+    /** Sorted times a step can stop at */
+    edges: number[];
+    cursorTime: number;
+    /**
+     * Moves the cursor. `from` is where it swept from, crossing everything in
+     * between; it is absent when the cursor jumps, e.g. back to the start to loop.
+     */
+    onMove: (time: number, from?: number) => void;
+}
+
+/**
+ * Hook to play, pause and step a cursor across a time axis.
+ * Start and end marks narrow the range played; unset, it is the whole axis.
+ */
+export const usePlayback = ({ bounds, edges, cursorTime, onMove }: PlaybackOptions) => {
+    const [playing, setPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+    const [loop, setLoop] = useState(false);
+    const [marks, setMarks] = useState<{ start: number | null; end: number | null }>({ start: null, end: null });
+    const start = marks.start ?? bounds.start;
+    const end = marks.end ?? bounds.end;
+
+    // The frame loop reads these through a ref, so a click on the waveform
+    // while playing carries on from the new cursor rather than restarting
+    const latest = useRef({ cursorTime, loop, onMove });
+    latest.current = { cursorTime, loop, onMove };
+
+    useEffect(() => {
+        if (!playing) return;
+        const rate = ((end - start) / SWEEP_SECONDS) * speed;
+        let last = performance.now();
+        let frame = requestAnimationFrame(function tick(now) {
+            const { cursorTime: from, loop, onMove } = latest.current;
+            const elapsed = Math.min(MAX_FRAME_SECONDS, (now - last) / 1000);
+            last = now;
+            const to = Math.min(end, Math.max(start, from) + elapsed * rate);
+            onMove(to, from >= start ? from : undefined);
+            if (to >= end) {
+                if (!loop) {
+                    setPlaying(false);
+                    return;
+                }
+                onMove(start);
+            }
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [playing, speed, start, end]);
+
+    /** Plays from the cursor, or from the start if the cursor is outside the range; pauses if playing. */
+    const toggle = () => {
+        if (playing) {
+            setPlaying(false);
+            return;
+        }
+        if (cursorTime < start || cursorTime >= end) onMove(start);
+        setPlaying(true);
+    };
+
+    /** Pauses and moves the cursor to the next (or previous) edge in the range, or the range's end. */
+    const step = (direction: 1 | -1) => {
+        setPlaying(false);
+        if (direction > 0) {
+            const next = edges.find(edge => edge > cursorTime && edge > start && edge < end) ?? end;
+            if (next > cursorTime) onMove(next, Math.max(cursorTime, start));
+            return;
+        }
+        const previous = edges.filter(edge => edge < cursorTime && edge > start && edge < end).pop() ?? start;
+        if (previous < cursorTime) onMove(previous);
+    };
+
+    /** Sets (or with null, clears) where playback starts. An end at or before it is cleared. */
+    const markStart = (time: number | null) =>
+        setMarks(prev => ({ start: time, end: time !== null && prev.end !== null && prev.end <= time ? null : prev.end }));
+
+    /** Sets (or with null, clears) where playback ends. A start at or after it is cleared. */
+    const markEnd = (time: number | null) =>
+        setMarks(prev => ({ start: time !== null && prev.start !== null && prev.start >= time ? null : prev.start, end: time }));
+
+    /** Stops and clears the marks, for a new time axis. */
+    const reset = () => {
+        setPlaying(false);
+        setMarks({ start: null, end: null });
+    };
+
+    return { playing, toggle, step, speed, setSpeed, loop, setLoop, marks, start, end, markStart, markEnd, reset };
+};
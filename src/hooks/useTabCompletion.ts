@@ -0,0 +1,33 @@
+/**
+ * @file useTabCompletion.ts
+ * @description Bash-style Tab handling for command inputs.
+ * The first Tab completes as far as possible; a second Tab on an unchanged,
+ * ambiguous line lists the candidates.
+ * @module Hooks
+ * @author Mishat
+ */
+import { useRef, useCallback } from 'react';
+import { completeLine } from '../commands/completion';
+import { CompletionEnv } from '../commands/types';
+
+/**
+ * Hook returning a Tab handler for a command input.
+ * @param env - The surface (and shell session) whose commands are completed
+ * @returns A function mapping the current line to the completed line and,
+ * on a double Tab, the candidates to list (otherwise null)
+ */
+export const useTabCompletion = (env: CompletionEnv) => {
+    // Line left behind by the previous Tab press, to detect a double Tab
+    const lastTabLine = useRef<string | null>(null);
+
+    return useCallback((line: string): { line: string; listing: string[] | null } => {
+        const result = completeLine(line, env);
+        const isDoubleTab = lastTabLine.current === line;
+        lastTabLine.current = result.line;
+
+        if (result.line !== line || result.candidates.length < 2) {
+            return { line: result.line, listing: null };
+        }
+        return { line, listing: isDoubleTab ? result.candidates : null };
+    }, [env]);
+};
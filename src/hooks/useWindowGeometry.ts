@@ -0,0 +1,119 @@
+/**
+ * @file useWindowGeometry.ts
+ * @description Drag and resize support for floating, desktop-style windows.
+ * Position and size survive reloads through localStorage.
+ * @module Hooks
+ * @author Mishat
+ */
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Offset of a window from its place in the page flow, and its size.
+ */
+export interface WindowGeometry {
+    /** Horizontal drag offset in px */
+    x: number;
+    /** Vertical drag offset in px */
+    y: number;
+    /** Width in px, or null to use the layout's default width */
+    width: number | null;
+    /** Height of the window body in px */
+    height: number;
+}
+
+const MIN_WIDTH = 320;
+const MIN_HEIGHT = 120;
+/** Part of the window (roughly the title bar) that must stay on screen. */
+const GRIP_MARGIN = 40;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), Math.max(min, max));
+
+/**
+ * Reads stored geometry, falling back to the defaults for anything missing or corrupt.
+ */
+const loadGeometry = (storageKey: string, defaults: WindowGeometry): WindowGeometry => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(storageKey) ?? '{}');
+        const num = (value: unknown, fallback: number) => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+        return {
+            x: num(parsed.x, defaults.x),
+            y: num(parsed.y, defaults.y),
+            width: typeof parsed.width === 'number' && parsed.width >= MIN_WIDTH ? parsed.width : defaults.width,
+            height: Math.max(MIN_HEIGHT, num(parsed.height, defaults.height)),
+        };
+    } catch {
+        return defaults;
+    }
+};
+
+/**
+ * Tracks a pointer from a pointerdown until release, reporting the distance moved.
+ */
+const trackPointer = (e: React.PointerEvent, onMove: (dx: number, dy: number) => void) => {
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const move = (ev: PointerEvent) => onMove(ev.clientX - startX, ev.clientY - startY);
+    const stop = () => {
+        window.removeEventListener('pointermove', move);
+        window.removeEventListener('pointerup', stop);
+        window.removeEventListener('pointercancel', stop);
+        document.body.style.userSelect = '';
+    };
+    // Stop text selection from following the pointer while dragging
+    document.body.style.userSelect = 'none';
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', stop);
+    window.addEventListener('pointercancel', stop);
+};
+
+/**
+ * Hook to make an element draggable (by a handle) and resizable (by a corner grip).
+ * Drags are clamped so the title bar cannot leave the viewport.
+ * @param storageKey - localStorage key to persist under
+ * @param defaults - Geometry used when nothing is stored
+ */
+export const useWindowGeometry = (storageKey: string, defaults: WindowGeometry) => {
+    const [geometry, setGeometry] = useState<WindowGeometry>(() => loadGeometry(storageKey, defaults));
+    const windowRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(storageKey, JSON.stringify(geometry));
+        } catch {
+            // Window placement is a convenience; losing it is acceptable.
+        }
+    }, [storageKey, geometry]);
+
+    const startDrag = useCallback((e: React.PointerEvent) => {
+        // Buttons in the title bar keep their own click behaviour
+        if (e.button !== 0 || (e.target as HTMLElement).closest('button') || !windowRef.current) return;
+        const rect = windowRef.current.getBoundingClientRect();
+        const start = geometry;
+        trackPointer(e, (dx, dy) => setGeometry({
+            ...start,
+            x: start.x + clamp(dx, -rect.left, window.innerWidth - rect.right),
+            y: start.y + clamp(dy, -rect.top, window.innerHeight - GRIP_MARGIN - rect.top),
+        }));
+    }, [geometry]);
+
+    const startResize = useCallback((e: React.PointerEvent) => {
+        if (e.button !== 0 || !windowRef.current) return;
+        e.preventDefault();
+        const startWidth = windowRef.current.getBoundingClientRect().width;
+        // Never grow past the column the window sits in
+        const maxWidth = windowRef.current.parentElement?.clientWidth ?? window.innerWidth;
+        const start = geometry;
+        trackPointer(e, (dx, dy) => {
+            const width = clamp(startWidth + dx, MIN_WIDTH, maxWidth);
+            setGeometry({
+                // The window is centred in its column, so shift it to keep the left edge fixed
+                x: start.x + (width - startWidth) / 2,
+                y: start.y,
+                width,
+                height: clamp(start.height + dy, MIN_HEIGHT, window.innerHeight - GRIP_MARGIN * 2),
+            });
+        });
+    }, [geometry]);
+
+    return { geometry, windowRef, startDrag, startResize };
+};
@@ -0,0 +1,128 @@
+/**
+ * @file ansi.ts
+ * @description ANSI SGR escape sequence support for Terminal output.
+ * Parses colour/weight/underline codes into styled spans and offers helpers for
+ * commands that want to colour their own output.
+ * @module Lib
+ * @author Mishat
+ */
+
+/**
+ * Visual attributes of a span. Colours are CSS colour values.
+ */
+export interface AnsiStyle {
+    fg?: string;
+    bg?: string;
+    bold?: boolean;
+    dim?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    inverse?: boolean;
+}
+
+/**
+ * A run of text sharing one style.
+ */
+export interface AnsiSpan {
+    text: string;
+    style: AnsiStyle;
+}
+
+/** SGR codes used by commands (see `paint`). */
+export const SGR = {
+    reset: 0, bold: 1, dim: 2, italic: 3, underline: 4,
+    black: 30, red: 31, green: 32, yellow: 33, blue: 34, magenta: 35, cyan: 36, white: 37,
+    brightBlack: 90, brightRed: 91, brightGreen: 92, brightYellow: 93,
+    brightBlue: 94, brightMagenta: 95, brightCyan: 96, brightWhite: 97,
+} as const;
+
+// Matches any CSI sequence; only those ending in "m" (SGR) carry styling
+const CSI_PATTERN = /\x1b\[([0-9;:]*)([@-~])/g;
+
+/**
+ * Resolves an xterm 256-colour index to a CSS colour.
+ * The first 16 map to theme variables so they follow the active theme.
+ */
+const paletteColor = (index: number): string => {
+    if (index < 16) return `var(--ansi-${index})`;
+    if (index < 232) {
+        // 6x6x6 colour cube
+        const levels = [0, 95, 135, 175, 215, 255];
+        const n = index - 16;
+        return `rgb(${levels[Math.floor(n / 36)]}, ${levels[Math.floor(n / 6) % 6]}, ${levels[n % 6]})`;
+    }
+    const gray = 8 + (index - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+};
+
+/**
+ * Applies one SGR parameter list to a style, returning the new style.
+ */
+const applySgr = (style: AnsiStyle, params: number[]): AnsiStyle => {
+    const next = { ...style };
+    for (let i = 0; i < params.length; i++) {
+        const code = params[i];
+        if (code === 0) {
+            for (const key of Object.keys(next) as Array<keyof AnsiStyle>) delete next[key];
+        } else if (code === 1) next.bold = true;
+        else if (code === 2) next.dim = true;
+        else if (code === 3) next.italic = true;
+        else if (code === 4) next.underline = true;
+        else if (code === 7) next.inverse = true;
+        else if (code === 22) next.bold = next.dim = false;
+        else if (code === 23) next.italic = false;
+        else if (code === 24) next.underline = false;
+        else if (code === 27) next.inverse = false;
+        else if (code >= 30 && code <= 37) next.fg = paletteColor(code - 30);
+        else if (code >= 90 && code <= 97) next.fg = paletteColor(code - 90 + 8);
+        else if (code >= 40 && code <= 47) next.bg = paletteColor(code - 40);
+        else if (code >= 100 && code <= 107) next.bg = paletteColor(code - 100 + 8);
+        else if (code === 39) delete next.fg;
+        else if (code === 49) delete next.bg;
+        else if (code === 38 || code === 48) {
+            // Extended colour: 5;n (256 colours) or 2;r;g;b (truecolour)
+            const target = code === 38 ? 'fg' : 'bg';
+            if (params[i + 1] === 5 && params[i + 2] !== undefined) {
+                next[target] = paletteColor(Math.min(255, params[i + 2]));
+                i += 2;
+            } else if (params[i + 1] === 2 && params[i + 4] !== undefined) {
+                next[target] = `rgb(${params[i + 2]}, ${params[i + 3]}, ${params[i + 4]})`;
+                i += 4;
+            }
+        }
+    }
+    return next;
+};
+
+/**
+ * Splits text containing escape sequences into styled spans.
+ * Non-SGR control sequences (cursor movement etc.) are dropped.
+ * @param text - Raw output, possibly pasted from a real simulator log
+ */
+export const parseAnsi = (text: string): AnsiSpan[] => {
+    const spans: AnsiSpan[] = [];
+    let style: AnsiStyle = {};
+    let last = 0;
+
+    for (const match of text.matchAll(CSI_PATTERN)) {
+        if (match.index > last) spans.push({ text: text.slice(last, match.index), style });
+        if (match[2] === 'm') {
+            const params = match[1] === '' ? [0] : match[1].split(/[;:]/).map(p => Number(p) || 0);
+            style = applySgr(style, params);
+        }
+        last = match.index + match[0].length;
+    }
+    if (last < text.length) spans.push({ text: text.slice(last), style });
+    return spans;
+};
+
+/**
+ * Removes all escape sequences, leaving the visible text.
+ */
+export const stripAnsi = (text: string) => text.replace(CSI_PATTERN, '');
+
+/**
+ * Wraps text in SGR codes and resets afterwards.
+ * @example paint('PASS', SGR.bold, SGR.green)
+ */
+export const paint = (text: string, ...codes: number[]) => `\x1b[${codes.join(';')}m${text}\x1b[0m`;
@@ -0,0 +1,38 @@
+/**
+ * @file async.ts
+ * @description Small helpers for cancellable asynchronous work.
+ * @module Lib
+ * @author Mishat
+ */
+
+/**
+ * Creates the error an aborted operation rejects with.
+ */
+export const abortError = () => new DOMException('Aborted', 'AbortError');
+
+/**
+ * Returns true if an error signals cancellation rather than failure.
+ */
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+/**
+ * Waits for a number of milliseconds.
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ * @throws {DOMException} AbortError if the signal fires first
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(abortError());
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -0,0 +1,53 @@
+/**
+ * @file dates.ts
+ * @description Helpers for the decimal-year timestamps used throughout the trace data.
+ * @module Lib
+ * @author Mishat
+ */
+
+/** Month names as the site prints them. */
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'April', 'May', 'June', 'July', 'Aug', 'Sept', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Converts a decimal year to a formatted month/year string.
+ * @param decimalYear - Year as decimal (e.g., 2025.41 for May 2025)
+ * @param isPresent - If true, returns "Present" instead of the date
+ * @returns Formatted date string (e.g., "May 2025")
+ */
+export const formatDecimalYear = (decimalYear: number, isPresent = false): string => {
+    if (isPresent) return 'Present';
+    const year = Math.floor(decimalYear);
+    const monthDecimal = (decimalYear - year) * 12;
+    const monthIndex = Math.round(monthDecimal) - 1;
+    // Clamp to valid month range
+    const safeMonthIndex = Math.max(0, Math.min(11, monthIndex < 0 ? 0 : monthIndex));
+    return `${MONTH_NAMES[safeMonthIndex]} ${year}`;
+};
+
+/**
+ * Formats a date range from trace data entry.
+ * @param start - Start decimal year
+ * @param end - End decimal year
+ * @returns Formatted date range (e.g., "May 2025 - Present")
+ */
+export const formatDateRange = (start: number, end: number): string => {
+    const currentYear = new Date().getFullYear();
+    const currentMonth = new Date().getMonth() + 1; // 1-indexed
+    const currentDecimal = currentYear + (currentMonth / 12);
+
+    // If end date is close to or beyond current date, show "Present"
+    const isPresent = end >= currentDecimal - 0.1;
+
+    return `${formatDecimalYear(start)} - ${formatDecimalYear(end, isPresent)}`;
+};
+
+/**
+ * Formats a length of time in whole months, GTKWave-delta style.
+ * @param years - Duration in years; negative durations get a minus sign
+ * @returns e.g. "1y 10m", "3m" or "2y"
+ */
+export const formatDuration = (years: number): string => {
+    const months = Math.round(Math.abs(years) * 12);
+    const parts = [Math.floor(months / 12) && `${Math.floor(months / 12)}y`, months % 12 && `${months % 12}m`].filter(Boolean);
+    return `${years < 0 && months ? '-' : ''}${parts.join(' ') || '0m'}`;
+};
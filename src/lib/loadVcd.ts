@@ -0,0 +1,54 @@
+/**
+ * @file loadVcd.ts
+ * @description Reads a VCD file chosen or dropped by the user, parsing large
+ * dumps in a Web Worker so the page stays responsive.
+ * @module Lib
+ * @author Mishat
+ */
+import { abortError } from './async';
+import { VcdDump, VcdError, parseVcd } from './vcd';
+
+/** Files at least this large (in bytes) are parsed in a worker. */
+const WORKER_THRESHOLD = 256 * 1024;
+
+/** What the worker posts back: the dump, or a VcdError's message (without its line) and line. */
+type WorkerReply = { dump: VcdDump } | { error: string; line?: number };
+
+/**
+ * Parses dump text in a worker.
+ * @throws {VcdError} if the dump is malformed
+ * @throws {DOMException} AbortError if the signal fires first (the worker is stopped)
+ */
+const parseInWorker = (text: string, signal?: AbortSignal) => new Promise<VcdDump>((resolve, reject) => {
+    const worker = new Worker(new URL('./vcd.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+        finish();
+        reject(abortError());
+    };
+    worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+        finish();
+        if ('dump' in e.data) resolve(e.data.dump);
+        else reject(new VcdError(e.data.error, e.data.line));
+    };
+    worker.onerror = e => {
+        finish();
+        reject(new Error(e.message || 'VCD worker failed'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.postMessage(text);
+});
+
+/**
+ * Reads and parses a VCD file.
+ * @throws {VcdError} if the dump is malformed
+ * @throws {DOMException} AbortError if the signal fires first
+ */
+export const loadVcd = async (file: File, signal?: AbortSignal): Promise<VcdDump> => {
+    const text = await file.text();
+    if (signal?.aborted) throw abortError();
+    return file.size < WORKER_THRESHOLD ? parseVcd(text) : parseInWorker(text, signal);
+};
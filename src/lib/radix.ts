@@ -0,0 +1,102 @@
+/**
+ * @file radix.ts
+ * @description Display formats for bus values held as bits: hex, binary,
+ * unsigned and signed decimal, ASCII, and enum labels. Bits are written MSB
+ * first as `0 1 x z` digits, as in a VCD.
+ * @module Lib
+ * @author Mishat
+ */
+
+/** How a numeric bus's value is displayed. */
+export type ValueRadix = 'hex' | 'binary' | 'decimal' | 'signed' | 'ascii' | 'enum';
+
+/** Every radix, in menu order, with its menu label. */
+export const VALUE_RADIXES: { radix: ValueRadix; label: string }[] = [
+    { radix: 'hex', label: 'Hex' },
+    { radix: 'binary', label: 'Binary' },
+    { radix: 'decimal', label: 'Decimal' },
+    { radix: 'signed', label: 'Signed decimal' },
+    { radix: 'ascii', label: 'ASCII' },
+    { radix: 'enum', label: 'Enum labels' },
+];
+
+/** Labels for values of an enum-like bus, keyed by the value in decimal. */
+export type EnumLabels = Record<string, string>;
+
+/**
+ * Thrown when an enum mapping can't be read.
+ */
+export class EnumLabelsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EnumLabelsError';
+    }
+}
+
+/**
+ * Writes bits in hex, a digit per 4 bits from the LSB. A nibble that is all z
+ * is `z`; one with any other unknown bit is `x`.
+ */
+export const bitsToHex = (bits: string) => {
+    const padded = bits.padStart(Math.ceil(bits.length / 4) * 4, '0');
+    let hex = '';
+    for (let i = 0; i < padded.length; i += 4) {
+        const nibble = padded.slice(i, i + 4);
+        if (/^z+$/.test(nibble)) hex += 'z';
+        else if (/[xz]/.test(nibble)) hex += 'x';
+        else hex += parseInt(nibble, 2).toString(16);
+    }
+    return hex;
+};
+
+/**
+ * Formats bits in a radix. Values with unknown bits read `x` (or `z` when
+ * every bit floats) in the radixes that can't show single bits.
+ * @param labels - Labels for the enum radix; values without one fall back to hex
+ */
+export const formatBits = (bits: string, radix: ValueRadix, labels: EnumLabels = {}) => {
+    if (radix === 'hex') return bitsToHex(bits);
+    if (radix === 'binary') return bits;
+    if (/[xz]/.test(bits)) return /^z+$/.test(bits) ? 'z' : 'x';
+
+    const value = BigInt(`0b${bits || '0'}`);
+    switch (radix) {
+        case 'decimal':
+            return value.toString();
+        case 'signed':
+            return (bits[0] === '1' ? value - (1n << BigInt(bits.length)) : value).toString();
+        case 'ascii': {
+            // A character per byte from the LSB; unprintable bytes show as dots
+            const padded = bits.padStart(Math.ceil(bits.length / 8) * 8, '0');
+            let text = '';
+            for (let i = 0; i < padded.length; i += 8) {
+                const code = parseInt(padded.slice(i, i + 8), 2);
+                if (code) text += code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : '.';
+            }
+            return text;
+        }
+        case 'enum':
+            return labels[value.toString()] ?? bitsToHex(bits);
+    }
+};
+
+/**
+ * Reads an enum mapping written as `value=LABEL` pairs separated by commas or
+ * spaces, e.g. `0=IDLE, 1=BUSY, 0x1f=DONE`. Values are decimal, or hex with 0x.
+ * @throws {EnumLabelsError} On a pair that isn't `value=LABEL`
+ */
+export const parseEnumLabels = (text: string): EnumLabels => {
+    const labels: EnumLabels = {};
+    for (const pair of text.split(/[,\s]+/).filter(Boolean)) {
+        const match = /^(0x[0-9a-f]+|\d+)=(\S+)$/i.exec(pair);
+        if (!match) throw new EnumLabelsError(`expected value=LABEL, got '${pair}'`);
+        labels[BigInt(match[1]).toString()] = match[2];
+    }
+    return labels;
+};
+
+/**
+ * Writes an enum mapping back in the form parseEnumLabels reads.
+ */
+export const formatEnumLabels = (labels: EnumLabels) =>
+    Object.entries(labels).map(([value, label]) => `${value}=${label}`).join(', ');
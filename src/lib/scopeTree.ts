@@ -0,0 +1,85 @@
+/**
+ * @file scopeTree.ts
+ * @description The scope tree of the waveform viewer's signal search (SST)
+ * pane: signals arranged under their enclosing scopes, as in a dump's
+ * `$scope` hierarchy, and filtered by a name glob.
+ * @module Lib
+ * @author Mishat
+ */
+import { WaveSignal } from './waveModel';
+
+/** A scope with the scopes and signals declared directly in it. */
+export interface ScopeNode {
+    name: string;
+    /** Dotted path from the top scope, e.g. `tb_top.career.work` */
+    path: string;
+    scopes: ScopeNode[];
+    signals: WaveSignal[];
+}
+
+/**
+ * A signal's own name, without the scope path the viewer may put before it.
+ */
+export const leafName = (signal: WaveSignal) => {
+    const prefix = signal.scope?.slice(1).join('.');
+    return prefix && signal.name.startsWith(`${prefix}.`) ? signal.name.slice(prefix.length + 1) : signal.name;
+};
+
+/**
+ * A signal's full dotted path: its scopes, then its own name.
+ */
+export const signalPath = (signal: WaveSignal) => [...(signal.scope ?? []), leafName(signal)].join('.');
+
+/**
+ * Arranges signals under their scopes, keeping declaration order. Signals
+ * without a scope sit in a root node with an empty name.
+ * @returns The root: top scopes are its `scopes`, unscoped signals its `signals`
+ */
+export const buildScopeTree = (signals: WaveSignal[]): ScopeNode => {
+    const root: ScopeNode = { name: '', path: '', scopes: [], signals: [] };
+    for (const signal of signals) {
+        let node = root;
+        for (const name of signal.scope ?? []) {
+            let child = node.scopes.find(scope => scope.name === name);
+            if (!child) {
+                child = { name, path: node.path ? `${node.path}.${name}` : name, scopes: [], signals: [] };
+                node.scopes.push(child);
+            }
+            node = child;
+        }
+        node.signals.push(signal);
+    }
+    return root;
+};
+
+/**
+ * Turns a glob into a case-insensitive test: `*` matches any run of
+ * characters (dots included), `?` any one; everything else is literal, so
+ * bit ranges like `[3:0]` match as written.
+ */
+export const globTest = (glob: string) => {
+    const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    const pattern = new RegExp(`^${source}$`, 'i');
+    return (text: string) => pattern.test(text);
+};
+
+/**
+ * Keeps the signals matching a glob, and the scopes leading to them. A glob
+ * with a dot is matched against full paths (`tb_top.career.*`), one without
+ * against signal names (`*_bus`).
+ */
+export const filterScopeTree = (node: ScopeNode, glob: string): ScopeNode => {
+    const test = globTest(glob);
+    const matches = glob.includes('.') ? (signal: WaveSignal) => test(signalPath(signal)) : (signal: WaveSignal) => test(leafName(signal));
+    const prune = (scope: ScopeNode): ScopeNode => ({
+        ...scope,
+        scopes: scope.scopes.map(prune).filter(child => child.scopes.length || child.signals.length),
+        signals: scope.signals.filter(matches),
+    });
+    return prune(node);
+};
+
+/**
+ * Lists every signal in a scope and the scopes below it, in tree order.
+ */
+export const scopeSignals = (node: ScopeNode): WaveSignal[] => [...node.signals, ...node.scopes.flatMap(scopeSignals)];
@@ -0,0 +1,254 @@
+/**
+ * @file shell.ts
+ * @description Lexer and parser for the Terminal's small POSIX-like shell language.
+ * Supports single/double quotes, backslash escapes, `#` comments, `|` pipelines,
+ * `;` and `&&` sequencing, `>` / `>>` output redirection, aliases and `$VAR` expansion.
+ * @module Lib
+ * @author Mishat
+ */
+
+/**
+ * A piece of a word with the quoting it was written in.
+ * Quoting is kept so later stages can decide what to expand.
+ */
+export interface WordSegment {
+    text: string;
+    quote: 'single' | 'double' | null;
+}
+
+/** A shell word, made of adjacent segments (e.g. `foo"bar baz"`). */
+export type Word = WordSegment[];
+
+/**
+ * Output redirection attached to a command.
+ */
+export interface Redirect {
+    /** Target path as written */
+    target: Word;
+    /** `>>` appends instead of truncating */
+    append: boolean;
+}
+
+/**
+ * A single command invocation: its words and optional redirection.
+ */
+export interface SimpleCommand {
+    words: Word[];
+    redirect?: Redirect;
+}
+
+/** Commands connected by `|`. */
+export type Pipeline = SimpleCommand[];
+
+/**
+ * One step of a script and how it connects to the previous step.
+ * `&&` steps only run if the previous step succeeded.
+ */
+export interface ScriptStep {
+    connector: ';' | '&&' | null;
+    pipeline: Pipeline;
+}
+
+/**
+ * Error raised for malformed input. Messages follow bash's wording.
+ */
+export class ShellSyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ShellSyntaxError';
+    }
+}
+
+type Token =
+    | { type: 'word'; word: Word; fromAliases?: string[] }
+    | { type: 'op'; op: '|' | ';' | '&&' | '>' | '>>' };
+
+/**
+ * Splits a line into words and operators.
+ * @throws {ShellSyntaxError} on unterminated quotes or unsupported operators
+ */
+const tokenize = (line: string): Token[] => {
+    const tokens: Token[] = [];
+    let word: Word | null = null;
+    let i = 0;
+
+    // Appends text to the current word, merging with a previous segment of the same quoting
+    const append = (text: string, quote: WordSegment['quote']) => {
+        word ??= [];
+        const last = word[word.length - 1];
+        if (last && last.quote === quote) last.text += text;
+        else word.push({ text, quote });
+    };
+    const endWord = () => {
+        if (word) tokens.push({ type: 'word', word });
+        word = null;
+    };
+
+    while (i < line.length) {
+        const ch = line[i];
+
+        if (/\s/.test(ch)) {
+            endWord();
+            i++;
+        } else if (ch === '#' && !word) {
+            // A comment runs to the end of the line
+            break;
+        } else if (ch === '\'') {
+            const end = line.indexOf('\'', i + 1);
+            if (end === -1) throw new ShellSyntaxError('unexpected EOF while looking for matching `\'\'');
+            append(line.slice(i + 1, end), 'single');
+            i = end + 1;
+        } else if (ch === '"') {
+            // Even "" is a word, so start the segment before reading
+            append('', 'double');
+            i++;
+            while (i < line.length && line[i] !== '"') {
+                // Inside double quotes a backslash only escapes a few characters;
+                // escaped ones are kept as literals so `\$` is never expanded
+                if (line[i] === '\\' && i + 1 < line.length && '"\\$`'.includes(line[i + 1])) {
+                    append(line[i + 1], 'single');
+                    i += 2;
+                } else {
+                    append(line[i++], 'double');
+                }
+            }
+            if (i >= line.length) throw new ShellSyntaxError('unexpected EOF while looking for matching `"\'');
+            i++;
+        } else if (ch === '\\') {
+            // An escaped character behaves like a single-quoted one
+            if (i + 1 < line.length) append(line[i + 1], 'single');
+            i += 2;
+        } else if (ch === '|' || ch === ';') {
+            endWord();
+            tokens.push({ type: 'op', op: ch });
+            i++;
+        } else if (ch === '&') {
+            if (line[i + 1] !== '&') throw new ShellSyntaxError('syntax error near unexpected token `&\'');
+            endWord();
+            tokens.push({ type: 'op', op: '&&' });
+            i += 2;
+        } else if (ch === '>') {
+            endWord();
+            const isAppend = line[i + 1] === '>';
+            tokens.push({ type: 'op', op: isAppend ? '>>' : '>' });
+            i += isAppend ? 2 : 1;
+        } else {
+            append(ch, null);
+            i++;
+        }
+    }
+    endWord();
+    return tokens;
+};
+
+/**
+ * Parses a command line into a script.
+ * An unquoted word in command position that names an alias is replaced by the
+ * alias text (which may contain operators). As in bash, an alias is not
+ * expanded again inside its own expansion.
+ * @param line - Raw input
+ * @param aliases - Alias definitions, by name
+ * @returns Steps in execution order (empty for blank input)
+ * @throws {ShellSyntaxError} if the line (or an alias it uses) is malformed
+ */
+export const parseScript = (line: string, aliases: Record<string, string> = {}): ScriptStep[] => {
+    const tokens = tokenize(line);
+    const steps: ScriptStep[] = [];
+    let connector: ScriptStep['connector'] = null;
+    let pipeline: Pipeline = [];
+    let command: SimpleCommand = { words: [] };
+
+    const unexpected = (token: string) => new ShellSyntaxError(`syntax error near unexpected token \`${token}'`);
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type === 'word') {
+            const [segment, ...rest] = token.word;
+            const name = segment.text;
+            if (!command.words.length && !rest.length && segment.quote === null
+                && Object.hasOwn(aliases, name) && !token.fromAliases?.includes(name)) {
+                const fromAliases = [...(token.fromAliases ?? []), name];
+                const expansion = tokenize(aliases[name]).map(t => t.type === 'word' ? { ...t, fromAliases } : t);
+                tokens.splice(i, 1, ...expansion);
+                i--;
+                continue;
+            }
+            command.words.push(token.word);
+            continue;
+        }
+
+        if (token.op === '>' || token.op === '>>') {
+            const target = tokens[i + 1];
+            if (target?.type !== 'word') throw unexpected(target?.type === 'op' ? target.op : 'newline');
+            command.redirect = { target: target.word, append: token.op === '>>' };
+            i++;
+            continue;
+        }
+
+        if (!command.words.length) throw unexpected(token.op);
+        pipeline.push(command);
+        command = { words: [] };
+
+        if (token.op !== '|') {
+            steps.push({ connector, pipeline });
+            connector = token.op;
+            pipeline = [];
+        }
+    }
+
+    if (command.words.length) {
+        pipeline.push(command);
+    } else if (pipeline.length || connector === '&&') {
+        // A dangling `|` or `&&` needs another command
+        throw unexpected('newline');
+    }
+    if (pipeline.length) steps.push({ connector, pipeline });
+    return steps;
+};
+
+/**
+ * Finds where the last command of a partly typed line starts: just after its
+ * last `|`, `;` or `&&` outside quotes, as the tokenizer splits them.
+ * @returns Index into the line (0 if the line is a single command)
+ */
+export const commandStart = (line: string) => {
+    let start = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++;
+            else if (ch === quote) quote = null;
+        } else if (ch === '\'' || ch === '"') {
+            quote = ch;
+        } else if (ch === '\\') {
+            i++;
+        } else if (ch === '|' || ch === ';') {
+            start = i + 1;
+        } else if (ch === '&' && line[i + 1] === '&') {
+            start = i + 2;
+            i++;
+        }
+    }
+    return start;
+};
+
+/**
+ * Flattens a word into plain text (quote removal).
+ */
+export const wordText = (word: Word) => word.map(segment => segment.text).join('');
+
+/** Matches `$NAME`, `${NAME}` and `$?`. */
+const VARIABLE_PATTERN = /\$(?:\{([A-Za-z_]\w*|\?)\}|([A-Za-z_]\w*|\?))/g;
+
+/**
+ * Expands variables in unquoted and double-quoted segments, then removes quotes.
+ * Unset variables expand to nothing; the result is not split into fields.
+ * @param word - Word as parsed
+ * @param lookup - Returns a variable's value, or undefined if it is unset
+ */
+export const expandWord = (word: Word, lookup: (name: string) => string | undefined) => word
+    .map(({ text, quote }) => quote === 'single'
+        ? text
+        : text.replace(VARIABLE_PATTERN, (_, braced: string | undefined, bare: string | undefined) => lookup(braced ?? bare ?? '') ?? ''))
+    .join('');
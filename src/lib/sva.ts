@@ -0,0 +1,390 @@
+/**
+ * @file sva.ts
+ * @description A small SystemVerilog Assertion checker over clocked samples.
+ * Supports boolean expressions with comparisons, `$rose`/`$fell`/`$stable`/
+ * `$changed`/`$past`/`$isunknown`, `##N` delays, the `|->` and `|=>`
+ * implications and `disable iff`. Properties are checked at every sample,
+ * as a concurrent assertion is attempted on every clock.
+ * @module Lib
+ * @author Mishat
+ */
+import { VerilogError, parseLiteral } from './verilog';
+
+/**
+ * A sampled signal value: a number, a string (ASCII buses), or null for x/z.
+ */
+export type SvaValue = number | string | null;
+
+/**
+ * Error raised for properties that cannot be parsed.
+ * `column` is 1-based within the property text.
+ */
+export class SvaError extends Error {
+    column: number;
+
+    constructor(message: string, column: number) {
+        super(message);
+        this.name = 'SvaError';
+        this.column = column;
+    }
+}
+
+interface Token {
+    kind: 'ident' | 'system' | 'number' | 'string' | 'op' | 'eof';
+    text: string;
+    /** Offsets of the token in the source */
+    start: number;
+    end: number;
+    value?: SvaValue;
+}
+
+/** Operators, longest first. */
+const OPERATORS = [
+    '|->', '|=>', '===', '!==', '##', '==', '!=', '<=', '>=', '&&', '||',
+    '<', '>', '!', '(', ')', ',', ':', ';', '@', '[', ']',
+];
+
+/**
+ * Splits a property into tokens.
+ * @throws {SvaError} on characters or literals it does not understand
+ */
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const rest = source.slice(i);
+        const space = /^\s+/.exec(rest);
+        if (space) {
+            i += space[0].length;
+            continue;
+        }
+        const word = /^\$?[A-Za-z_]\w*/.exec(rest);
+        const number = /^(\d[\d_]*)?\s*'\s*[sS]?[bodhBODH]\s*[0-9a-zA-Z_?]+|^\d[\d_]*/.exec(rest);
+        let token: Token;
+        if (word) {
+            token = { kind: word[0].startsWith('$') ? 'system' : 'ident', text: word[0], start: i, end: i + word[0].length };
+        } else if (number) {
+            let value: bigint;
+            try {
+                value = parseLiteral(number[0]);
+            } catch (err) {
+                if (!(err instanceof VerilogError)) throw err;
+                throw new SvaError(err.message, i + 1);
+            }
+            token = { kind: 'number', text: number[0], start: i, end: i + number[0].length, value: Number(value) };
+        } else if (rest[0] === '"') {
+            const end = source.indexOf('"', i + 1);
+            if (end === -1) throw new SvaError('unterminated string', i + 1);
+            token = { kind: 'string', text: source.slice(i, end + 1), start: i, end: end + 1, value: source.slice(i + 1, end) };
+        } else {
+            const op = OPERATORS.find(candidate => rest.startsWith(candidate));
+            if (!op) throw new SvaError(`unexpected character '${rest[0]}'`, i + 1);
+            token = { kind: 'op', text: op, start: i, end: i + op.length };
+        }
+        tokens.push(token);
+        i = token.end;
+    }
+    tokens.push({ kind: 'eof', text: '', start: source.length, end: source.length });
+    return tokens;
+};
+
+/**
+ * A boolean-layer expression.
+ */
+export type SvaExpr =
+    | { kind: 'const'; value: SvaValue }
+    | { kind: 'signal'; name: string }
+    | { kind: 'not'; operand: SvaExpr }
+    | { kind: 'logic'; op: '&&' | '||'; left: SvaExpr; right: SvaExpr }
+    | { kind: 'compare'; op: string; left: SvaExpr; right: SvaExpr }
+    | { kind: 'call'; fn: string; arg: SvaExpr; cycles: number };
+
+/**
+ * One step of a sequence: a boolean that must hold `delay` cycles after the
+ * previous step (`a ##2 b`).
+ */
+export interface SequenceStep {
+    delay: number;
+    expr: SvaExpr;
+    /** Source text, quoted when the step fails */
+    text: string;
+}
+
+/**
+ * A parsed assertion. Without an implication, `consequent` is the whole property.
+ */
+export interface Assertion {
+    label?: string;
+    source: string;
+    disable?: SvaExpr;
+    antecedent?: SequenceStep[];
+    /** `|=>`: the consequent starts the cycle after the antecedent ends */
+    nonOverlapping: boolean;
+    consequent: SequenceStep[];
+}
+
+/** System functions and how many arguments they take. */
+const SYSTEM_FUNCTIONS: Record<string, [number, number]> = {
+    $rose: [1, 1], $fell: [1, 1], $stable: [1, 1], $changed: [1, 1], $isunknown: [1, 1], $past: [1, 2],
+};
+
+const COMPARISONS = ['==', '!=', '===', '!==', '<', '<=', '>', '>='];
+
+/**
+ * Parses a property, optionally written as a full concurrent assertion:
+ * `label: assert property (@(posedge sys_clk) disable iff (!rst_n) a |-> ##1 b);`
+ * @param source - Property text (one line)
+ * @param signals - Names the property may refer to
+ * @param clock - The only clock `@(posedge ...)` may name
+ * @throws {SvaError} on syntax errors and unknown names
+ */
+export const parseAssertion = (source: string, signals: string[], clock: string): Assertion => {
+    const tokens = tokenize(source);
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const fail = (message: string, token = peek()): never => {
+        throw new SvaError(message, token.start + 1);
+    };
+    const describe = (token: Token) => token.kind === 'eof' ? 'end of property' : `'${token.text}'`;
+    const accept = (text: string) => {
+        if (peek().kind !== 'string' && peek().text === text) {
+            pos++;
+            return true;
+        }
+        return false;
+    };
+    const expect = (text: string) => {
+        if (!accept(text)) fail(`expected '${text}' but found ${describe(peek())}`);
+    };
+    const cycleCount = (what: string, min: number) => {
+        const token = peek();
+        if (token.text === '[') fail(`${what} ranges are not supported`);
+        if (token.kind !== 'number') fail(`expected a cycle count but found ${describe(token)}`);
+        if ((token.value as number) < min) fail(`${what} must be at least ${min}`);
+        pos++;
+        return token.value as number;
+    };
+
+    const parseOr = (): SvaExpr => {
+        let left = parseAnd();
+        while (accept('||')) left = { kind: 'logic', op: '||', left, right: parseAnd() };
+        return left;
+    };
+    const parseAnd = (): SvaExpr => {
+        let left = parseComparison();
+        while (accept('&&')) left = { kind: 'logic', op: '&&', left, right: parseComparison() };
+        return left;
+    };
+    const parseComparison = (): SvaExpr => {
+        const left = parseUnary();
+        const op = peek().text;
+        if (peek().kind !== 'op' || !COMPARISONS.includes(op)) return left;
+        pos++;
+        return { kind: 'compare', op, left, right: parseUnary() };
+    };
+    const parseUnary = (): SvaExpr => accept('!') ? { kind: 'not', operand: parseUnary() } : parsePrimary();
+    const parsePrimary = (): SvaExpr => {
+        const token = peek();
+        pos++;
+        if (token.kind === 'number' || token.kind === 'string') return { kind: 'const', value: token.value! };
+        if (token.kind === 'ident') {
+            if (token.text === clock) fail(`${clock} is the sampling clock and cannot be used in expressions`, token);
+            if (!signals.includes(token.text)) fail(`unknown signal '${token.text}'`, token);
+            return { kind: 'signal', name: token.text };
+        }
+        if (token.kind === 'system') {
+            const arity = SYSTEM_FUNCTIONS[token.text];
+            if (!arity) fail(`unknown system function '${token.text}'`, token);
+            expect('(');
+            const arg = parseOr();
+            let cycles = 1;
+            if (arity[1] > 1 && accept(',')) cycles = cycleCount(`${token.text} depth`, 1);
+            expect(')');
+            return { kind: 'call', fn: token.text, arg, cycles };
+        }
+        if (token.text === '(' && token.kind === 'op') {
+            const inner = parseOr();
+            expect(')');
+            return inner;
+        }
+        pos--;
+        return fail(`expected an expression but found ${describe(token)}`);
+    };
+
+    const parseSequence = (): SequenceStep[] => {
+        const steps: SequenceStep[] = [];
+        do {
+            const delay = accept('##') ? cycleCount('delay', 0) : 0;
+            const start = peek().start;
+            const expr = parseOr();
+            steps.push({ delay, expr, text: source.slice(start, tokens[pos - 1].end) });
+        } while (peek().text === '##');
+        return steps;
+    };
+
+    const parseProperty = (): Omit<Assertion, 'label' | 'source'> => {
+        if (accept('@')) {
+            expect('(');
+            expect('posedge');
+            if (peek().text !== clock) fail(`only posedge ${clock} is supported as the clock`);
+            pos++;
+            expect(')');
+        }
+        let disable: SvaExpr | undefined;
+        if (accept('disable')) {
+            expect('iff');
+            expect('(');
+            disable = parseOr();
+            expect(')');
+        }
+        const first = parseSequence();
+        if (accept('|->')) return { disable, antecedent: first, nonOverlapping: false, consequent: parseSequence() };
+        if (accept('|=>')) return { disable, antecedent: first, nonOverlapping: true, consequent: parseSequence() };
+        return { disable, nonOverlapping: false, consequent: first };
+    };
+
+    let label: string | undefined;
+    if (peek().kind === 'ident' && tokens[pos + 1].text === ':') {
+        label = peek().text;
+        pos += 2;
+    }
+    let property: Omit<Assertion, 'label' | 'source'>;
+    if (accept('assert')) {
+        expect('property');
+        expect('(');
+        property = parseProperty();
+        expect(')');
+    } else {
+        property = parseProperty();
+    }
+    accept(';');
+    if (peek().kind !== 'eof') fail(`unexpected ${describe(peek())}`);
+    return { label, source, ...property };
+};
+
+/** An unknown counts as false wherever a boolean is needed. */
+const isTrue = (value: SvaValue) => value !== null && value !== 0 && value !== '';
+
+/**
+ * Evaluates an expression at sample `t`. Samples before the first are unknown.
+ */
+const evaluate = (expr: SvaExpr, samples: Array<Record<string, SvaValue>>, t: number): SvaValue => {
+    switch (expr.kind) {
+        case 'const':
+            return expr.value;
+        case 'signal':
+            return t >= 0 ? samples[t][expr.name] : null;
+        case 'not': {
+            const value = evaluate(expr.operand, samples, t);
+            return value === null ? null : Number(!isTrue(value));
+        }
+        case 'logic': {
+            const left = evaluate(expr.left, samples, t);
+            const right = evaluate(expr.right, samples, t);
+            const known = (value: SvaValue) => value === null ? null : isTrue(value);
+            const [l, r] = [known(left), known(right)];
+            if (expr.op === '&&') return l === false || r === false ? 0 : l && r ? 1 : null;
+            return l === true || r === true ? 1 : l === false && r === false ? 0 : null;
+        }
+        case 'compare': {
+            const left = evaluate(expr.left, samples, t);
+            const right = evaluate(expr.right, samples, t);
+            // Case equality compares unknowns too; everything else is unknown if an operand is
+            if (expr.op === '===' || expr.op === '!==') return Number((left === right) === (expr.op === '==='));
+            if (left === null || right === null) return null;
+            if (expr.op === '==' || expr.op === '!=') return Number((left === right) === (expr.op === '=='));
+            if (typeof left !== typeof right) return null;
+            const results: Record<string, boolean> = { '<': left < right, '<=': left <= right, '>': left > right, '>=': left >= right };
+            return Number(results[expr.op]);
+        }
+        case 'call': {
+            const now = evaluate(expr.arg, samples, t);
+            const past = evaluate(expr.arg, samples, t - expr.cycles);
+            switch (expr.fn) {
+                case '$past': return past;
+                case '$isunknown': return Number(now === null);
+                case '$stable': return Number(now === past);
+                case '$changed': return Number(now !== past);
+                case '$rose': return Number(isTrue(now) && !isTrue(past));
+                default: return Number(now !== null && !isTrue(now) && past !== null && isTrue(past));
+            }
+        }
+    }
+};
+
+/**
+ * One evaluation of an assertion that matched its antecedent, started at
+ * sample `start` and resolved at sample `end`.
+ */
+export interface AssertionAttempt {
+    start: number;
+    end: number;
+    /** Text of the step that failed */
+    offending?: string;
+}
+
+/**
+ * Outcome of checking an assertion over a whole trace.
+ */
+export interface AssertionReport {
+    /** One attempt per sample */
+    attempts: number;
+    /** Attempts whose antecedent did not match */
+    vacuous: number;
+    /** Attempts cut short by `disable iff` */
+    disabled: number;
+    /** Attempts still running when the trace ended */
+    incomplete: number;
+    passes: AssertionAttempt[];
+    failures: AssertionAttempt[];
+}
+
+/**
+ * Checks an assertion, attempting it at every sample.
+ * @param assertion - Parsed assertion
+ * @param samples - Signal values at each clock
+ */
+export const checkAssertion = (assertion: Assertion, samples: Array<Record<string, SvaValue>>): AssertionReport => {
+    const report: AssertionReport = { attempts: samples.length, vacuous: 0, disabled: 0, incomplete: 0, passes: [], failures: [] };
+    const holds = (expr: SvaExpr, t: number) => isTrue(evaluate(expr, samples, t));
+
+    // Walks a sequence from sample t; returns the step that failed, if any, and where it ended
+    const walk = (steps: SequenceStep[], t: number): { end: number; failed?: SequenceStep } | null => {
+        for (const step of steps) {
+            t += step.delay;
+            if (t >= samples.length) return null;
+            if (!holds(step.expr, t)) return { end: t, failed: step };
+        }
+        return { end: t };
+    };
+
+    for (let start = 0; start < samples.length; start++) {
+        let t = start;
+        if (assertion.antecedent) {
+            const matched = walk(assertion.antecedent, start);
+            if (!matched) {
+                report.incomplete++;
+                continue;
+            }
+            if (matched.failed) {
+                report.vacuous++;
+                continue;
+            }
+            t = matched.end + (assertion.nonOverlapping ? 1 : 0);
+        }
+        const result = t < samples.length ? walk(assertion.consequent, t) : null;
+        if (!result) {
+            report.incomplete++;
+            continue;
+        }
+        const { disable } = assertion;
+        if (disable && Array.from({ length: result.end - start + 1 }, (_, i) => start + i).some(k => holds(disable, k))) {
+            report.disabled++;
+            continue;
+        }
+        if (result.failed) report.failures.push({ start, end: result.end, offending: result.failed.text });
+        else report.passes.push({ start, end: result.end });
+    }
+    return report;
+};
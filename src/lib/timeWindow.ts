@@ -0,0 +1,119 @@
+/**
+ * @file timeWindow.ts
+ * @description The visible time window of a waveform: zooming about an anchor,
+ * panning, keeping it inside the trace, and the grid ticks to label it with.
+ * Times are decimal years.
+ * @module Lib
+ * @author Mishat
+ */
+import { MONTH_NAMES } from './dates';
+
+/** A span of time, start inclusive. */
+export interface TimeWindow {
+    start: number;
+    end: number;
+}
+
+/** A grid line and its label. */
+export interface GridTick {
+    time: number;
+    label: string;
+}
+
+/**
+ * How a waveform's time axis is measured and labelled.
+ */
+export interface TimeAxis {
+    /** The whole dump; the view can't be zoomed or panned past it */
+    bounds: TimeWindow;
+    /** Narrowest view */
+    minSpan: number;
+    formatTime: (time: number) => string;
+    /** Formats the distance between two times, e.g. cursor deltas */
+    formatDelta: (delta: number) => string;
+    /** Grid lines for a view drawn `width` pixels wide */
+    ticks: (view: TimeWindow, width: number) => GridTick[];
+    /** Sorted times where any signal changes, for cursors to snap to */
+    edges: number[];
+}
+
+/**
+ * Grid units from coarsest to finest, each with its step in years and the
+ * name of the `index`th step of a year.
+ */
+const GRID_UNITS: Array<{ step: number; name: (index: number) => string }> = [
+    { step: 1, name: () => '' },
+    { step: 1 / 4, name: quarter => `Q${quarter + 1}` },
+    { step: 1 / 12, name: month => MONTH_NAMES[month] },
+];
+
+/**
+ * Moves and shrinks a window to fit inside `bounds`, keeping it at least `minSpan` wide.
+ */
+export const clampWindow = ({ start, end }: TimeWindow, bounds: TimeWindow, minSpan: number): TimeWindow => {
+    const span = Math.min(bounds.end - bounds.start, Math.max(minSpan, end - start));
+    const clampedStart = Math.max(bounds.start, Math.min(bounds.end - span, start));
+    return { start: clampedStart, end: clampedStart + span };
+};
+
+/**
+ * Scales a window about `anchor`, which stays at the same place on screen.
+ * @param factor - Below 1 zooms in, above 1 zooms out
+ */
+export const zoomWindow = (view: TimeWindow, factor: number, anchor: number, bounds: TimeWindow, minSpan: number) =>
+    clampWindow({
+        start: anchor - (anchor - view.start) * factor,
+        end: anchor + (view.end - anchor) * factor,
+    }, bounds, minSpan);
+
+/**
+ * Shifts a window by `delta` years, stopping at the bounds.
+ */
+export const panWindow = (view: TimeWindow, delta: number, bounds: TimeWindow, minSpan: number) =>
+    clampWindow({ start: view.start + delta, end: view.end + delta }, bounds, minSpan);
+
+/**
+ * Picks the finest grid unit (years, quarters or months) whose lines are at
+ * least `minSpacing` pixels apart, and lists its ticks inside the window.
+ * @param width - Width the window is drawn at, in pixels
+ */
+export const gridTicks = (view: TimeWindow, width: number, minSpacing: number): GridTick[] => {
+    const span = view.end - view.start;
+    const unit = [...GRID_UNITS].reverse().find(({ step }) => step / span * width >= minSpacing) ?? GRID_UNITS[0];
+    const perYear = Math.round(1 / unit.step);
+    const ticks: GridTick[] = [];
+    // Count in whole steps so ticks land exactly on the boundaries
+    for (let i = Math.ceil(view.start * perYear); i / perYear <= view.end; i++) {
+        const year = Math.floor(i / perYear);
+        const index = i - year * perYear;
+        // The year is spelled out where it starts, and on the first tick
+        const label = index && ticks.length ? unit.name(index) : `${unit.name(index)} ${year}`.trim();
+        ticks.push({ time: i / perYear, label });
+    }
+    return ticks;
+};
+
+/**
+ * Lists grid ticks on a plain numeric axis, at whole multiples of 1, 2 or 5
+ * times a power of ten, at least `minSpacing` pixels apart.
+ * @param width - Width the window is drawn at, in pixels
+ * @param format - Labels a tick's time
+ */
+export const numericTicks = (view: TimeWindow, width: number, minSpacing: number, format: (time: number) => string): GridTick[] => {
+    const span = view.end - view.start;
+    const minStep = Math.max(1, (span * minSpacing) / Math.max(1, width));
+    const power = 10 ** Math.floor(Math.log10(minStep));
+    const step = [1, 2, 5, 10].map(m => m * power).find(candidate => candidate >= minStep)!;
+    const ticks: GridTick[] = [];
+    for (let i = Math.ceil(view.start / step); i * step <= view.end; i++) ticks.push({ time: i * step, label: format(i * step) });
+    return ticks;
+};
+
+/**
+ * Snaps a time to the nearest of `edges` within `tolerance`, as a wave viewer
+ * snaps its cursor to transitions.
+ */
+export const snapToEdge = (time: number, edges: number[], tolerance: number) => {
+    const nearest = edges.reduce((best, edge) => Math.abs(edge - time) < Math.abs(best - time) ? edge : best, Infinity);
+    return Math.abs(nearest - time) <= tolerance ? nearest : time;
+};
@@ -0,0 +1,253 @@
+/**
+ * @file uvmSim.ts
+ * @description A pretend UVM regression engine for the Terminal's `run_test` and `regress`.
+ * Generates a plausible, seed-reproducible simulation log: the same test and
+ * `+ntb_random_seed` always produce the same messages, timestamps and verdict.
+ * @module Lib
+ * @author Mishat
+ */
+
+/** UVM report severities, in increasing order of badness. */
+export type Severity = 'UVM_INFO' | 'UVM_WARNING' | 'UVM_ERROR' | 'UVM_FATAL';
+
+/** UVM verbosity levels accepted by `+UVM_VERBOSITY`. */
+export const VERBOSITIES = ['UVM_LOW', 'UVM_MEDIUM', 'UVM_HIGH'] as const;
+export type Verbosity = typeof VERBOSITIES[number];
+
+/**
+ * Static description of a test in the catalog.
+ */
+interface TestProfile {
+    /** Sequences started by the test, in order */
+    sequences: string[];
+    /** Inclusive range of transactions per sequence */
+    transactions: [number, number];
+    /** Chance per transaction of a warning */
+    warnRate: number;
+    /** Chance per transaction of a scoreboard mismatch */
+    errorRate: number;
+}
+
+/**
+ * The tests `run_test` and `regress` know about.
+ */
+export const UVM_TESTS: Record<string, TestProfile> = {
+    'test_soc_boot': {
+        sequences: ['boot_rom_seq', 'pll_lock_seq', 'irq_wait_seq'],
+        transactions: [3, 6], warnRate: 0.04, errorRate: 0.005,
+    },
+    'test_reg_access': {
+        sequences: ['reg_reset_seq', 'reg_bit_bash_seq'],
+        transactions: [6, 10], warnRate: 0.02, errorRate: 0.004,
+    },
+    'test_eth_loopback': {
+        sequences: ['eth_link_up_seq', 'eth_rand_frame_seq', 'eth_flow_ctrl_seq'],
+        transactions: [5, 9], warnRate: 0.06, errorRate: 0.01,
+    },
+    'test_comphy_link_training': {
+        sequences: ['comphy_cdr_lock_seq', 'comphy_eq_train_seq', 'comphy_prbs31_seq'],
+        transactions: [4, 8], warnRate: 0.08, errorRate: 0.015,
+    },
+    'test_ai_noc_traffic': {
+        sequences: ['noc_credit_init_seq', 'noc_all2all_seq', 'noc_congestion_seq'],
+        transactions: [6, 12], warnRate: 0.05, errorRate: 0.012,
+    },
+};
+
+export const DEFAULT_TEST = 'test_soc_boot';
+
+/**
+ * Options decoded from simulator plusargs.
+ */
+export interface SimOptions {
+    test: string;
+    seed: number;
+    /** True if the seed was picked automatically (no `+ntb_random_seed`) */
+    autoSeed: boolean;
+    verbosity: Verbosity;
+}
+
+/**
+ * Error raised for plusargs the simulator does not accept.
+ */
+export class PlusargError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PlusargError';
+    }
+}
+
+/**
+ * Picks a fresh 31-bit seed, like a simulator's automatic seeding.
+ */
+export const randomSeed = () => Math.floor(Math.random() * 0x7fffffff);
+
+/**
+ * Parses `+UVM_TESTNAME=`, `+ntb_random_seed=` and `+UVM_VERBOSITY=` plusargs.
+ * A bare word is accepted as the test name for convenience.
+ * @param args - Command-line words
+ * @param defaultTest - Test to run when none is named
+ * @throws {PlusargError} for unknown tests, malformed seeds or unknown options
+ */
+export const parsePlusargs = (args: string[], defaultTest = DEFAULT_TEST): SimOptions => {
+    const options: SimOptions = { test: defaultTest, seed: 0, autoSeed: true, verbosity: 'UVM_MEDIUM' };
+
+    for (const arg of args) {
+        const match = /^\+([A-Za-z_]+)=(.*)$/.exec(arg);
+        const [key, value] = match ? [match[1], match[2]] : ['UVM_TESTNAME', arg];
+
+        if (key === 'UVM_TESTNAME') {
+            if (!Object.hasOwn(UVM_TESTS, value)) throw new PlusargError(`UVM_FATAL @ 0: reporter [INVTST] Requested test from command line +UVM_TESTNAME=${value} not found.`);
+            options.test = value;
+        } else if (key === 'ntb_random_seed') {
+            if (!/^\d+$/.test(value)) throw new PlusargError(`Error: invalid seed '${value}' for +ntb_random_seed`);
+            options.seed = Number(value) >>> 0;
+            options.autoSeed = false;
+        } else if (key === 'UVM_VERBOSITY') {
+            const verbosity = VERBOSITIES.find(v => v === value.toUpperCase());
+            if (!verbosity) throw new PlusargError(`Error: unknown verbosity '${value}' (expected ${VERBOSITIES.join(', ')})`);
+            options.verbosity = verbosity;
+        } else {
+            throw new PlusargError(`Error: unrecognized plusarg '${arg}'`);
+        }
+    }
+
+    if (options.autoSeed) options.seed = randomSeed();
+    return options;
+};
+
+/**
+ * Small, fast seeded PRNG (mulberry32).
+ * @returns A function yielding floats in [0, 1)
+ */
+export const createRng = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * One line of simulator output.
+ */
+export interface SimLine {
+    text: string;
+    /** Severity of UVM report lines; null for simulator chatter */
+    severity: Severity | null;
+}
+
+/**
+ * Complete, precomputed outcome of one test run.
+ */
+export interface SimRun {
+    options: SimOptions;
+    /** Log lines up to the end of the run phase, in order */
+    lines: SimLine[];
+    /** Simulation time of each line, in ns (parallel to `lines`) */
+    times: number[];
+    /** Report counts by severity */
+    counts: Record<Severity, number>;
+    /** Report counts by message id */
+    ids: Record<string, number>;
+    /** Final simulation time in ns */
+    endTime: number;
+    /** Functional coverage percentage reached */
+    coverage: number;
+    passed: boolean;
+}
+
+const VERBOSITY_RANK: Record<Verbosity, number> = { UVM_LOW: 0, UVM_MEDIUM: 1, UVM_HIGH: 2 };
+
+/**
+ * Formats a 32-bit value as a Verilog-style hex literal with a digit separator.
+ */
+const hex32 = (value: number) => {
+    const digits = (value >>> 0).toString(16).toUpperCase().padStart(8, '0');
+    return `0x${digits.slice(0, 4)}_${digits.slice(4)}`;
+};
+
+/**
+ * Runs a test to completion and returns everything it would print.
+ * The result depends only on the test name and the seed.
+ */
+export const simulate = (options: SimOptions): SimRun => {
+    const profile = UVM_TESTS[options.test];
+    const rng = createRng(options.seed);
+    const randInt = (min: number, max: number) => min + Math.floor(rng() * (max - min + 1));
+
+    const run: SimRun = {
+        options, lines: [], times: [],
+        counts: { UVM_INFO: 0, UVM_WARNING: 0, UVM_ERROR: 0, UVM_FATAL: 0 },
+        ids: {}, endTime: 0, coverage: 0, passed: true,
+    };
+    let time = 0;
+
+    const emit = (text: string) => {
+        run.lines.push({ text, severity: null });
+        run.times.push(time);
+    };
+    const report = (severity: Severity, context: string, id: string, message: string, verbosity: Verbosity = 'UVM_LOW') => {
+        run.counts[severity]++;
+        run.ids[id] = (run.ids[id] ?? 0) + 1;
+        // Warnings and errors are never filtered by verbosity
+        if (severity === 'UVM_INFO' && VERBOSITY_RANK[verbosity] > VERBOSITY_RANK[options.verbosity]) return;
+        run.lines.push({ text: `${severity} @ ${time}ns: ${context} [${id}] ${message}`, severity });
+        run.times.push(time);
+    };
+
+    emit(`Starting simulation: +UVM_TESTNAME=${options.test} +ntb_random_seed=${options.seed}`);
+    if (options.autoSeed) emit(`NOTE: automatic random seed used: ${options.seed}`);
+    report('UVM_INFO', 'reporter', 'RNTST', `Running test ${options.test}...`);
+    report('UVM_INFO', 'uvm_test_top', 'PHASE', 'build_phase / connect_phase complete', 'UVM_MEDIUM');
+
+    for (const sequence of profile.sequences) {
+        const sequencer = `uvm_test_top.env.agent.sequencer@@${sequence}`;
+        time += randInt(20, 120);
+        report('UVM_INFO', sequencer, 'SEQ', 'Starting sequence', 'UVM_MEDIUM');
+
+        const count = randInt(...profile.transactions);
+        for (let i = 0; i < count; i++) {
+            time += randInt(10, 250);
+            const addr = hex32(0x4000_0000 + randInt(0, 0xffff) * 4);
+            const data = hex32(Math.floor(rng() * 0xffffffff));
+            report('UVM_INFO', 'uvm_test_top.env.agent.driver', 'DRV', `txn #${i} addr=${addr} data=${data}`, 'UVM_HIGH');
+
+            if (rng() < profile.errorRate) {
+                const actual = hex32(Math.floor(rng() * 0xffffffff));
+                report('UVM_ERROR', 'uvm_test_top.env.scb', 'SCB', `Data mismatch @ ${addr}: exp=${data} act=${actual}`);
+            } else if (rng() < profile.warnRate) {
+                report('UVM_WARNING', 'uvm_test_top.env.scb', 'LATENCY', `Late response (latency ${randInt(257, 400)}ns > 256ns)`);
+            }
+        }
+        report('UVM_INFO', sequencer, 'SEQ', `Sequence done (${count} transactions)`, 'UVM_MEDIUM');
+    }
+
+    time += randInt(50, 200);
+    report('UVM_INFO', 'reporter', 'TEST_DONE', "'run' phase is ready to proceed to the 'extract' phase");
+
+    run.endTime = time;
+    run.passed = run.counts.UVM_ERROR === 0 && run.counts.UVM_FATAL === 0;
+    run.coverage = Math.round((run.passed ? 92 + rng() * 8 : 60 + rng() * 30) * 10) / 10;
+    return run;
+};
+
+/**
+ * Formats the end-of-test UVM report summary and `$finish` banner.
+ */
+export const formatSummary = (run: SimRun): string[] => [
+    '',
+    '--- UVM Report Summary ---',
+    '',
+    '** Report counts by severity',
+    ...(Object.keys(run.counts) as Severity[]).map(severity => `${severity} : ${String(run.counts[severity]).padStart(4)}`),
+    '** Report counts by id',
+    ...Object.entries(run.ids).map(([id, count]) => `[${id}] ${String(count).padStart(4)}`),
+    '',
+    run.passed ? `TEST PASSED (Coverage: ${run.coverage}%)` : `TEST FAILED (${run.counts.UVM_ERROR} UVM_ERROR)`,
+    '$finish called from file "uvm_root.svh", line 527.',
+    `$finish at simulation time ${run.endTime}ns`,
+];
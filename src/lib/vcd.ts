@@ -0,0 +1,391 @@
+/**
+ * @file vcd.ts
+ * @description Writer and reader for IEEE 1364 Value Change Dump (VCD) files.
+ * The writer takes a scope tree of variables with their value changes and
+ * produces a four-state dump that GTKWave, Verdi and friends can open; the
+ * reader turns a dump back into signals with their changes.
+ * @module Lib
+ * @author Mishat
+ */
+import { bitsToHex } from './radix';
+
+/**
+ * A dumped variable and its value history.
+ * Scalar values are one of `0 1 x z`; vector values are binary strings
+ * (`0 1 x z` digits, most significant first) of at most `width` digits.
+ */
+export interface VcdVar {
+    name: string;
+    /** Bit width; vectors get a `[width-1:0]` range in the header */
+    width: number;
+    /** Net type declared in the header */
+    type?: 'wire' | 'reg';
+    /** Value changes as [time, value] pairs, sorted by time */
+    changes: Array<[number, string]>;
+}
+
+/**
+ * A `$scope module` and its contents.
+ */
+export interface VcdScope {
+    name: string;
+    vars: VcdVar[];
+    scopes?: VcdScope[];
+}
+
+/**
+ * Everything needed to write one dump.
+ */
+export interface VcdDocument {
+    /** `$date` text */
+    date: string;
+    /** `$version` text */
+    version: string;
+    /** Optional `$comment` text */
+    comment?: string;
+    /** `$timescale`, e.g. `1 ns` */
+    timescale: string;
+    scope: VcdScope;
+    /** Last simulation time; a final timestamp is written if it is past the last change */
+    endTime?: number;
+}
+
+/**
+ * Error raised for variables that cannot be represented in a dump, or a dump
+ * that cannot be read.
+ */
+export class VcdError extends Error {
+    /** 1-based line of the dump, for read errors */
+    line?: number;
+    /** The message without the line number */
+    detail: string;
+
+    constructor(message: string, line?: number) {
+        super(line === undefined ? message : `line ${line}: ${message}`);
+        this.name = 'VcdError';
+        this.line = line;
+        this.detail = message;
+    }
+}
+
+/**
+ * Creates the short identifier code for the n-th variable (printable ASCII `!` to `~`).
+ */
+const identifier = (index: number) => {
+    let code = '';
+    let n = index;
+    do {
+        code += String.fromCharCode(33 + (n % 94));
+        n = Math.floor(n / 94) - 1;
+    } while (n >= 0);
+    return code;
+};
+
+/**
+ * Formats one value change line for a variable.
+ */
+const formatChange = (v: VcdVar, id: string, value: string) => {
+    if (!/^[01xz]+$/.test(value) || value.length > v.width) {
+        throw new VcdError(`invalid value '${value}' for ${v.name} (width ${v.width})`);
+    }
+    if (v.width === 1) return `${value}${id}`;
+    // Values are left-extended by the reader, so leading zeros can be dropped,
+    // but not before an x or z digit, which would be extended with x or z instead
+    return `b${value.replace(/^0+(?=[01])/, '')} ${id}`;
+};
+
+/**
+ * Encodes text as a packed ASCII vector, first character in the most significant byte.
+ * Text too long for the vector is truncated.
+ * @param text - Characters to encode (non-ASCII becomes `?`)
+ * @param width - Vector width in bits (a multiple of 8)
+ */
+export const encodeAscii = (text: string, width: number) => [...text.slice(0, width / 8)]
+    .map(ch => (ch.charCodeAt(0) < 128 ? ch.charCodeAt(0) : 63).toString(2).padStart(8, '0'))
+    .join('')
+    .padStart(width, '0');
+
+/**
+ * Encodes an unsigned number as a binary string of the given width.
+ */
+export const encodeUnsigned = (value: number, width: number) => (value >>> 0).toString(2).padStart(width, '0').slice(-width);
+
+/**
+ * Serialises a dump. Every variable gets an initial value in `$dumpvars`
+ * (`x` if it has no change at time 0) and changes are grouped by timestamp.
+ * @throws {VcdError} for bad widths, unsorted changes or malformed values
+ */
+export const writeVcd = (doc: VcdDocument): string => {
+    const header: string[] = [
+        '$date', `    ${doc.date}`, '$end',
+        '$version', `    ${doc.version}`, '$end',
+    ];
+    if (doc.comment) header.push('$comment', ...doc.comment.split('\n').map(line => `    ${line}`), '$end');
+    header.push(`$timescale ${doc.timescale} $end`);
+
+    const vars: Array<{ v: VcdVar; id: string }> = [];
+    const declare = (scope: VcdScope) => {
+        header.push(`$scope module ${scope.name} $end`);
+        for (const v of scope.vars) {
+            if (!Number.isInteger(v.width) || v.width < 1) throw new VcdError(`invalid width ${v.width} for ${v.name}`);
+            const id = identifier(vars.length);
+            vars.push({ v, id });
+            const range = v.width > 1 ? ` [${v.width - 1}:0]` : '';
+            header.push(`$var ${v.type ?? 'wire'} ${v.width} ${id} ${v.name}${range} $end`);
+        }
+        scope.scopes?.forEach(declare);
+        header.push('$upscope $end');
+    };
+    declare(doc.scope);
+    header.push('$enddefinitions $end');
+
+    // Initial values, then later changes bucketed by time
+    const initial: string[] = [];
+    const byTime = new Map<number, string[]>();
+    for (const { v, id } of vars) {
+        let last = -1;
+        let hasInitial = false;
+        for (const [time, value] of v.changes) {
+            if (!Number.isInteger(time) || time < 0 || time < last) throw new VcdError(`changes for ${v.name} must have sorted, non-negative integer times`);
+            last = time;
+            if (time === 0) {
+                // A later change at time 0 overrides the initial value
+                if (hasInitial) initial.pop();
+                initial.push(formatChange(v, id, value));
+                hasInitial = true;
+            } else {
+                if (!byTime.has(time)) byTime.set(time, []);
+                byTime.get(time)!.push(formatChange(v, id, value));
+            }
+        }
+        if (!hasInitial) initial.push(formatChange(v, id, 'x'));
+    }
+
+    const body = ['#0', '$dumpvars', ...initial, '$end'];
+    const times = [...byTime.keys()].sort((a, b) => a - b);
+    for (const time of times) body.push(`#${time}`, ...byTime.get(time)!);
+    if (doc.endTime !== undefined && doc.endTime > (times[times.length - 1] ?? 0)) body.push(`#${doc.endTime}`);
+
+    return [...header, ...body, ''].join('\n');
+};
+
+/** Units a `$timescale` may use, finest last. */
+const TIME_UNITS = ['s', 'ms', 'us', 'ns', 'ps', 'fs'] as const;
+
+/**
+ * A dump's time unit: `magnitude` (1, 10 or 100) of `unit`.
+ */
+export interface VcdTimescale {
+    magnitude: number;
+    unit: typeof TIME_UNITS[number];
+}
+
+/**
+ * A variable read from a dump.
+ * Values are as in VcdVar, left-extended to the full width; `real`
+ * variables hold decimal text instead.
+ */
+export interface VcdSignal {
+    /** Identifier code; variables sharing one share their changes */
+    id: string;
+    /** Reference as declared, with its range, e.g. `count [7:0]` */
+    name: string;
+    /** Names of the enclosing scopes, outermost first */
+    scope: string[];
+    /** Declared `$var` type, e.g. `wire`, `reg`, `integer` or `real` */
+    type: string;
+    width: number;
+    /** [time, value] pairs sorted by time, one per time at most */
+    changes: Array<[number, string]>;
+}
+
+/**
+ * The contents of a dump.
+ */
+export interface VcdDump {
+    date?: string;
+    version?: string;
+    timescale: VcdTimescale;
+    signals: VcdSignal[];
+    /** Last timestamp in the dump */
+    endTime: number;
+}
+
+/** Keywords whose text runs to `$end` and is kept as metadata or skipped. */
+const TEXT_SECTIONS = new Set(['$date', '$version', '$comment']);
+
+/** Simulation commands that only bracket value changes. */
+const DUMP_COMMANDS = new Set(['$dumpvars', '$dumpall', '$dumpon', '$dumpoff', '$end']);
+
+/**
+ * Left-extends a vector value to `width` digits as a reader must: with `0`,
+ * or with the leading digit when that is `x` or `z`. Extra high digits are dropped.
+ */
+const extendVector = (digits: string, width: number) => {
+    if (digits.length >= width) return digits.slice(-width);
+    const fill = digits[0] === 'x' || digits[0] === 'z' ? digits[0] : '0';
+    return digits.padStart(width, fill);
+};
+
+/**
+ * Parses a `$timescale` such as `1ns` or `10 ps`.
+ */
+const parseTimescale = (text: string, line: number): VcdTimescale => {
+    const match = /^(1|10|100)\s*(s|ms|us|ns|ps|fs)$/.exec(text.trim());
+    if (!match) throw new VcdError(`invalid timescale '${text.trim()}'`, line);
+    return { magnitude: Number(match[1]), unit: match[2] as VcdTimescale['unit'] };
+};
+
+/**
+ * Reads a dump: header sections, the `$scope`/`$var` declarations and the
+ * value changes. Unknown header sections are skipped, as readers are meant to.
+ * @throws {VcdError} with the line of the first malformed construct
+ */
+export const parseVcd = (text: string): VcdDump => {
+    const tokens = text.matchAll(/\S+/g);
+    let offset = 0;
+    let lineCount = 1;
+    // Line of the token at `index`, counted incrementally as tokens only move forward
+    const lineAt = (index: number) => {
+        for (; offset < index; offset++) if (text.charCodeAt(offset) === 10) lineCount++;
+        return lineCount;
+    };
+    let current: RegExpExecArray | RegExpMatchArray | undefined;
+    const next = () => {
+        const result = tokens.next();
+        current = result.done ? undefined : result.value;
+        return current?.[0];
+    };
+    const here = () => lineAt(current?.index ?? text.length);
+    /** Collects the words up to `$end`. */
+    const untilEnd = (keyword: string) => {
+        const words: string[] = [];
+        for (let word = next(); word !== '$end'; word = next()) {
+            if (word === undefined) throw new VcdError(`${keyword} is missing its $end`, here());
+            words.push(word);
+        }
+        return words;
+    };
+
+    const dump: VcdDump = { timescale: { magnitude: 1, unit: 's' }, signals: [], endTime: 0 };
+    const scopes: string[] = [];
+    const byId = new Map<string, Array<[number, string]>>();
+    const widths = new Map<string, number>();
+    let hasTimescale = false;
+
+    // Declarations
+    for (let word = next(); word !== '$enddefinitions'; word = next()) {
+        if (word === undefined) throw new VcdError('no $enddefinitions', here());
+        const line = here();
+        if (TEXT_SECTIONS.has(word)) {
+            const body = untilEnd(word).join(' ');
+            if (word === '$date') dump.date = body;
+            if (word === '$version') dump.version = body;
+        } else if (word === '$timescale') {
+            dump.timescale = parseTimescale(untilEnd(word).join(''), line);
+            hasTimescale = true;
+        } else if (word === '$scope') {
+            const [, name] = untilEnd(word);
+            if (name === undefined) throw new VcdError('$scope needs a type and a name', line);
+            scopes.push(name);
+        } else if (word === '$upscope') {
+            untilEnd(word);
+            if (!scopes.pop()) throw new VcdError('$upscope without a $scope', line);
+        } else if (word === '$var') {
+            const [type, size, id, ...reference] = untilEnd(word);
+            const width = Number(size);
+            if (!reference.length || !Number.isInteger(width) || width < 1) {
+                throw new VcdError('$var needs a type, a size, an identifier and a reference', line);
+            }
+            if (!byId.has(id)) {
+                byId.set(id, []);
+                widths.set(id, type === 'real' ? 0 : width);
+            }
+            dump.signals.push({ id, name: reference.join(' '), scope: [...scopes], type, width, changes: byId.get(id)! });
+        } else if (word.startsWith('$')) {
+            // Sections this reader has no use for, e.g. $attrbegin
+            untilEnd(word);
+        } else {
+            throw new VcdError(`unexpected '${word}' in the header`, line);
+        }
+    }
+    untilEnd('$enddefinitions');
+    if (!hasTimescale) dump.timescale = { magnitude: 1, unit: 'ns' };
+
+    // Value changes
+    let time = 0;
+    const change = (id: string, value: string) => {
+        const changes = byId.get(id);
+        if (!changes) throw new VcdError(`unknown identifier '${id}'`, here());
+        // Only the last change at a time counts
+        if (changes[changes.length - 1]?.[0] === time) changes.pop();
+        changes.push([time, value]);
+    };
+    for (let word = next(); word !== undefined; word = next()) {
+        const head = word[0];
+        if (head === '#') {
+            const stamp = Number(word.slice(1));
+            if (!Number.isSafeInteger(stamp) || stamp < time) throw new VcdError(`invalid timestamp '${word}'`, here());
+            time = stamp;
+        } else if (word === '$comment') {
+            untilEnd(word);
+        } else if (DUMP_COMMANDS.has(word)) {
+            continue;
+        } else if (/^[01xXzZ]/.test(word)) {
+            change(word.slice(1), word[0].toLowerCase());
+        } else if (head === 'b' || head === 'B' || head === 'r' || head === 'R') {
+            const value = word.slice(1).toLowerCase();
+            const id = next();
+            if (id === undefined) throw new VcdError(`'${word}' is missing an identifier`, here());
+            const width = widths.get(id);
+            if (head === 'r' || head === 'R') {
+                if (Number.isNaN(Number(value))) throw new VcdError(`invalid real value '${word}'`, here());
+                change(id, value);
+            } else {
+                if (!/^[01xz]+$/.test(value)) throw new VcdError(`invalid vector value '${word}'`, here());
+                change(id, width ? extendVector(value, width) : value);
+            }
+        } else {
+            throw new VcdError(`unexpected '${word}'`, here());
+        }
+    }
+    dump.endTime = time;
+    return dump;
+};
+
+/**
+ * Index of the change in effect at a time (the last at or before it), or -1.
+ */
+export const changeIndexAt = (changes: Array<[number, string]>, time: number) => {
+    let lo = 0;
+    let hi = changes.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (changes[mid][0] <= time) lo = mid + 1;
+        else hi = mid - 1;
+    }
+    return hi;
+};
+
+/**
+ * Finds a signal's value at a time: that of its last change at or before it.
+ * @returns The value, or undefined before the first change
+ */
+export const valueAt = (changes: Array<[number, string]>, time: number) => changes[changeIndexAt(changes, time)]?.[1];
+
+/**
+ * Formats a value for display: scalars and reals as they are, vectors in hex.
+ * A hex digit covering any `x` bits is `x`; one covering only `z` bits is `z`.
+ */
+export const formatVcdValue = (value: string, signal: Pick<VcdSignal, 'type' | 'width'>) => {
+    if (signal.type === 'real' || signal.width === 1) return value;
+    return bitsToHex(value);
+};
+
+/**
+ * Formats a time in dump units with the timescale's unit, e.g. `1250 ns`.
+ */
+export const formatVcdTime = (time: number, { magnitude, unit }: VcdTimescale) => {
+    const scaled = time * magnitude;
+    return `${Number.isInteger(scaled) ? scaled : scaled.toFixed(1)} ${unit}`;
+};
@@ -0,0 +1,17 @@
+/**
+ * @file vcd.worker.ts
+ * @description Web Worker that parses a VCD off the main thread (see loadVcd).
+ * Receives the dump text and posts back the parsed dump or the error's message and line.
+ * @module Lib
+ * @author Mishat
+ */
+import { VcdError, parseVcd } from './vcd';
+
+self.onmessage = (e: MessageEvent<string>) => {
+    try {
+        self.postMessage({ dump: parseVcd(e.data) });
+    } catch (err) {
+        if (!(err instanceof VcdError)) throw err;
+        self.postMessage({ error: err.detail, line: err.line });
+    }
+};
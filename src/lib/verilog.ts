@@ -0,0 +1,770 @@
+/**
+ * @file verilog.ts
+ * @description A tiny two-state simulator for a synthesizable Verilog subset:
+ * `input`/`output`/`wire` declarations and continuous `assign` statements,
+ * optionally wrapped in a module. Expressions follow the IEEE 1364 operator
+ * precedence and expression-width rules, with all values unsigned.
+ * @module Lib
+ * @author Mishat
+ */
+
+/** A 1-based line and column in the source text. */
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+/**
+ * Error raised for source the simulator cannot parse or elaborate.
+ * Carries the position of the offending token.
+ */
+export class VerilogError extends Error {
+    line: number;
+    column: number;
+
+    constructor(message: string, position: SourcePosition) {
+        super(message);
+        this.name = 'VerilogError';
+        this.line = position.line;
+        this.column = position.column;
+    }
+}
+
+/** Display radixes for simulated values. */
+export const RADIXES = ['bin', 'oct', 'dec', 'hex'] as const;
+export type Radix = typeof RADIXES[number];
+
+/** Widest expression the simulator will evaluate, in bits. */
+const MAX_WIDTH = 4096;
+
+/** Width of unsized literals such as `12` or `'hff`. */
+const INTEGER_WIDTH = 32;
+
+/** Keywords of the supported subset. */
+const KEYWORDS = new Set(['module', 'endmodule', 'input', 'output', 'wire', 'assign']);
+
+/** Verilog keywords outside the subset; using one gets a specific error. */
+const UNSUPPORTED_KEYWORDS = new Set([
+    'reg', 'integer', 'logic', 'inout', 'tri', 'supply0', 'supply1', 'signed', 'parameter', 'localparam',
+    'always', 'always_comb', 'always_ff', 'initial', 'begin', 'end', 'if', 'else', 'case', 'endcase',
+    'function', 'endfunction', 'task', 'endtask', 'generate', 'endgenerate', 'genvar', 'for',
+]);
+
+/** Operators, longest first so the lexer matches greedily. */
+const OPERATORS = [
+    '===', '!==', '<<<', '>>>',
+    '~&', '~|', '~^', '^~', '==', '!=', '&&', '||', '<=', '>=', '<<', '>>', '**',
+    '+', '-', '*', '/', '%', '&', '|', '^', '~', '!', '<', '>', '?', ':', '(', ')', '[', ']', '{', '}', ',', ';', '=',
+    // Not used by the subset, but lexed so the parser can say what it did not expect
+    '@', '#', '.', '$',
+];
+
+interface Token extends SourcePosition {
+    kind: 'ident' | 'keyword' | 'number' | 'op' | 'eof';
+    text: string;
+    /** Value and bit width of number tokens */
+    value?: bigint;
+    width?: number;
+}
+
+/** Digits allowed by each literal base. */
+const BASE_DIGITS: Record<string, { radix: number; digits: RegExp }> = {
+    b: { radix: 2, digits: /^[01]+$/ },
+    o: { radix: 8, digits: /^[0-7]+$/ },
+    d: { radix: 10, digits: /^[0-9]+$/ },
+    h: { radix: 16, digits: /^[0-9a-f]+$/ },
+};
+
+const mask = (width: number) => (1n << BigInt(width)) - 1n;
+
+/**
+ * Converts a digit string to a BigInt in the given radix.
+ */
+const parseDigits = (digits: string, radix: number) =>
+    [...digits].reduce((value, digit) => value * BigInt(radix) + BigInt(parseInt(digit, radix)), 0n);
+
+/**
+ * Splits source text into tokens, skipping whitespace, comments and
+ * compiler directives (`` `timescale `` etc.).
+ * @throws {VerilogError} on characters or literals it does not understand
+ */
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    let line = 1;
+    let lineStart = 0;
+    const position = (at = i): SourcePosition => ({ line, column: at - lineStart + 1 });
+    const skipTo = (end: number) => {
+        for (; i < end; i++) {
+            if (source[i] === '\n') {
+                line++;
+                lineStart = i + 1;
+            }
+        }
+    };
+
+    while (i < source.length) {
+        const ch = source[i];
+        const rest = source.slice(i);
+
+        if (/\s/.test(ch)) {
+            skipTo(i + 1);
+        } else if (rest.startsWith('//') || ch === '`') {
+            const end = source.indexOf('\n', i);
+            skipTo(end === -1 ? source.length : end);
+        } else if (rest.startsWith('/*')) {
+            const end = source.indexOf('*/', i + 2);
+            if (end === -1) throw new VerilogError('unterminated comment', position());
+            skipTo(end + 2);
+        } else if (/[A-Za-z_]/.test(ch)) {
+            const text = /^[A-Za-z_][\w$]*/.exec(rest)![0];
+            const kind = KEYWORDS.has(text) || UNSUPPORTED_KEYWORDS.has(text) ? 'keyword' : 'ident';
+            tokens.push({ kind, text, ...position() });
+            skipTo(i + text.length);
+        } else if (/[0-9']/.test(ch)) {
+            // [size]'[base]digits, with optional spaces around the base, or a plain decimal
+            const match = /^(\d[\d_]*)?(\s*'\s*([sS]?)([bodhBODH])\s*([0-9a-zA-Z_?]+))?/.exec(rest)!;
+            const [text, size, based, signed, base, digits] = match;
+            const start = position();
+            if (!text) throw new VerilogError(`unexpected character '${ch}'`, start);
+            if (signed) throw new VerilogError('signed literals are not supported (values are unsigned)', start);
+
+            let value: bigint;
+            let width = INTEGER_WIDTH;
+            if (based) {
+                const clean = digits.replace(/_/g, '').toLowerCase();
+                if (/[xz?]/.test(clean)) throw new VerilogError('x and z digits are not supported (the simulator is two-state)', start);
+                const { radix, digits: valid } = BASE_DIGITS[base.toLowerCase()];
+                if (!valid.test(clean)) throw new VerilogError(`invalid digits in literal '${text.replace(/\s+/g, '')}'`, start);
+                value = parseDigits(clean, radix);
+                if (size !== undefined) {
+                    width = Number(size.replace(/_/g, ''));
+                    if (width < 1 || width > MAX_WIDTH) throw new VerilogError(`literal size must be between 1 and ${MAX_WIDTH}`, start);
+                }
+            } else {
+                value = BigInt(size.replace(/_/g, ''));
+            }
+            tokens.push({ kind: 'number', text: text.replace(/\s+/g, ''), value: value & mask(width), width, ...start });
+            skipTo(i + text.length);
+        } else {
+            const op = OPERATORS.find(candidate => rest.startsWith(candidate));
+            if (!op) throw new VerilogError(`unexpected character '${ch}'`, position());
+            tokens.push({ kind: 'op', text: op, ...position() });
+            skipTo(i + op.length);
+        }
+    }
+    tokens.push({ kind: 'eof', text: '', ...position() });
+    return tokens;
+};
+
+/**
+ * An expression tree node. Every node remembers where it starts.
+ */
+export type Expr = SourcePosition & (
+    | { kind: 'number'; value: bigint; width: number }
+    | { kind: 'ident'; name: string }
+    | { kind: 'bit'; name: string; index: Expr }
+    | { kind: 'part'; name: string; msb: number; lsb: number }
+    | { kind: 'unary'; op: string; operand: Expr }
+    | { kind: 'binary'; op: string; left: Expr; right: Expr }
+    | { kind: 'ternary'; cond: Expr; then: Expr; otherwise: Expr }
+    | { kind: 'concat'; parts: Expr[]; count: number }
+);
+
+/** Binary operators by precedence (higher binds tighter). */
+const BINARY_PRECEDENCE: Record<string, number> = {
+    '||': 1, '&&': 2, '|': 3, '^': 4, '^~': 4, '~^': 4, '&': 5,
+    '==': 6, '!=': 6, '===': 6, '!==': 6,
+    '<': 7, '<=': 7, '>': 7, '>=': 7,
+    '<<': 8, '>>': 8, '<<<': 8, '>>>': 8,
+    '+': 9, '-': 9, '*': 10, '/': 10, '%': 10, '**': 11,
+};
+
+const UNARY_OPERATORS = new Set(['+', '-', '!', '~', '&', '~&', '|', '~|', '^', '~^', '^~']);
+
+/**
+ * A net as declared (or implied) in the source.
+ */
+export interface Net extends SourcePosition {
+    name: string;
+    kind: 'input' | 'output' | 'wire';
+    msb: number;
+    lsb: number;
+    width: number;
+    /** True if it was declared with a range, so it can be indexed */
+    vector: boolean;
+}
+
+/**
+ * A continuous assignment. Targets are listed MSB first, as in `{cout, sum}`.
+ */
+export interface Assign extends SourcePosition {
+    targets: string[];
+    expr: Expr;
+}
+
+/**
+ * An elaborated design, ready to simulate.
+ */
+export interface Design {
+    /** Module name, if the source declared one */
+    name?: string;
+    nets: Map<string, Net>;
+    /** Nets a stimulus can drive: inputs, and wires nothing assigns */
+    inputs: Net[];
+    /** Declared outputs, or every driven net if there are none */
+    outputs: Net[];
+    /** Assignments in evaluation order */
+    assigns: Assign[];
+    /** Non-fatal findings, e.g. undriven outputs */
+    warnings: string[];
+}
+
+/** A declaration as parsed, before elaboration. */
+interface Declaration {
+    kind: Net['kind'];
+    range?: [number, number];
+    names: Array<SourcePosition & { name: string }>;
+}
+
+/**
+ * Recursive-descent parser over the token stream.
+ */
+const parse = (source: string) => {
+    const tokens = tokenize(source);
+    let pos = 0;
+    const declarations: Declaration[] = [];
+    const assigns: Assign[] = [];
+    const ports: Array<SourcePosition & { name: string }> = [];
+    let moduleName: string | undefined;
+
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+    const describe = (token: Token) => token.kind === 'eof' ? 'end of input' : `'${token.text}'`;
+    const fail = (expected: string, token = peek()): never => {
+        throw new VerilogError(`expected ${expected} but found ${describe(token)}`, token);
+    };
+    const accept = (text: string) => {
+        const token = peek();
+        if ((token.kind === 'op' || token.kind === 'keyword') && token.text === text) {
+            pos++;
+            return true;
+        }
+        return false;
+    };
+    const expect = (text: string) => {
+        if (!accept(text)) fail(`'${text}'`);
+    };
+    const identifier = () => {
+        const token = peek();
+        if (token.kind !== 'ident') fail('an identifier');
+        pos++;
+        return { name: token.text, line: token.line, column: token.column };
+    };
+    const constant = () => {
+        const token = peek();
+        if (token.kind !== 'number') fail('a constant number');
+        pos++;
+        return Number(token.value);
+    };
+
+    const parseExpr = (): Expr => {
+        const cond = parseBinary(1);
+        if (!accept('?')) return cond;
+        const then = parseExpr();
+        expect(':');
+        return { kind: 'ternary', cond, then, otherwise: parseExpr(), line: cond.line, column: cond.column };
+    };
+
+    // Precedence climbing; all binary operators are left-associative
+    const parseBinary = (minPrecedence: number): Expr => {
+        let left = parseUnary();
+        for (;;) {
+            const token = peek();
+            const precedence = token.kind === 'op' ? BINARY_PRECEDENCE[token.text] : undefined;
+            if (precedence === undefined || precedence < minPrecedence) return left;
+            pos++;
+            const right = parseBinary(precedence + 1);
+            left = { kind: 'binary', op: token.text, left, right, line: left.line, column: left.column };
+        }
+    };
+
+    const parseUnary = (): Expr => {
+        const token = peek();
+        if (token.kind === 'op' && UNARY_OPERATORS.has(token.text)) {
+            pos++;
+            return { kind: 'unary', op: token.text, operand: parseUnary(), line: token.line, column: token.column };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): Expr => {
+        const token = next();
+        const at = { line: token.line, column: token.column };
+        if (token.kind === 'number') return { kind: 'number', value: token.value!, width: token.width!, ...at };
+        if (token.kind === 'ident') {
+            if (!accept('[')) return { kind: 'ident', name: token.text, ...at };
+            const index = parseExpr();
+            if (accept(':')) {
+                const lsbToken = peek();
+                if (index.kind !== 'number' || lsbToken.kind !== 'number') {
+                    throw new VerilogError('part-select bounds must be constant numbers', index);
+                }
+                const lsb = constant();
+                expect(']');
+                return { kind: 'part', name: token.text, msb: Number(index.value), lsb, ...at };
+            }
+            expect(']');
+            return { kind: 'bit', name: token.text, index, ...at };
+        }
+        if (token.kind === 'op' && token.text === '(') {
+            const inner = parseExpr();
+            expect(')');
+            return inner;
+        }
+        if (token.kind === 'op' && token.text === '{') {
+            const first = parseExpr();
+            if (accept('{')) {
+                // Replication: {n{a, b}}
+                if (first.kind !== 'number') throw new VerilogError('replication count must be a constant number', first);
+                if (first.value < 1n) throw new VerilogError('replication count must be positive', first);
+                const parts = [parseExpr()];
+                while (accept(',')) parts.push(parseExpr());
+                expect('}');
+                expect('}');
+                return { kind: 'concat', parts, count: Number(first.value), ...at };
+            }
+            const parts = [first];
+            while (accept(',')) parts.push(parseExpr());
+            expect('}');
+            return { kind: 'concat', parts, count: 1, ...at };
+        }
+        pos--;
+        return fail('an expression');
+    };
+
+    // `input wire [3:0]` etc.; returns undefined if no declaration starts here
+    const parseDeclarationHead = (): Omit<Declaration, 'names'> | undefined => {
+        const token = peek();
+        if (token.kind !== 'keyword' || !['input', 'output', 'wire'].includes(token.text)) return undefined;
+        pos++;
+        const kind = token.text as Net['kind'];
+        if (kind !== 'wire') accept('wire');
+        if (!accept('[')) return { kind };
+        const msb = constant();
+        expect(':');
+        const lsb = constant();
+        expect(']');
+        return { kind, range: [msb, lsb] };
+    };
+
+    const parseAssignment = () => {
+        const at = peek();
+        let targets: string[];
+        if (accept('{')) {
+            targets = [identifier().name];
+            while (accept(',')) targets.push(identifier().name);
+            expect('}');
+        } else {
+            targets = [identifier().name];
+        }
+        if (peek().text === '[') throw new VerilogError('assigning to part of a net is not supported', peek());
+        expect('=');
+        assigns.push({ targets, expr: parseExpr(), line: at.line, column: at.column });
+    };
+
+    const parseItem = () => {
+        const token = peek();
+        if (token.kind === 'keyword' && UNSUPPORTED_KEYWORDS.has(token.text)) {
+            throw new VerilogError(`'${token.text}' is not supported: only wire declarations and continuous assigns are`, token);
+        }
+        if (accept('assign')) {
+            do parseAssignment(); while (accept(','));
+            expect(';');
+            return;
+        }
+        const head = parseDeclarationHead();
+        if (!head) return fail(moduleName === undefined ? 'a declaration or assign' : 'a declaration, assign or endmodule');
+        const declaration: Declaration = { ...head, names: [] };
+        do {
+            const name = identifier();
+            declaration.names.push(name);
+            // Net declaration assignment: `wire y = a & b;`
+            if (head.kind === 'wire' && accept('=')) {
+                assigns.push({ targets: [name.name], expr: parseExpr(), line: name.line, column: name.column });
+            }
+        } while (accept(','));
+        expect(';');
+        declarations.push(declaration);
+    };
+
+    const parseModule = () => {
+        moduleName = identifier().name;
+        if (accept('(') && !accept(')')) {
+            let head = parseDeclarationHead();
+            // ANSI style declares directions in the header; then each name inherits the last one
+            const ansi = head !== undefined;
+            do {
+                if (ansi) {
+                    head = parseDeclarationHead() ?? head!;
+                    const name = identifier();
+                    declarations.push({ ...head, names: [name] });
+                    ports.push(name);
+                } else {
+                    ports.push(identifier());
+                }
+            } while (accept(','));
+            expect(')');
+        }
+        expect(';');
+        while (!accept('endmodule')) {
+            if (peek().kind === 'eof') fail("'endmodule'");
+            parseItem();
+        }
+        if (peek().text === 'module') throw new VerilogError('only one module per source is supported', peek());
+        if (peek().kind !== 'eof') fail('end of input');
+    };
+
+    if (accept('module')) {
+        parseModule();
+    } else {
+        while (peek().kind !== 'eof') parseItem();
+    }
+    return { moduleName, ports, declarations, assigns };
+};
+
+/**
+ * Bit offset of an index within a net's range, counted from the LSB.
+ */
+const bitOffset = (net: Net, index: number) => net.msb >= net.lsb ? index - net.lsb : net.lsb - index;
+
+/**
+ * Names of the nets an expression reads.
+ */
+const readNets = (expr: Expr, names = new Set<string>()): Set<string> => {
+    switch (expr.kind) {
+        case 'ident':
+        case 'part':
+            names.add(expr.name);
+            break;
+        case 'bit':
+            names.add(expr.name);
+            readNets(expr.index, names);
+            break;
+        case 'unary':
+            readNets(expr.operand, names);
+            break;
+        case 'binary':
+            readNets(expr.left, names);
+            readNets(expr.right, names);
+            break;
+        case 'ternary':
+            readNets(expr.cond, names);
+            readNets(expr.then, names);
+            readNets(expr.otherwise, names);
+            break;
+        case 'concat':
+            expr.parts.forEach(part => readNets(part, names));
+            break;
+    }
+    return names;
+};
+
+const isComparison = (op: string) => ['==', '!=', '===', '!==', '<', '<=', '>', '>='].includes(op);
+
+/**
+ * Self-determined width of an expression (IEEE 1364 table 5-22).
+ */
+const selfWidth = (expr: Expr, nets: Map<string, Net>): number => {
+    switch (expr.kind) {
+        case 'number':
+            return expr.width;
+        case 'ident':
+            return nets.get(expr.name)!.width;
+        case 'bit':
+            return 1;
+        case 'part':
+            return Math.abs(expr.msb - expr.lsb) + 1;
+        case 'unary':
+            return ['+', '-', '~'].includes(expr.op) ? selfWidth(expr.operand, nets) : 1;
+        case 'binary':
+            if (isComparison(expr.op) || expr.op === '&&' || expr.op === '||') return 1;
+            if (['<<', '>>', '<<<', '>>>', '**'].includes(expr.op)) return selfWidth(expr.left, nets);
+            return Math.max(selfWidth(expr.left, nets), selfWidth(expr.right, nets));
+        case 'ternary':
+            return Math.max(selfWidth(expr.then, nets), selfWidth(expr.otherwise, nets));
+        case 'concat':
+            return expr.count * expr.parts.reduce((sum, part) => sum + selfWidth(part, nets), 0);
+    }
+};
+
+/**
+ * Checks selects against net ranges and widths against the limit.
+ * @throws {VerilogError} at the offending sub-expression
+ */
+const checkExpr = (expr: Expr, nets: Map<string, Net>) => {
+    if (expr.kind === 'bit' || expr.kind === 'part') {
+        const net = nets.get(expr.name)!;
+        if (!net.vector) throw new VerilogError(`'${net.name}' is a scalar and cannot be indexed`, expr);
+        const range = `${net.name}[${net.msb}:${net.lsb}]`;
+        const indexes = expr.kind === 'part' ? [expr.msb, expr.lsb] : expr.index.kind === 'number' ? [Number(expr.index.value)] : [];
+        for (const index of indexes) {
+            const offset = bitOffset(net, index);
+            if (offset < 0 || offset >= net.width) throw new VerilogError(`index ${index} is out of range for ${range}`, expr);
+        }
+        if (expr.kind === 'part' && bitOffset(net, expr.msb) < bitOffset(net, expr.lsb)) {
+            throw new VerilogError(`part-select [${expr.msb}:${expr.lsb}] is reversed for ${range}`, expr);
+        }
+    }
+    if (selfWidth(expr, nets) > MAX_WIDTH) throw new VerilogError(`expression is wider than ${MAX_WIDTH} bits`, expr);
+    if (expr.kind === 'bit') checkExpr(expr.index, nets);
+    if (expr.kind === 'unary') checkExpr(expr.operand, nets);
+    if (expr.kind === 'binary') [expr.left, expr.right].forEach(child => checkExpr(child, nets));
+    if (expr.kind === 'ternary') [expr.cond, expr.then, expr.otherwise].forEach(child => checkExpr(child, nets));
+    if (expr.kind === 'concat') expr.parts.forEach(child => checkExpr(child, nets));
+};
+
+/**
+ * Parses and elaborates source text into a design.
+ * Undeclared names become implicit 1-bit wires, as Verilog does for nets.
+ * @throws {VerilogError} on syntax errors, bad declarations, multiple drivers
+ * or combinational loops
+ */
+export const parseVerilog = (source: string): Design => {
+    const { moduleName, ports, declarations, assigns } = parse(source);
+    const nets = new Map<string, Net>();
+    const portNames = new Set(ports.map(port => port.name));
+
+    for (const { kind, range, names } of declarations) {
+        const [msb, lsb] = range ?? [0, 0];
+        for (const { name, line, column } of names) {
+            const net: Net = { name, kind, msb, lsb, width: Math.abs(msb - lsb) + 1, vector: !!range, line, column };
+            if (moduleName !== undefined && kind !== 'wire' && !portNames.has(name)) {
+                throw new VerilogError(`'${name}' is declared ${kind} but is not a port`, net);
+            }
+            const existing = nets.get(name);
+            if (!existing) {
+                nets.set(name, net);
+                continue;
+            }
+            // Non-ANSI style may say `output y;` and then `wire y;`
+            if ((existing.kind === 'wire') === (kind === 'wire')) throw new VerilogError(`'${name}' is already declared`, net);
+            if (existing.msb !== msb || existing.lsb !== lsb) {
+                throw new VerilogError(`range of '${name}' does not match its declaration on line ${existing.line}`, net);
+            }
+            if (kind !== 'wire') existing.kind = kind;
+        }
+    }
+    for (const port of ports) {
+        if (!nets.has(port.name)) throw new VerilogError(`port '${port.name}' has no input or output declaration`, port);
+    }
+
+    const implicit = (name: string, position: SourcePosition) => {
+        if (!nets.has(name)) nets.set(name, { name, kind: 'wire', msb: 0, lsb: 0, width: 1, vector: false, ...position });
+    };
+    const drivers = new Map<string, Assign>();
+    for (const assign of assigns) {
+        for (const target of assign.targets) {
+            implicit(target, assign);
+            if (nets.get(target)!.kind === 'input') throw new VerilogError(`cannot assign to input '${target}'`, assign);
+            const other = drivers.get(target);
+            if (other) throw new VerilogError(`'${target}' is already driven by the assign on line ${other.line}`, assign);
+            drivers.set(target, assign);
+        }
+    }
+    const reads = new Map(assigns.map(assign => [assign, readNets(assign.expr)]));
+    for (const assign of assigns) {
+        for (const name of reads.get(assign)!) implicit(name, assign);
+        checkExpr(assign.expr, nets);
+    }
+
+    // Order assignments so each runs after the ones driving its operands
+    const ordered: Assign[] = [];
+    const done = new Set<Assign>();
+    const stack: Assign[] = [];
+    const visit = (assign: Assign) => {
+        if (done.has(assign)) return;
+        if (stack.includes(assign)) {
+            const loop = [...stack.slice(stack.indexOf(assign)), assign].map(({ targets }) => targets[0]);
+            throw new VerilogError(`combinational loop: ${loop.join(' -> ')}`, assign);
+        }
+        stack.push(assign);
+        for (const name of reads.get(assign)!) {
+            const driver = drivers.get(name);
+            if (driver) visit(driver);
+        }
+        stack.pop();
+        done.add(assign);
+        ordered.push(assign);
+    };
+    assigns.forEach(visit);
+
+    const allReads = new Set(assigns.flatMap(assign => [...reads.get(assign)!]));
+    const all = [...nets.values()];
+    const inputs = all.filter(net => net.kind === 'input' || (net.kind === 'wire' && !drivers.has(net.name) && allReads.has(net.name)));
+    const declaredOutputs = all.filter(net => net.kind === 'output');
+    const outputs = declaredOutputs.length ? declaredOutputs : all.filter(net => drivers.has(net.name));
+    const warnings = declaredOutputs
+        .filter(net => !drivers.has(net.name))
+        .map(net => `output '${net.name}' is never driven and reads as 0`);
+
+    return { name: moduleName, nets, inputs, outputs, assigns: ordered, warnings };
+};
+
+/**
+ * Reduces a value of the given width with a reduction operator.
+ */
+const reduce = (op: string, value: bigint, width: number) => {
+    let result: boolean;
+    if (op.endsWith('&')) {
+        result = value === mask(width);
+    } else if (op.endsWith('|')) {
+        result = value !== 0n;
+    } else {
+        let parity = 0n;
+        for (let rest = value; rest; rest >>= 1n) parity ^= rest & 1n;
+        result = parity === 1n;
+    }
+    const inverted = op.startsWith('~') || op === '^~';
+    return BigInt(result !== inverted);
+};
+
+/**
+ * Evaluates an expression in a context of `width` bits. Context-determined
+ * operands are extended to that width first, so `{cout, sum} = a + b` keeps
+ * the carry. Two-state semantics: division by zero and out-of-range
+ * indexes yield 0 (where four-state simulators would give x).
+ */
+const evaluate = (expr: Expr, width: number, values: Map<string, bigint>, nets: Map<string, Net>): bigint => {
+    const self = (child: Expr) => evaluate(child, selfWidth(child, nets), values, nets);
+    const m = mask(width);
+    switch (expr.kind) {
+        case 'number':
+            return expr.value;
+        case 'ident':
+            return values.get(expr.name) ?? 0n;
+        case 'bit': {
+            const net = nets.get(expr.name)!;
+            const offset = bitOffset(net, Number(self(expr.index)));
+            return offset >= 0 && offset < net.width ? ((values.get(expr.name) ?? 0n) >> BigInt(offset)) & 1n : 0n;
+        }
+        case 'part': {
+            const net = nets.get(expr.name)!;
+            const lsb = bitOffset(net, expr.lsb);
+            return ((values.get(expr.name) ?? 0n) >> BigInt(lsb)) & mask(bitOffset(net, expr.msb) - lsb + 1);
+        }
+        case 'unary': {
+            if (expr.op === '!') return self(expr.operand) === 0n ? 1n : 0n;
+            if (expr.op === '+' || expr.op === '-' || expr.op === '~') {
+                const operand = evaluate(expr.operand, width, values, nets);
+                return (expr.op === '+' ? operand : expr.op === '-' ? -operand : ~operand) & m;
+            }
+            return reduce(expr.op, self(expr.operand), selfWidth(expr.operand, nets));
+        }
+        case 'binary': {
+            const { op } = expr;
+            if (op === '&&' || op === '||') {
+                const left = self(expr.left) !== 0n;
+                return BigInt(op === '&&' ? left && self(expr.right) !== 0n : left || self(expr.right) !== 0n);
+            }
+            if (isComparison(op)) {
+                // Operands are sized to each other, not to the context
+                const size = Math.max(selfWidth(expr.left, nets), selfWidth(expr.right, nets));
+                const left = evaluate(expr.left, size, values, nets);
+                const right = evaluate(expr.right, size, values, nets);
+                const results: Record<string, boolean> = {
+                    '==': left === right, '===': left === right, '!=': left !== right, '!==': left !== right,
+                    '<': left < right, '<=': left <= right, '>': left > right, '>=': left >= right,
+                };
+                return BigInt(results[op]);
+            }
+            const left = evaluate(expr.left, width, values, nets);
+            if (['<<', '>>', '<<<', '>>>', '**'].includes(op)) {
+                const right = self(expr.right);
+                if (op === '**') {
+                    let result = 1n;
+                    let base = left;
+                    for (let exponent = right; exponent; exponent >>= 1n) {
+                        if (exponent & 1n) result = (result * base) & m;
+                        base = (base * base) & m;
+                    }
+                    return result;
+                }
+                if (op.startsWith('>')) return left >> right;
+                return right >= BigInt(width) ? 0n : (left << right) & m;
+            }
+            const right = evaluate(expr.right, width, values, nets);
+            switch (op) {
+                case '+': return (left + right) & m;
+                case '-': return (left - right) & m;
+                case '*': return (left * right) & m;
+                case '/': return right ? left / right : 0n;
+                case '%': return right ? left % right : 0n;
+                case '&': return left & right;
+                case '|': return left | right;
+                case '^': return left ^ right;
+                default: return ~(left ^ right) & m;
+            }
+        }
+        case 'ternary':
+            return evaluate(self(expr.cond) ? expr.then : expr.otherwise, width, values, nets);
+        case 'concat': {
+            let once = 0n;
+            for (const part of expr.parts) once = (once << BigInt(selfWidth(part, nets))) | self(part);
+            const partWidth = BigInt(selfWidth(expr, nets) / expr.count);
+            let result = 0n;
+            for (let i = 0; i < expr.count; i++) result = (result << partWidth) | once;
+            return result;
+        }
+    }
+};
+
+/**
+ * Settles the design for one set of input values.
+ * @param design - Elaborated design
+ * @param stimulus - Input values by net name (missing inputs are 0; values are truncated to the net)
+ * @returns The value of every net
+ */
+export const simulateDesign = (design: Design, stimulus: Record<string, bigint>): Map<string, bigint> => {
+    // Undriven nets read as 0, as z would in a two-state simulator
+    const values = new Map([...design.nets.keys()].map(name => [name, 0n]));
+    for (const net of design.inputs) values.set(net.name, (stimulus[net.name] ?? 0n) & mask(net.width));
+    for (const { targets, expr } of design.assigns) {
+        const targetNets = targets.map(name => design.nets.get(name)!);
+        const total = targetNets.reduce((sum, net) => sum + net.width, 0);
+        let value = evaluate(expr, Math.max(total, selfWidth(expr, design.nets)), values, design.nets);
+        // The last target of a concatenation takes the low bits
+        for (const net of [...targetNets].reverse()) {
+            values.set(net.name, value & mask(net.width));
+            value >>= BigInt(net.width);
+        }
+    }
+    return values;
+};
+
+/**
+ * Parses a literal the way it would be written in source (`5`, `4'b1010`, `'hff`).
+ * @throws {VerilogError} if the text is not a single literal
+ */
+export const parseLiteral = (text: string): bigint => {
+    const tokens = tokenize(text);
+    if (tokens.length !== 2 || tokens[0].kind !== 'number') throw new VerilogError(`'${text}' is not a number`, tokens[0]);
+    return tokens[0].value!;
+};
+
+/**
+ * Formats a value in a radix, zero-padded to the net's width.
+ * @param sized - Prefix the width and base, Verilog style (`4'hc`)
+ */
+export const formatValue = (value: bigint, width: number, radix: Radix, sized = false) => {
+    const bits = { bin: 1, oct: 3, hex: 4, dec: 0 }[radix];
+    const digits = bits
+        ? value.toString(2 ** bits).padStart(Math.ceil(width / bits), '0')
+        : value.toString();
+    return sized ? `${width}'${radix[0]}${digits}` : digits;
+};
+
+/**
+ * Describes a net with its range, e.g. `a[3:0]`.
+ */
+export const netLabel = (net: Net) => net.vector ? `${net.name}[${net.msb}:${net.lsb}]` : net.name;
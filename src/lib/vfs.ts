@@ -0,0 +1,194 @@
+/**
+ * @file vfs.ts
+ * @description Minimal in-memory virtual filesystem for the Terminal.
+ * Paths are POSIX-style; `~` expands to the home directory.
+ * @module Lib
+ * @author Mishat
+ */
+
+/** Absolute path of the visitor's home directory. */
+export const HOME_DIR = '/home/mishat';
+
+/**
+ * A regular file. Files with an `href` are links to real assets served by the site.
+ */
+export interface VfsFile {
+    type: 'file';
+    content: string;
+    /** URL of the real asset this file stands for (e.g. the resume PDF) */
+    href?: string;
+}
+
+/**
+ * A directory. Children are keyed by name.
+ */
+export interface VfsDir {
+    type: 'dir';
+    children: Record<string, VfsNode>;
+}
+
+export type VfsNode = VfsFile | VfsDir;
+
+/**
+ * Error raised by filesystem operations.
+ * The message is already phrased like a coreutils error (e.g. "No such file or directory").
+ */
+export class VfsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VfsError';
+    }
+}
+
+/** Creates a file node. */
+export const file = (content: string, href?: string): VfsFile => ({ type: 'file', content, href });
+
+/** Creates a directory node. */
+export const dir = (children: Record<string, VfsNode> = {}): VfsDir => ({ type: 'dir', children });
+
+/**
+ * Resolves a user-supplied path against the working directory.
+ * Handles `~`, `.`, `..`, repeated slashes and absolute paths.
+ * @param cwd - Absolute working directory
+ * @param path - Path as typed by the user
+ * @returns The normalised absolute path
+ */
+export const resolvePath = (cwd: string, path: string): string => {
+    let full = path;
+    if (path === '~' || path.startsWith('~/')) full = HOME_DIR + path.slice(1);
+    else if (!path.startsWith('/')) full = `${cwd}/${path}`;
+
+    const parts: string[] = [];
+    for (const part of full.split('/')) {
+        if (!part || part === '.') continue;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    }
+    return '/' + parts.join('/');
+};
+
+/**
+ * Abbreviates the home directory to `~` for display (prompts, `pwd` stays absolute).
+ */
+export const displayPath = (path: string) =>
+    path === HOME_DIR || path.startsWith(HOME_DIR + '/') ? '~' + path.slice(HOME_DIR.length) : path;
+
+/**
+ * Returns the final component of a path.
+ */
+export const basename = (path: string) => path.split('/').filter(Boolean).pop() ?? '/';
+
+/**
+ * Looks up the node at an absolute path.
+ * @returns The node, or undefined if any component is missing
+ */
+export const lookup = (root: VfsDir, path: string): VfsNode | undefined => {
+    let node: VfsNode = root;
+    for (const part of path.split('/').filter(Boolean)) {
+        if (node.type !== 'dir' || !Object.hasOwn(node.children, part)) return undefined;
+        node = node.children[part];
+    }
+    return node;
+};
+
+/**
+ * Looks up a directory, raising coreutils-style errors.
+ * @throws {VfsError} if the path is missing or not a directory
+ */
+export const getDir = (root: VfsDir, path: string): VfsDir => {
+    const node = lookup(root, path);
+    if (!node) throw new VfsError('No such file or directory');
+    if (node.type !== 'dir') throw new VfsError('Not a directory');
+    return node;
+};
+
+/**
+ * Looks up a regular file, raising coreutils-style errors.
+ * @throws {VfsError} if the path is missing or a directory
+ */
+export const getFile = (root: VfsDir, path: string): VfsFile => {
+    const node = lookup(root, path);
+    if (!node) throw new VfsError('No such file or directory');
+    if (node.type !== 'file') throw new VfsError('Is a directory');
+    return node;
+};
+
+/**
+ * Creates or overwrites a regular file. The parent directory must exist.
+ * @param root - Filesystem root
+ * @param path - Absolute path of the file
+ * @param content - Text to write
+ * @param append - If true, adds the text as new line(s) of an existing file, keeping its link, instead of replacing it
+ * @throws {VfsError} if the parent is missing or the path is a directory
+ */
+export const writeFile = (root: VfsDir, path: string, content: string, append = false) => {
+    const slash = path.lastIndexOf('/');
+    const parent = getDir(root, path.slice(0, slash) || '/');
+    const name = path.slice(slash + 1);
+    const existing = Object.hasOwn(parent.children, name) ? parent.children[name] : undefined;
+    if (!name || existing?.type === 'dir') throw new VfsError('Is a directory');
+    if (append && existing) {
+        // Appending keeps the file's other properties, such as a download link
+        parent.children[name] = { ...existing, content: existing.content ? `${existing.content}\n${content}` : content };
+    } else {
+        parent.children[name] = file(content);
+    }
+};
+
+/**
+ * Lists a directory's entries, directories first, each sorted by name.
+ * Directory names carry a trailing slash.
+ */
+export const listEntries = (node: VfsDir): string[] => {
+    const names = Object.keys(node.children).sort();
+    return [
+        ...names.filter(n => node.children[n].type === 'dir').map(n => `${n}/`),
+        ...names.filter(n => node.children[n].type === 'file'),
+    ];
+};
+
+/**
+ * Renders a directory as an indented tree, in the style of the `tree` utility.
+ * @param node - The directory to render
+ * @param label - Text of the first line (usually the path as typed)
+ */
+export const renderTree = (node: VfsDir, label: string): string => {
+    const lines = [label];
+    let dirs = 0;
+    let files = 0;
+
+    const walk = (current: VfsDir, indent: string) => {
+        const entries = listEntries(current);
+        entries.forEach((entry, i) => {
+            const isLast = i === entries.length - 1;
+            const name = entry.replace(/\/$/, '');
+            const child = current.children[name];
+            lines.push(`${indent}${isLast ? '└── ' : '├── '}${name}`);
+            if (child.type === 'dir') {
+                dirs++;
+                walk(child, indent + (isLast ? '    ' : '│   '));
+            } else {
+                files++;
+            }
+        });
+    };
+
+    walk(node, '');
+    lines.push('', `${dirs} ${dirs === 1 ? 'directory' : 'directories'}, ${files} ${files === 1 ? 'file' : 'files'}`);
+    return lines.join('\n');
+};
+
+/**
+ * Lists completion candidates for a partial path.
+ * Candidates keep the directory part as typed, and directories end in a slash.
+ * @param root - Filesystem root
+ * @param cwd - Absolute working directory
+ * @param partial - The path typed so far
+ */
+export const completePath = (root: VfsDir, cwd: string, partial: string): string[] => {
+    const slash = partial.lastIndexOf('/');
+    const typedDir = slash === -1 ? '' : partial.slice(0, slash + 1);
+    const node = lookup(root, resolvePath(cwd, typedDir || '.'));
+    if (!node || node.type !== 'dir') return [];
+    return listEntries(node).map(entry => typedDir + entry);
+};
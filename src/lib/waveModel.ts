@@ -0,0 +1,467 @@
+/**
+ * @file waveModel.ts
+ * @description The waveform viewer's signal model: signals declared with a
+ * name, type, value function and colour token, and the signal pane's rows
+ * (signals, blank and comment rows, collapsible groups) with the edits the
+ * pane supports. Everything here is immutable; edits return new row lists.
+ * @module Lib
+ * @author Mishat
+ */
+import { EnumLabels, ValueRadix, formatBits } from './radix';
+import { VcdDump, changeIndexAt } from './vcd';
+
+/**
+ * How a signal is drawn: a periodic clock, a single-bit line, a bus of
+ * labelled values, or an analog line plotting a number.
+ */
+export type SignalType = 'clock' | 'bit' | 'bus' | 'analog';
+
+/** Colour tokens; the viewer maps each to theme colours. */
+export type SignalColor = 'clock' | 'reset' | 'state' | 'company' | 'school' | 'degree' | 'role' | 'scalar' | 'vector' | 'skill';
+
+/**
+ * A value as displayed. Bits are `0 1 x z`; bus text is anything, with
+ * `state` set when some of it is unknown (x) or high-impedance (z).
+ */
+export interface WaveValue {
+    text: string;
+    state?: 'x' | 'z';
+    /** The value as bits, MSB first, on numeric buses */
+    bits?: string;
+    /** The value as a number, on analog signals */
+    number?: number;
+}
+
+/**
+ * A signal the viewer can draw.
+ */
+export interface WaveSignal {
+    id: string;
+    name: string;
+    type: SignalType;
+    color: SignalColor;
+    /** Value at a time, or null where nothing drives the signal */
+    value: (time: number) => WaveValue | null;
+    /** Sorted times where the value may change; it is constant between them */
+    edges: number[];
+    /** Period of a clock; it is high for the first half of each cycle, from `edges[0]` */
+    period?: number;
+    /** Width of a numeric bus, whose values carry their bits and can be shown in any radix */
+    width?: number;
+    /** ValueRadix the value text is in, on numeric buses */
+    radix?: ValueRadix;
+    /** Labels for the enum radix, keyed by value in decimal */
+    enumLabels?: EnumLabels;
+    /**
+     * How an analog signal moves between samples: holding each value until
+     * the next (step) or along a straight line to it (linear)
+     */
+    interpolation?: Interpolation;
+    /** Written after analog values, e.g. `%` */
+    unit?: string;
+    /** Names of the enclosing scopes, outermost first, for the scope tree */
+    scope?: string[];
+}
+
+/** How an analog signal moves between its samples. */
+export type Interpolation = 'step' | 'linear';
+
+/** A row of the signal pane that is not a group. */
+export type LeafRow =
+    | { id: string; kind: 'signal'; signalId: string; hidden?: boolean }
+    | { id: string; kind: 'blank' }
+    | { id: string; kind: 'comment'; text: string };
+
+/** A row of the signal pane; groups hold one level of rows. */
+export type PaneRow = LeafRow | { id: string; kind: 'group'; name: string; collapsed: boolean; rows: LeafRow[] };
+
+/** A row as laid out: visible, in order, with its nesting depth. */
+export interface FlatRow {
+    row: PaneRow;
+    depth: number;
+}
+
+/** Where a dragged row lands relative to the row it is dropped on. */
+export type DropPosition = 'before' | 'after' | 'into';
+
+let rowCounter = 0;
+
+/**
+ * Creates an id for a blank, comment or group row.
+ */
+export const newRowId = () => `row-${++rowCounter}`;
+
+/**
+ * Builds one signal row per signal, in order.
+ */
+export const signalRows = (signals: WaveSignal[]): PaneRow[] =>
+    signals.map(signal => ({ id: `signal-${signal.id}`, kind: 'signal', signalId: signal.id }));
+
+/**
+ * Builds a group holding one signal row per signal.
+ */
+export const signalGroup = (name: string, signals: WaveSignal[], collapsed = false): PaneRow => ({
+    id: newRowId(),
+    kind: 'group',
+    name,
+    collapsed,
+    rows: signals.map(signal => ({ id: `signal-${signal.id}`, kind: 'signal', signalId: signal.id })),
+});
+
+/**
+ * Lays rows out top to bottom, leaving out hidden signals and the contents of collapsed groups.
+ */
+export const flattenRows = (rows: PaneRow[]): FlatRow[] => rows.flatMap(row => {
+    if (row.kind === 'signal' && row.hidden) return [];
+    if (row.kind !== 'group') return [{ row, depth: 0 }];
+    const children = row.collapsed ? [] : row.rows.filter(child => !(child.kind === 'signal' && child.hidden));
+    return [{ row, depth: 0 }, ...children.map(child => ({ row: child, depth: 1 }))];
+});
+
+/**
+ * Lists the hidden signal rows, wherever they are.
+ */
+export const hiddenRows = (rows: PaneRow[]) => rows
+    .flatMap(row => row.kind === 'group' ? row.rows : [row])
+    .filter(row => row.kind === 'signal' && row.hidden);
+
+/**
+ * Applies a change to the row with an id, at the top level or inside a group.
+ */
+const updateRow = (rows: PaneRow[], id: string, update: (row: PaneRow) => PaneRow): PaneRow[] => rows.map(row => {
+    if (row.id === id) return update(row);
+    if (row.kind === 'group') return { ...row, rows: row.rows.map(child => child.id === id ? update(child) as LeafRow : child) };
+    return row;
+});
+
+/**
+ * Takes a row out of the list.
+ * @returns The remaining rows and the removed row, if it was found
+ */
+const extractRow = (rows: PaneRow[], id: string): [PaneRow[], PaneRow | undefined] => {
+    let removed: PaneRow | undefined;
+    const remaining = rows.flatMap((row): PaneRow[] => {
+        if (row.id === id) {
+            removed = row;
+            return [];
+        }
+        if (row.kind !== 'group') return [row];
+        const kept = row.rows.filter(child => child.id !== id);
+        if (kept.length !== row.rows.length) removed = row.rows.find(child => child.id === id);
+        return [{ ...row, rows: kept }];
+    });
+    return [remaining, removed];
+};
+
+/**
+ * Hides or shows a signal row.
+ */
+export const setRowHidden = (rows: PaneRow[], id: string, hidden: boolean) =>
+    updateRow(rows, id, row => row.kind === 'signal' ? { ...row, hidden } : row);
+
+/**
+ * Opens or closes a group.
+ */
+export const toggleGroup = (rows: PaneRow[], id: string) =>
+    updateRow(rows, id, row => row.kind === 'group' ? { ...row, collapsed: !row.collapsed } : row);
+
+/**
+ * Renames a group or rewrites a comment.
+ */
+export const renameRow = (rows: PaneRow[], id: string, text: string) => updateRow(rows, id, row => {
+    if (row.kind === 'group') return { ...row, name: text };
+    if (row.kind === 'comment') return { ...row, text };
+    return row;
+});
+
+/**
+ * Deletes a blank, comment or group row. A group's rows move up to where it was.
+ * Signal rows are hidden rather than deleted, so they cannot be lost.
+ */
+export const removeRow = (rows: PaneRow[], id: string): PaneRow[] => rows.flatMap((row): PaneRow[] => {
+    if (row.id === id) {
+        if (row.kind === 'group') return row.rows;
+        return row.kind === 'signal' ? [row] : [];
+    }
+    if (row.kind === 'group') return [{ ...row, rows: row.rows.filter(child => child.id !== id || child.kind === 'signal') }];
+    return [row];
+});
+
+/**
+ * Adds signals to the end of the pane. Signals already shown stay where they
+ * are; hidden ones are moved to the end and shown.
+ */
+export const appendSignals = (rows: PaneRow[], signalIds: string[]): PaneRow[] => {
+    const shown = new Set(rows
+        .flatMap(row => row.kind === 'group' ? row.rows : [row])
+        .flatMap(row => row.kind === 'signal' && !row.hidden ? [row.signalId] : []));
+    const added = [...new Set(signalIds)].filter(id => !shown.has(id));
+    const rowIds = new Set(added.map(id => `signal-${id}`));
+    const kept = rows
+        .filter(row => !rowIds.has(row.id))
+        .map(row => row.kind === 'group' ? { ...row, rows: row.rows.filter(child => !rowIds.has(child.id)) } : row);
+    return [...kept, ...added.map((id): PaneRow => ({ id: `signal-${id}`, kind: 'signal', signalId: id }))];
+};
+
+/**
+ * Appends a blank row, a comment or an empty group at the end.
+ */
+export const addRow = (rows: PaneRow[], kind: 'blank' | 'comment' | 'group'): PaneRow[] => {
+    const id = newRowId();
+    if (kind === 'blank') return [...rows, { id, kind }];
+    if (kind === 'comment') return [...rows, { id, kind, text: 'Comment' }];
+    return [...rows, { id, kind, name: 'Group', collapsed: false, rows: [] }];
+};
+
+/**
+ * Moves a row next to another, or into a group.
+ * Groups don't nest, so a group dropped inside one lands next to it instead.
+ */
+export const moveRow = (rows: PaneRow[], id: string, targetId: string, position: DropPosition): PaneRow[] => {
+    if (id === targetId) return rows;
+    const [remaining, moved] = extractRow(rows, id);
+    if (!moved) return rows;
+
+    const insertAt = (list: PaneRow[], index: number) => [...list.slice(0, index), moved, ...list.slice(index)];
+    const topIndex = remaining.findIndex(row => row.id === targetId);
+    if (topIndex >= 0) {
+        const target = remaining[topIndex];
+        if (position === 'into' && target.kind === 'group' && moved.kind !== 'group') {
+            return remaining.map(row => row === target ? { ...target, rows: [moved as LeafRow, ...target.rows] } : row);
+        }
+        return insertAt(remaining, position === 'before' ? topIndex : topIndex + 1);
+    }
+
+    const group = remaining.find(row => row.kind === 'group' && row.rows.some(child => child.id === targetId));
+    if (!group || group.kind !== 'group') return rows;
+    if (moved.kind === 'group') {
+        const groupIndex = remaining.indexOf(group);
+        return insertAt(remaining, position === 'before' ? groupIndex : groupIndex + 1);
+    }
+    const childIndex = group.rows.findIndex(child => child.id === targetId);
+    const children = [...group.rows];
+    children.splice(position === 'before' ? childIndex : childIndex + 1, 0, moved);
+    return remaining.map(row => row === group ? { ...group, rows: children } : row);
+};
+
+/**
+ * Makes a numeric bus value from its bits, with its text in a radix.
+ */
+export const bitsValue = (bits: string, radix: ValueRadix, labels?: EnumLabels): WaveValue => {
+    const text = formatBits(bits, radix, labels);
+    if (/^z+$/.test(bits)) return { text, state: 'z', bits };
+    return /[xz]/.test(bits) ? { text, state: 'x', bits } : { text, bits };
+};
+
+/**
+ * Shows a numeric bus in another radix. Other signals are returned as they are.
+ * @param labels - Labels for the enum radix, in place of the signal's own
+ */
+export const withRadix = (signal: WaveSignal, radix: ValueRadix, labels = signal.enumLabels): WaveSignal => {
+    if (signal.width === undefined) return signal;
+    return {
+        ...signal,
+        radix,
+        enumLabels: labels,
+        value: time => {
+            const value = signal.value(time);
+            return value?.bits === undefined ? value : bitsValue(value.bits, radix, labels);
+        },
+    };
+};
+
+/**
+ * Writes an analog value to one decimal place, dropping a trailing `.0`.
+ */
+export const formatAnalog = (value: number, unit = '') => `${Number(value.toFixed(1))}${unit}`;
+
+/**
+ * Declares an analog signal from samples. It is undriven before the first
+ * sample and holds the last one after it.
+ * @param samples - `[time, value]` pairs, sorted by time
+ */
+export const analogSignal = (
+    id: string,
+    name: string,
+    color: SignalColor,
+    samples: Array<[number, number]>,
+    interpolation: Interpolation = 'linear',
+    unit = '',
+): WaveSignal => ({
+    id,
+    name,
+    type: 'analog',
+    color,
+    interpolation,
+    unit,
+    edges: samples.map(([time]) => time),
+    value: time => {
+        // Last sample at or before the time
+        let lo = 0;
+        let hi = samples.length - 1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (samples[mid][0] <= time) lo = mid + 1;
+            else hi = mid - 1;
+        }
+        if (hi < 0) return null;
+        const [from, fromValue] = samples[hi];
+        const next = samples[hi + 1];
+        const number = interpolation === 'linear' && next
+            ? fromValue + ((next[1] - fromValue) * (time - from)) / (next[0] - from)
+            : fromValue;
+        return { text: formatAnalog(number, unit), number };
+    },
+});
+
+/**
+ * Shows an analog signal as steps or as a line between its samples. Other
+ * signals are returned as they are.
+ */
+export const withInterpolation = (signal: WaveSignal, interpolation: Interpolation): WaveSignal => {
+    if (signal.type !== 'analog' || signal.interpolation === interpolation) return signal;
+    const samples = signal.edges.map((time): [number, number] => [time, signal.value(time)?.number ?? 0]);
+    return { ...signal, ...analogSignal(signal.id, signal.name, signal.color, samples, interpolation, signal.unit) };
+};
+
+/**
+ * Declares the signals of a loaded dump: 1-bit variables as bits, vectors as
+ * numeric buses in hex and reals as text buses, named by their scope path
+ * below the top.
+ */
+export const signalsFromVcd = (dump: VcdDump): WaveSignal[] => dump.signals.map((signal, i) => {
+    const isBit = signal.width === 1 && signal.type !== 'real';
+    const isReal = signal.type === 'real';
+    const { changes, width } = signal;
+    return {
+        id: String(i),
+        name: [...signal.scope.slice(1), signal.name].join('.'),
+        type: isBit ? 'bit' : 'bus',
+        color: isBit ? 'scalar' : 'vector',
+        scope: signal.scope,
+        edges: changes.map(([time]) => time),
+        ...(isBit || isReal ? {} : { width, radix: 'hex' as const }),
+        value: time => {
+            const raw = changes[changeIndexAt(changes, time)]?.[1];
+            if (raw === undefined) return { text: 'x', state: 'x' };
+            if (isReal) return { text: raw };
+            if (isBit) return raw === 'x' || raw === 'z' ? { text: raw, state: raw } : { text: raw };
+            // Shorter values extend to the left with 0, or with their first digit if x or z
+            return bitsValue(raw.padStart(width, /[xz]/.test(raw[0]) ? raw[0] : '0'), 'hex');
+        },
+    };
+});
+
+/** A stretch of time over which a signal holds one value. */
+export interface WaveSegment {
+    start: number;
+    end: number;
+    value: WaveValue | null;
+}
+
+/**
+ * Splits a signal into the stretches of constant value that overlap a view,
+ * merging neighbours with the same value.
+ * @param endTime - Where the last stretch ends
+ */
+export const visibleSegments = (signal: WaveSignal, view: { start: number; end: number }, endTime: number) => {
+    const { edges } = signal;
+    // Last edge at or before the start of the view
+    let lo = 0;
+    let hi = edges.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (edges[mid] <= view.start) lo = mid + 1;
+        else hi = mid - 1;
+    }
+    const segments: WaveSegment[] = [];
+    for (let i = Math.max(0, hi); i < edges.length && edges[i] <= view.end; i++) {
+        const end = edges[i + 1] ?? endTime;
+        if (end <= edges[i]) continue;
+        const value = signal.value(edges[i]);
+        const last = segments[segments.length - 1];
+        // An edge where nothing changes continues the previous stretch
+        if (last && last.value?.text === value?.text && last.value?.state === value?.state) last.end = end;
+        else segments.push({ start: edges[i], end, value });
+    }
+    return segments;
+};
+
+/** Times closer than this are the same time, absorbing floating-point error. */
+const TIME_EPSILON = 1e-9;
+
+/**
+ * Finds a signal's next (or previous) value change after (before) a time.
+ * Clocks change every half period; other signals where their value differs.
+ * @param bounds - The time axis; changes outside it are not found
+ * @returns The time of the change, or null if there is none
+ */
+export const findEdge = (signal: WaveSignal, time: number, direction: 1 | -1, bounds: { start: number; end: number }) => {
+    if (signal.type === 'clock' && signal.period) {
+        const half = signal.period / 2;
+        const origin = signal.edges[0] ?? 0;
+        const phase = (time - origin) / half;
+        const step = direction > 0 ? Math.floor(phase + TIME_EPSILON) + 1 : Math.ceil(phase - TIME_EPSILON) - 1;
+        const edge = origin + step * half;
+        return edge >= bounds.start && edge <= bounds.end ? edge : null;
+    }
+    // Merged segments start exactly where the value changes
+    const changes = visibleSegments(signal, bounds, bounds.end)
+        .map(segment => segment.start)
+        .filter(start => start > bounds.start);
+    if (direction > 0) return changes.find(change => change > time + TIME_EPSILON) ?? null;
+    return changes.filter(change => change < time - TIME_EPSILON).pop() ?? null;
+};
+
+/** A signal taking a new value, as a cursor sweeping past sees it. */
+export interface CrossedChange {
+    time: number;
+    signal: WaveSignal;
+    value: WaveValue | null;
+}
+
+/**
+ * Lists the value changes a cursor crosses moving from one time to a later
+ * one, leaving out clocks and analog signals, which change all the time.
+ * @returns Changes in (from, to], in time order (then signal order)
+ */
+export const crossedChanges = (signals: WaveSignal[], from: number, to: number, endTime: number) => signals
+    .filter(signal => signal.type === 'bit' || signal.type === 'bus')
+    .flatMap(signal => visibleSegments(signal, { start: from, end: to }, endTime)
+        // Before its first edge a signal is undriven, so staying undriven there isn't a change
+        .filter((segment, i) => segment.start > from && segment.start <= to && (i > 0 || segment.value !== null))
+        .map((segment): CrossedChange => ({ time: segment.start, signal, value: segment.value })))
+    .sort((a, b) => a.time - b.time);
+
+/** A stretch of a bus whose value matched a search. */
+export interface ValueMatch {
+    signalId: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Searches bus values over the whole time axis.
+ * @param test - Decides whether a value's text matches
+ * @returns Matching stretches, in time order (then signal order)
+ */
+export const findValues = (signals: WaveSignal[], test: (text: string) => boolean, bounds: { start: number; end: number }) => signals
+    .filter(signal => signal.type === 'bus')
+    .flatMap(signal => visibleSegments(signal, bounds, bounds.end)
+        .filter(segment => segment.value && test(segment.value.text))
+        .map((segment): ValueMatch => ({ signalId: signal.id, start: segment.start, end: segment.end })))
+    .sort((a, b) => a.start - b.start);
+
+/**
+ * Picks the match to step to from the cursor, wrapping around at either end.
+ * @returns Index into `matches`, or -1 if there are none
+ */
+export const stepMatch = (matches: ValueMatch[], time: number, direction: 1 | -1) => {
+    if (!matches.length) return -1;
+    if (direction > 0) {
+        const next = matches.findIndex(match => match.start > time + TIME_EPSILON);
+        return next >= 0 ? next : 0;
+    }
+    for (let i = matches.length - 1; i >= 0; i--) if (matches[i].start < time - TIME_EPSILON) return i;
+    return matches.length - 1;
+};
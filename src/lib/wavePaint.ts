@@ -0,0 +1,110 @@
+/**
+ * @file wavePaint.ts
+ * @description Colours and geometry shared by everything that draws waveform
+ * rows: the viewer's canvas and the SVG/PNG export. Colours are written like
+ * Tailwind's, a CSS colour with an optional opacity (`#a855f7/50`,
+ * `var(--color-electric)/10`), and resolved against the current theme.
+ * @module Lib
+ * @author Mishat
+ */
+
+/** Height of a row in pixels, the same as the signal pane's h-10 rows. */
+export const ROW_HEIGHT = 40;
+
+/** Bus segments sit this far below the top of the row, and are this tall. */
+export const BUS_TOP = 8;
+export const BUS_HEIGHT = 24;
+
+/** Room left either side of a bus label, in pixels. */
+export const LABEL_PADDING = 5;
+
+/** Analog lines keep this far from the top and bottom of the row. */
+export const ANALOG_PADDING = 6;
+
+/** Bit levels as fractions of the row height. */
+export const LEVELS: Record<string, number> = { '1': 2 / 24, '0': 22 / 24, 'z': 12 / 24 };
+
+/** Border, fill and label colours of bus segments, and the sheen over their fill. */
+export interface BusColors {
+    border: string;
+    fill?: string;
+    text: string;
+    sheen?: string;
+}
+
+/** Theme colours for one colour token. */
+export interface SignalPalette {
+    /** Text class for the signal's name in the pane */
+    name: string;
+    /** Colour of the signal's name where there are no classes (exports) */
+    label: string;
+    /** Line colour of clocks and bits */
+    stroke: string;
+    /** Bus segment colours */
+    bus?: BusColors;
+    /** Fill under analog lines */
+    area?: string;
+}
+
+/** Colours that don't depend on the signal. */
+export const PAINT = {
+    separator: 'rgb(var(--color-white))/5',
+    selected: 'rgb(var(--color-white))/5',
+    group: 'var(--color-gray-900)/20',
+    unknown: '#ef4444',
+    unknownFill: '#ef4444/20',
+    unknownBorder: '#ef4444/60',
+    unknownText: '#f87171',
+    floatingBorder: '#eab308/60',
+    floatingText: '#facc15',
+    highlight: '#eab308',
+    axis: 'var(--color-gray-500)',
+};
+
+/**
+ * Places an analog value in a row scaled from min (bottom) to max (top).
+ * @returns Its y, in the row's coordinates from `top`
+ */
+export const analogY = (value: number, min: number, max: number, top: number) =>
+    top + ANALOG_PADDING + (1 - (value - min) / (max - min)) * (ROW_HEIGHT - 2 * ANALOG_PADDING);
+
+/**
+ * Picks a bus segment's colours: red for unknown values, yellow for
+ * high-impedance ones, otherwise the signal's own.
+ */
+export const busColors = (palette: SignalPalette, state?: 'x' | 'z'): BusColors => {
+    if (state === 'x') return { border: PAINT.unknownBorder, fill: PAINT.unknownFill, text: PAINT.unknownText };
+    if (state === 'z') return { border: PAINT.floatingBorder, text: PAINT.floatingText };
+    return palette.bus ?? { border: palette.stroke, text: palette.stroke };
+};
+
+/**
+ * Cuts a label to fit a width, ending it with an ellipsis if it was cut.
+ * Labels are monospaced, so one character's width measures them all.
+ */
+export const fitLabel = (text: string, width: number, charWidth: number) => {
+    const room = Math.floor(width / charWidth);
+    if (text.length <= room) return text;
+    return room > 1 ? `${text.slice(0, room - 1)}…` : '';
+};
+
+/**
+ * Makes a function that resolves palette colours to rgba(), reading theme
+ * variables through a probe element's computed style (its own colour is left
+ * as it was). Results are cached, so make a new one when the theme changes.
+ */
+export const createPainter = (probe: HTMLElement) => {
+    const cache = new Map<string, string>();
+    return (paint: string) => {
+        const cached = cache.get(paint);
+        if (cached) return cached;
+        const [, color, opacity] = /^(.*?)(?:\/(\d+))?$/.exec(paint)!;
+        const saved = probe.style.color;
+        probe.style.color = color;
+        const [r = 0, g = 0, b = 0, a = 1] = (getComputedStyle(probe).color.match(/[\d.]+/g) ?? []).map(Number);
+        probe.style.color = saved;
+        const resolved = `rgba(${r}, ${g}, ${b}, ${opacity ? (a * Number(opacity)) / 100 : a})`;
+        cache.set(paint, resolved);
+        return resolved;
+    };
+};
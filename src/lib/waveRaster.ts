@@ -0,0 +1,177 @@
+/**
+ * @file waveRaster.ts
+ * @description Level of detail for the waveform canvas: reduces a signal over
+ * a view to the blocks worth drawing at a given width in pixels. Stretches of
+ * constant value become value blocks; runs of transitions too close together
+ * to tell apart become dense blocks, drawn hatched. Analog signals become a
+ * polyline scaled to the values in view. The work done is bounded by the
+ * width, not by the number of transitions.
+ * @module Lib
+ * @author Mishat
+ */
+import { WaveSignal, WaveValue } from './waveModel';
+
+/** Stretches narrower than this many pixels are folded into dense blocks. */
+const MIN_BLOCK_PIXELS = 1;
+
+/** Clocks whose half period is narrower than this many pixels are drawn as one dense block. */
+const MIN_CLOCK_PIXELS = 2;
+
+/** A stretch of a signal to draw: one value, or (dense) too many to show. */
+export interface RasterBlock {
+    start: number;
+    end: number;
+    value: WaveValue | null;
+    dense: boolean;
+}
+
+/**
+ * Finds the last edge at or before a time.
+ * @returns Its index, or -1 if every edge is later
+ */
+const lastEdgeAtOrBefore = (edges: number[], time: number) => {
+    let lo = 0;
+    let hi = edges.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (edges[mid] <= time) lo = mid + 1;
+        else hi = mid - 1;
+    }
+    return hi;
+};
+
+const sameValue = (a: WaveValue | null, b: WaveValue | null) => a?.text === b?.text && a?.state === b?.state;
+
+/**
+ * Reduces a signal to the blocks to draw over a view.
+ * @param width - Width of the view in pixels
+ * @param endTime - Where the last value ends
+ */
+export const rasterizeSignal = (signal: WaveSignal, view: { start: number; end: number }, width: number, endTime: number) => {
+    const { edges } = signal;
+    const stop = Math.min(view.end, endTime);
+    const blocks: RasterBlock[] = [];
+    if (!edges.length || width <= 0 || stop <= view.start) return blocks;
+
+    const minWidth = ((view.end - view.start) / width) * MIN_BLOCK_PIXELS;
+    const segmentEnd = (i: number) => Math.min(edges[i + 1] ?? endTime, endTime);
+    const push = (block: RasterBlock) => {
+        const last = blocks[blocks.length - 1];
+        if (last && last.end === block.start && last.dense === block.dense && (block.dense || sameValue(last.value, block.value))) last.end = block.end;
+        else blocks.push(block);
+    };
+
+    // Nothing is drawn before the first edge
+    let i = Math.max(0, lastEdgeAtOrBefore(edges, view.start));
+    let time = Math.max(view.start, edges[i]);
+    while (i < edges.length && time < stop) {
+        const end = segmentEnd(i);
+        if (end <= time) {
+            i++;
+            continue;
+        }
+        if (end - edges[i] >= minWidth) {
+            push({ start: time, end: Math.min(end, stop), value: signal.value(edges[i]), dense: false });
+            time = end;
+            i++;
+            continue;
+        }
+        // Skip ahead a pixel at a time until a stretch is wide enough to show
+        let j = i;
+        while (j < edges.length && edges[j] < stop && segmentEnd(j) - edges[j] < minWidth) {
+            j = Math.max(j + 1, lastEdgeAtOrBefore(edges, edges[j] + minWidth));
+        }
+        const denseEnd = Math.min(j < edges.length ? edges[j] : endTime, stop);
+        push({ start: time, end: denseEnd, value: null, dense: true });
+        time = denseEnd;
+        i = j;
+    }
+    return blocks;
+};
+
+/**
+ * Lists the rising edges of a clock that bound the cycles overlapping a view.
+ * @returns The edges, or null when the clock is too fast to draw at this width
+ */
+export const clockEdges = (view: { start: number; end: number }, width: number, origin: number, period: number) => {
+    if ((period / 2 / (view.end - view.start)) * width < MIN_CLOCK_PIXELS) return null;
+    const first = Math.floor((view.start - origin) / period);
+    const last = Math.ceil((view.end - origin) / period);
+    return Array.from({ length: last - first + 1 }, (_, i) => origin + (first + i) * period);
+};
+
+/** An analog signal over a view: the line to draw and the range it spans. */
+export interface AnalogTrace {
+    /** `[time, value]` vertices of the line, with steps already squared off */
+    points: Array<[number, number]>;
+    min: number;
+    max: number;
+}
+
+/**
+ * Reduces an analog signal to the line to draw over a view, scaled to the
+ * values in view. Where there are more samples than pixels, each pixel
+ * column is drawn as a vertical stroke from its lowest value to its highest.
+ * @param width - Width of the view in pixels
+ * @param endTime - Where the last value ends
+ * @returns The trace, or null where nothing in view is driven
+ */
+export const analogTrace = (signal: WaveSignal, view: { start: number; end: number }, width: number, endTime: number): AnalogTrace | null => {
+    const { edges } = signal;
+    const stop = Math.min(view.end, endTime);
+    if (!edges.length || width <= 0 || stop <= view.start) return null;
+
+    const sample = (time: number) => signal.value(time)?.number;
+    const step = signal.interpolation === 'step';
+    const first = Math.max(0, lastEdgeAtOrBefore(edges, view.start));
+    const start = Math.max(view.start, edges[first]);
+    if (start >= stop) return null;
+
+    const points: Array<[number, number]> = [];
+    const add = (time: number, value: number | undefined) => {
+        if (value === undefined) return;
+        // A step holds the previous value up to the sample, then jumps
+        const last = points[points.length - 1];
+        if (step && last && last[1] !== value) points.push([time, last[1]]);
+        points.push([time, value]);
+    };
+
+    add(start, sample(start));
+    const pixel = (view.end - view.start) / width;
+    let i = first + 1;
+    while (i < edges.length && edges[i] < stop) {
+        const column = Math.floor((edges[i] - view.start) / pixel);
+        const columnEnd = view.start + (column + 1) * pixel;
+        const j = lastEdgeAtOrBefore(edges, columnEnd - pixel * 1e-6);
+        if (j <= i) {
+            add(edges[i], sample(edges[i]));
+            i++;
+            continue;
+        }
+        // Several samples in one pixel column: draw their spread, ending on the last
+        let [low, high] = [Infinity, -Infinity];
+        for (let k = i; k <= j && edges[k] < stop; k++) {
+            const value = sample(edges[k]);
+            if (value === undefined) continue;
+            low = Math.min(low, value);
+            high = Math.max(high, value);
+        }
+        const time = view.start + (column + 0.5) * pixel;
+        if (low <= high) {
+            points.push([time, low], [time, high]);
+            add(time, sample(edges[Math.min(j, edges.length - 1)]));
+        }
+        i = j + 1;
+    }
+    add(stop, sample(stop));
+    if (!points.length) return null;
+
+    let [min, max] = [Infinity, -Infinity];
+    for (const [, value] of points) {
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+    }
+    // A flat line sits mid-row, with a unit of room either side
+    if (min === max) [min, max] = [min - 1, max + 1];
+    return { points, min, max };
+};
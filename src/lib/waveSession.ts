@@ -0,0 +1,370 @@
+/**
+ * @file waveSession.ts
+ * @description Saves and restores the waveform viewer's session: the rows
+ * (order, groups, comments, which signals are shown), display formats, the
+ * zoom window, cursors and markers. Sessions are written as save files
+ * modeled on GTKWave's `.gtkw`, and compactly in a URL hash for sharing links.
+ * @module Lib
+ * @author Mishat
+ */
+import { EnumLabels, VALUE_RADIXES, ValueRadix, formatEnumLabels, parseEnumLabels } from './radix';
+import { Interpolation, LeafRow, PaneRow, WaveSignal, newRowId } from './waveModel';
+
+/** How a signal is displayed, where it differs from how it was declared. */
+export interface SignalFormat {
+    radix?: ValueRadix;
+    /** Labels for the enum radix, in place of the signal's own */
+    labels?: EnumLabels;
+    interpolation?: Interpolation;
+}
+
+/** Everything about the view that a session keeps. */
+export interface WaveSession {
+    /** Name of the dump the session was saved over; absent for the career trace */
+    dumpFile?: string;
+    view: { start: number; end: number };
+    cursor: number;
+    secondary: number | null;
+    markers: { name: string; time: number }[];
+    rows: PaneRow[];
+    /** Display formats, keyed by signal id */
+    formats: Record<string, SignalFormat>;
+}
+
+/**
+ * Thrown when a save file or link can't be read.
+ */
+export class SessionError extends Error {
+    /** 1-based line of the save file, for read errors */
+    line?: number;
+
+    constructor(message: string, line?: number) {
+        super(line === undefined ? message : `line ${line}: ${message}`);
+        this.name = 'SessionError';
+        this.line = line;
+    }
+}
+
+/** Suffix of save files. */
+export const SESSION_EXTENSION = '.gtkw';
+
+/** GTKWave's trace flags, as written after `@` in hex. */
+const FLAG = {
+    hex: 0x2,
+    decimal: 0x4,
+    binary: 0x8,
+    rightJustify: 0x20,
+    blank: 0x200,
+    signed: 0x400,
+    ascii: 0x800,
+    analogStep: 0x8000,
+    analogInterpolated: 0x10000,
+    closed: 0x400000,
+    groupBegin: 0x800000,
+    groupEnd: 0x1000000,
+};
+
+/** Flags of each radix. GTKWave has no enum radix; it is hex with labels on an `[enum]` line. */
+const RADIX_FLAGS: Record<ValueRadix, number> = {
+    hex: FLAG.hex,
+    binary: FLAG.binary,
+    decimal: FLAG.decimal,
+    signed: FLAG.decimal | FLAG.signed,
+    ascii: FLAG.ascii,
+    enum: FLAG.hex,
+};
+
+/**
+ * Reads the radix back from a signal's flags.
+ */
+const flagsRadix = (flags: number): ValueRadix => {
+    if (flags & FLAG.ascii) return 'ascii';
+    if (flags & FLAG.binary) return 'binary';
+    if (flags & FLAG.decimal) return flags & FLAG.signed ? 'signed' : 'decimal';
+    return 'hex';
+};
+
+/**
+ * Writes a session as a save file. Signals are named as the viewer names
+ * them and only shown ones are listed, in order; hidden ones are left out.
+ * @param signals - The signals as displayed, with their formats applied
+ * @param savedAt - Timestamp for the header comment
+ */
+export const writeSession = (session: WaveSession, signals: Map<string, WaveSignal>, savedAt = new Date()) => {
+    const lines = [
+        '[*]',
+        `[*] Waveform viewer session, saved ${savedAt.toUTCString()}`,
+        '[*]',
+    ];
+    if (session.dumpFile) lines.push(`[dumpfile] "${session.dumpFile}"`);
+    lines.push(`[timestart] ${session.view.start}`, `[timeend] ${session.view.end}`, `[cursor] ${session.cursor}`);
+    if (session.secondary !== null) lines.push(`[baseline] ${session.secondary}`);
+    for (const marker of session.markers) lines.push(`[marker] ${marker.name} ${marker.time}`);
+
+    const flagLine = (flags: number) => `@${flags.toString(16)}`;
+    const writeRow = (row: LeafRow) => {
+        if (row.kind === 'blank') lines.push(flagLine(FLAG.blank), '-');
+        else if (row.kind === 'comment') lines.push(flagLine(FLAG.blank), `-${row.text}`);
+        else {
+            const signal = signals.get(row.signalId);
+            if (!signal || row.hidden) return;
+            let flags = FLAG.rightJustify | (signal.radix ? RADIX_FLAGS[signal.radix] : FLAG.hex);
+            if (signal.type === 'analog') flags = FLAG.rightJustify | FLAG.decimal | (signal.interpolation === 'step' ? FLAG.analogStep : FLAG.analogInterpolated);
+            else if (signal.type !== 'bus') flags = FLAG.rightJustify | FLAG.binary;
+            lines.push(flagLine(flags));
+            if (signal.radix === 'enum' && signal.enumLabels) lines.push(`[enum] ${formatEnumLabels(signal.enumLabels)}`);
+            lines.push(signal.name);
+        }
+    };
+    for (const row of session.rows) {
+        if (row.kind !== 'group') {
+            writeRow(row);
+            continue;
+        }
+        const closed = row.collapsed ? FLAG.closed : 0;
+        lines.push(flagLine(FLAG.blank | FLAG.groupBegin | closed), `-${row.name}`);
+        row.rows.forEach(writeRow);
+        lines.push(flagLine(FLAG.blank | FLAG.groupEnd | closed), `-${row.name}`);
+    }
+    return lines.join('\n') + '\n';
+};
+
+/**
+ * Gives every signal a row: rows of unknown signals are dropped, and signals
+ * without a row are added, hidden, at the end.
+ */
+export const completeRows = (rows: PaneRow[], signals: WaveSignal[]): PaneRow[] => {
+    const ids = new Set(signals.map(signal => signal.id));
+    const known = (row: PaneRow) => row.kind !== 'signal' || ids.has(row.signalId);
+    const kept = rows.filter(known).map(row => row.kind === 'group' ? { ...row, rows: row.rows.filter(known) } : row);
+    const placed = new Set(kept.flatMap(row => row.kind === 'group' ? row.rows : [row]).flatMap(row => row.kind === 'signal' ? [row.signalId] : []));
+    const missing = signals
+        .filter(signal => !placed.has(signal.id))
+        .map((signal): PaneRow => ({ id: `signal-${signal.id}`, kind: 'signal', signalId: signal.id, hidden: true }));
+    return [...kept, ...missing];
+};
+
+/**
+ * Reads a save file. Lines the viewer has no use for (GTKWave's window sizes,
+ * tree state and the like) are skipped.
+ * @param signals - The signals the session is restored over
+ * @returns The session, and the names of signals it lists that aren't there
+ * @throws {SessionError} On a malformed line, or a file without a time window
+ */
+export const readSession = (text: string, signals: WaveSignal[]): { session: WaveSession; missing: string[] } => {
+    const byName = new Map(signals.map(signal => [signal.name, signal]));
+    const session: WaveSession = { view: { start: NaN, end: NaN }, cursor: NaN, secondary: null, markers: [], rows: [], formats: {} };
+    const missing: string[] = [];
+    let flags = 0;
+    let labels: EnumLabels | undefined;
+    let group: Extract<PaneRow, { kind: 'group' }> | null = null;
+    const add = (row: LeafRow) => {
+        if (group) group.rows.push(row);
+        else session.rows.push(row);
+    };
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        const lineNumber = index + 1;
+        const time = (value: string) => {
+            const parsed = Number(value);
+            if (value === '' || !Number.isFinite(parsed)) throw new SessionError(`expected a time, got '${value}'`, lineNumber);
+            return parsed;
+        };
+        if (!line || line.startsWith('[*]')) return;
+
+        const setting = /^\[(\w+)\]\s*(.*)$/.exec(line);
+        if (setting) {
+            const [, key, value] = setting;
+            if (key === 'dumpfile') session.dumpFile = value.replace(/^"(.*)"$/, '$1');
+            else if (key === 'timestart') session.view.start = time(value);
+            else if (key === 'timeend') session.view.end = time(value);
+            else if (key === 'cursor') session.cursor = time(value);
+            else if (key === 'baseline') session.secondary = time(value);
+            else if (key === 'marker') {
+                const [name, at = ''] = value.split(/\s+/);
+                session.markers.push({ name, time: time(at) });
+            } else if (key === 'enum') {
+                try {
+                    labels = parseEnumLabels(value);
+                } catch (err) {
+                    throw new SessionError(err instanceof Error ? err.message : String(err), lineNumber);
+                }
+            }
+            return;
+        }
+        if (line.startsWith('@')) {
+            flags = parseInt(line.slice(1), 16);
+            if (Number.isNaN(flags)) throw new SessionError(`expected trace flags in hex, got '${line}'`, lineNumber);
+            labels = undefined;
+            return;
+        }
+        if (line.startsWith('-')) {
+            const name = line.slice(1);
+            if (flags & FLAG.groupBegin) {
+                group = { id: newRowId(), kind: 'group', name, collapsed: Boolean(flags & FLAG.closed), rows: [] };
+                session.rows.push(group);
+            } else if (flags & FLAG.groupEnd) group = null;
+            else add(name ? { id: newRowId(), kind: 'comment', text: name } : { id: newRowId(), kind: 'blank' });
+            return;
+        }
+        // GTKWave's translate filters and the like
+        if (line.startsWith('^') || line.startsWith('*')) return;
+
+        const signal = byName.get(line);
+        if (!signal) {
+            missing.push(line);
+            return;
+        }
+        add({ id: `signal-${signal.id}`, kind: 'signal', signalId: signal.id });
+        if (signal.type === 'analog') {
+            if (flags & (FLAG.analogStep | FLAG.analogInterpolated)) {
+                session.formats[signal.id] = { interpolation: flags & FLAG.analogStep ? 'step' : 'linear' };
+            }
+        } else if (signal.width !== undefined) {
+            const radix = labels ? 'enum' : flagsRadix(flags);
+            session.formats[signal.id] = labels ? { radix, labels } : { radix };
+        }
+    });
+
+    if (Number.isNaN(session.view.start) || Number.isNaN(session.view.end)) throw new SessionError('no [timestart] and [timeend]');
+    if (Number.isNaN(session.cursor)) session.cursor = session.view.start;
+    session.rows = completeRows(session.rows, signals);
+    return { session, missing };
+};
+
+/** The URL hash parameter holding a session. */
+const HASH_KEY = 'wave';
+
+/** Times in links are kept to this many decimal places. */
+const HASH_PRECISION = 6;
+
+/**
+ * A row in a link: a signal by its index in the signal list (`~index` when
+ * hidden), a blank (null), a comment (its text), or a group as
+ * [name, collapsed (0/1), rows].
+ */
+type HashLeaf = number | string | null;
+type HashRow = HashLeaf | [string, number, HashLeaf[]];
+
+/** A session in a link, with short keys. Formats are [signal index, radix, labels, interpolation]. */
+interface HashSession {
+    v: [number, number];
+    c: number;
+    s?: number;
+    m?: Record<string, number>;
+    r: HashRow[];
+    f?: Array<[number, ValueRadix | 0, EnumLabels | 0, Interpolation | 0]>;
+}
+
+const toBase64Url = (text: string) => {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+/**
+ * Tells whether a URL hash holds a session, without reading it.
+ */
+export const hasSessionHash = (hash: string) => new URLSearchParams(hash.replace(/^#/, '')).has(HASH_KEY);
+
+/**
+ * Encodes a session as a URL hash (`#wave=…`). The dump isn't part of it, so
+ * links are for the career trace.
+ * @param signals - The signal list; rows refer to signals by their place in it
+ */
+export const sessionHash = (session: WaveSession, signals: WaveSignal[]) => {
+    const round = (time: number) => Number(time.toFixed(HASH_PRECISION));
+    const index = new Map(signals.map((signal, i) => [signal.id, i]));
+    const leaf = (row: LeafRow): HashLeaf[] => {
+        if (row.kind === 'blank') return [null];
+        if (row.kind === 'comment') return [row.text];
+        const i = index.get(row.signalId);
+        return i === undefined ? [] : [row.hidden ? ~i : i];
+    };
+    const compact: HashSession = {
+        v: [round(session.view.start), round(session.view.end)],
+        c: round(session.cursor),
+        r: session.rows.flatMap((row): HashRow[] => row.kind === 'group' ? [[row.name, row.collapsed ? 1 : 0, row.rows.flatMap(leaf)]] : leaf(row)),
+    };
+    if (session.secondary !== null) compact.s = round(session.secondary);
+    if (session.markers.length) compact.m = Object.fromEntries(session.markers.map(marker => [marker.name, round(marker.time)]));
+    const formats = Object.entries(session.formats).filter(([id]) => index.has(id));
+    if (formats.length) {
+        compact.f = formats.map(([id, format]) => [index.get(id)!, format.radix ?? 0, format.labels ?? 0, format.interpolation ?? 0]);
+    }
+    return `#${HASH_KEY}=${toBase64Url(JSON.stringify(compact))}`;
+};
+
+/**
+ * Tells whether a link's enum labels are what parseEnumLabels would have
+ * made: decimal values mapped to labels without spaces.
+ */
+const isEnumLabels = (labels: unknown): labels is EnumLabels =>
+    typeof labels === 'object' && labels !== null && !Array.isArray(labels)
+    && Object.entries(labels).every(([value, label]) => /^\d+$/.test(value) && typeof label === 'string' && /^\S+$/.test(label));
+
+/**
+ * Reads a session from a URL hash.
+ * @param signals - The signal list the link was made with
+ * @returns The session, or null if the hash doesn't hold one
+ * @throws {SessionError} If it holds one that can't be read
+ */
+export const readSessionHash = (hash: string, signals: WaveSignal[]): WaveSession | null => {
+    const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+    if (encoded === null) return null;
+    let compact: HashSession;
+    try {
+        compact = JSON.parse(fromBase64Url(encoded));
+    } catch {
+        throw new SessionError('the link is damaged');
+    }
+    const isTime = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+    const isView = (view: unknown): view is [number, number] =>
+        Array.isArray(view) && view.length === 2 && view.every(isTime) && view[0] < view[1];
+    if (!isView(compact?.v) || !isTime(compact.c) || !Array.isArray(compact.r)) {
+        throw new SessionError('the link is damaged');
+    }
+
+    // Indexes past the end of the list are left out
+    const leaf = (token: unknown): LeafRow[] => {
+        if (token === null) return [{ id: newRowId(), kind: 'blank' }];
+        if (typeof token === 'string') return [{ id: newRowId(), kind: 'comment', text: token }];
+        if (typeof token !== 'number' || !Number.isInteger(token)) return [];
+        const signal = signals[token < 0 ? ~token : token];
+        if (!signal) return [];
+        return [{ id: `signal-${signal.id}`, kind: 'signal', signalId: signal.id, ...(token < 0 ? { hidden: true } : {}) }];
+    };
+    const rows = compact.r.flatMap((token): PaneRow[] => {
+        if (!Array.isArray(token)) return leaf(token);
+        const [name, collapsed, children] = token;
+        return [{ id: newRowId(), kind: 'group', name: String(name), collapsed: Boolean(collapsed), rows: (Array.isArray(children) ? children : []).flatMap(leaf) }];
+    });
+
+    // Formats are checked, as a bad radix would break every view of the signal
+    const formats: Record<string, SignalFormat> = {};
+    for (const format of Array.isArray(compact.f) ? compact.f : []) {
+        const [index, radix, labels, interpolation] = Array.isArray(format) ? format : [];
+        const signal = typeof index === 'number' ? signals[index] : undefined;
+        if (!signal) continue;
+        formats[signal.id] = {
+            ...(VALUE_RADIXES.some(r => r.radix === radix) ? { radix: radix as ValueRadix } : {}),
+            ...(isEnumLabels(labels) ? { labels } : {}),
+            ...(interpolation === 'step' || interpolation === 'linear' ? { interpolation } : {}),
+        };
+    }
+    return {
+        view: { start: compact.v[0], end: compact.v[1] },
+        cursor: compact.c,
+        secondary: isTime(compact.s) ? compact.s : null,
+        markers: Object.entries(compact.m ?? {}).filter(([, time]) => isTime(time)).map(([name, time]) => ({ name, time })),
+        rows: completeRows(rows, signals),
+        formats,
+    };
+};
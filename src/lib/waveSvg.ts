@@ -0,0 +1,264 @@
+/**
+ * @file waveSvg.ts
+ * @description Exports the waveform viewer's view as a standalone SVG (signal
+ * names, rows over the visible time window, grid, cursors and markers), with
+ * colours resolved from the current theme, and rasterizes it to PNG.
+ * @module Lib
+ * @author Mishat
+ */
+import { GridTick, TimeWindow } from './timeWindow';
+import { FlatRow, SignalColor, WaveSignal, formatAnalog } from './waveModel';
+import {
+    ANALOG_PADDING, BUS_HEIGHT, BUS_TOP, LABEL_PADDING, LEVELS, PAINT, ROW_HEIGHT, SignalPalette,
+    analogY, busColors, fitLabel,
+} from './wavePaint';
+import { analogTrace, clockEdges, rasterizeSignal } from './waveRaster';
+
+/** Width of the signal name column, in pixels. */
+const NAME_WIDTH = 200;
+
+/** Indent of a row inside a group, in pixels. */
+const GROUP_INDENT = 16;
+
+/** Advance of one character of the 10px label font (monospaced, 0.6em). */
+const CHAR_WIDTH = 6;
+
+const FONT_FAMILY = `'JetBrains Mono', Menlo, Consolas, monospace`;
+
+/** Colours of the parts around the rows. */
+const FRAME = {
+    names: 'rgb(var(--color-black))',
+    waves: 'var(--color-obsidian)',
+    divider: 'var(--color-gray-800)',
+    grid: 'var(--color-gray-400)',
+    comment: 'var(--color-gray-500)',
+    group: 'var(--color-gray-300)',
+    markText: '#000000',
+};
+
+/** A vertical line across the rows: a cursor or a named marker. */
+export interface WaveMark {
+    time: number;
+    color: string;
+    /** Shown in a tag at the top of the line */
+    label?: string;
+    dashed?: boolean;
+}
+
+export interface WaveSvgOptions {
+    /** The visible rows, as flattenRows lays them out */
+    rows: FlatRow[];
+    signals: Map<string, WaveSignal>;
+    palettes: Record<SignalColor, SignalPalette>;
+    view: TimeWindow;
+    /** End of the time axis; the last value holds until then */
+    endTime: number;
+    /** Width of the time window, in pixels */
+    width: number;
+    ticks: GridTick[];
+    marks: WaveMark[];
+    /** Resolves palette colours against the current theme (see createPainter) */
+    paint: (color: string) => string;
+}
+
+const escapeXml = (text: string) => text.replace(/[<>&'"]/g, ch => `&#${ch.charCodeAt(0)};`);
+
+/** Rounds coordinates to keep the file small. */
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Renders rows over a time window as an SVG document.
+ * Colours are written as rgb() with a separate opacity, which slide and
+ * drawing programs read more reliably than rgba().
+ */
+export const buildWaveSvg = ({ rows, signals, palettes, view, endTime, width, ticks, marks, paint }: WaveSvgOptions) => {
+    const totalWidth = NAME_WIDTH + width;
+    const height = (rows.length + 1) * ROW_HEIGHT;
+    const span = view.end - view.start;
+    const x = (time: number) => round(NAME_WIDTH + ((time - view.start) / span) * width);
+
+    const color = (attribute: 'fill' | 'stroke', value: string) => {
+        const [r, g, b, a] = paint(value).match(/[\d.]+/g)!;
+        return `${attribute}="rgb(${r}, ${g}, ${b})"${a === '1' ? '' : ` ${attribute}-opacity="${a}"`}`;
+    };
+    const rect = (left: number, top: number, w: number, h: number, attributes: string) =>
+        `<rect x="${round(left)}" y="${round(top)}" width="${round(Math.max(0, w))}" height="${round(h)}" ${attributes}/>`;
+    const text = (left: number, top: number, content: string, attributes: string) =>
+        `<text x="${round(left)}" y="${round(top)}" dominant-baseline="central" ${attributes}>${escapeXml(content)}</text>`;
+
+    // One hatch pattern per colour, for dense blocks
+    const hatches = new Map<string, string>();
+    const hatch = (value: string, left: number, top: number, right: number, bottom: number) => {
+        let id = hatches.get(value);
+        if (!id) {
+            id = `hatch-${hatches.size}`;
+            hatches.set(value, id);
+        }
+        return rect(left, top, Math.max(1, right - left), bottom - top, `fill="url(#${id})"`);
+    };
+
+    const backs: string[] = [];
+    const names: string[] = [];
+    const waves: string[] = [];
+    rows.forEach(({ row, depth }, index) => {
+        const top = (index + 1) * ROW_HEIGHT;
+        const bottom = top + ROW_HEIGHT;
+        const middle = top + ROW_HEIGHT / 2;
+        const nameX = 8 + depth * GROUP_INDENT;
+
+        if (row.kind === 'group') {
+            backs.push(rect(0, top, totalWidth, ROW_HEIGHT, color('fill', PAINT.group)));
+            names.push(text(nameX, middle, row.name, `font-weight="bold" ${color('fill', FRAME.group)}`));
+        }
+        if (row.kind === 'comment') names.push(text(nameX, middle, row.text, `font-style="italic" ${color('fill', FRAME.comment)}`));
+        backs.push(rect(0, bottom - 1, totalWidth, 1, color('fill', PAINT.separator)));
+
+        const signal = row.kind === 'signal' ? signals.get(row.signalId) : undefined;
+        if (!signal) return;
+        const palette = palettes[signal.color];
+        names.push(text(nameX, middle, signal.name, color('fill', palette.label)));
+
+        if (signal.type === 'clock' && signal.period) {
+            const edges = clockEdges(view, width, signal.edges[0] ?? 0, signal.period);
+            if (!edges) {
+                waves.push(hatch(palette.stroke, NAME_WIDTH, top, totalWidth, bottom));
+                return;
+            }
+            const path = `M ${x(edges[0])} ${bottom} ` + edges.slice(0, -1).map(edge => {
+                const high = x(edge + signal.period! / 2);
+                return `L ${x(edge)} ${top} L ${high} ${top} L ${high} ${bottom} L ${x(edge + signal.period!)} ${bottom}`;
+            }).join(' ');
+            waves.push(`<path d="${path}" fill="none" ${color('stroke', palette.stroke)}/>`);
+            return;
+        }
+
+        if (signal.type === 'analog') {
+            const trace = analogTrace(signal, view, width, endTime);
+            if (!trace) return;
+            const { points, min, max } = trace;
+            const y = (value: number) => round(analogY(value, min, max, top));
+            const line = points.map(([time, value], i) => `${i ? 'L' : 'M'} ${x(time)} ${y(value)}`).join(' ');
+            if (palette.area) {
+                const close = `L ${x(points[points.length - 1][0])} ${y(min)} L ${x(points[0][0])} ${y(min)} Z`;
+                waves.push(`<path d="${line} ${close}" ${color('fill', palette.area)}/>`);
+            }
+            waves.push(`<path d="${line}" fill="none" stroke-width="1.5" ${color('stroke', palette.stroke)}/>`);
+            waves.push(
+                text(NAME_WIDTH + 4, top + ANALOG_PADDING, formatAnalog(max, signal.unit), color('fill', PAINT.axis)),
+                text(NAME_WIDTH + 4, bottom - ANALOG_PADDING, formatAnalog(min, signal.unit), color('fill', PAINT.axis)),
+            );
+            return;
+        }
+
+        const blocks = rasterizeSignal(signal, view, width, endTime);
+
+        if (signal.type !== 'bus') {
+            const levelY = (level: number) => round(top + level * ROW_HEIGHT);
+            const [high, low] = [levelY(LEVELS['1']), levelY(LEVELS['0'])];
+            let path = '';
+            let previous: number | undefined;
+            for (const { start, end, value, dense } of blocks) {
+                if (dense) waves.push(hatch(palette.stroke, x(start), high, x(end), low));
+                else if (value?.text === 'x') {
+                    waves.push(rect(x(start), high, x(end) - x(start), low - high, `${color('fill', PAINT.unknownFill)} ${color('stroke', PAINT.unknown)} stroke-width="0.5"`));
+                }
+                const level = value ? LEVELS[value.text] : undefined;
+                if (level === undefined) {
+                    previous = undefined;
+                    continue;
+                }
+                // A vertical edge from the previous level, then the level itself
+                if (previous !== undefined && previous !== level) path += `M ${x(start)} ${levelY(previous)} L ${x(start)} ${levelY(level)} `;
+                path += `M ${x(start)} ${levelY(level)} L ${x(end)} ${levelY(level)} `;
+                previous = level;
+            }
+            if (path) waves.push(`<path d="${path.trim()}" fill="none" ${color('stroke', palette.stroke)}/>`);
+            return;
+        }
+
+        const busTop = top + BUS_TOP;
+        for (const { start, end, value, dense } of blocks) {
+            const [left, right] = [x(start), x(end)];
+            if (dense) {
+                waves.push(hatch(palette.bus?.border ?? palette.stroke, left, busTop, right, busTop + BUS_HEIGHT));
+                continue;
+            }
+            if (!value) continue;
+            const colors = busColors(palette, value.state);
+            if (colors.fill) waves.push(rect(left, busTop, right - left, BUS_HEIGHT, color('fill', colors.fill)));
+            if (!value.state && colors.sheen) waves.push(rect(left, busTop, right - left, BUS_HEIGHT, color('fill', colors.sheen)));
+            waves.push(rect(left + 0.5, busTop + 0.5, right - left - 1, BUS_HEIGHT - 1, `fill="none" ${color('stroke', colors.border)}`));
+            // Labels are centred on the part of the segment in view
+            const [shownLeft, shownRight] = [Math.max(left, NAME_WIDTH), Math.min(right, totalWidth)];
+            const label = fitLabel(value.text, shownRight - shownLeft - 2 * LABEL_PADDING, CHAR_WIDTH);
+            if (label) waves.push(text((shownLeft + shownRight) / 2, busTop + BUS_HEIGHT / 2, label, `text-anchor="middle" ${color('fill', colors.text)}`));
+        }
+    });
+
+    const grid = ticks.flatMap(tick => [
+        rect(x(tick.time), 0, 1, height, color('fill', PAINT.separator)),
+        text(x(tick.time) + 4, ROW_HEIGHT / 2, tick.label, color('fill', FRAME.grid)),
+    ]);
+
+    const markLines = marks.flatMap(mark => {
+        const at = x(mark.time);
+        const line = `<line x1="${at}" y1="0" x2="${at}" y2="${height}" ${color('stroke', mark.color)}${mark.dashed ? ' stroke-dasharray="4 3"' : ''}/>`;
+        if (!mark.label) return [line];
+        const tagWidth = mark.label.length * CHAR_WIDTH + 6;
+        return [
+            line,
+            rect(at, 2, tagWidth, 14, color('fill', mark.color)),
+            text(at + 3, 9, mark.label, `font-weight="bold" ${color('fill', FRAME.markText)}`),
+        ];
+    });
+
+    const patterns = [...hatches].map(([value, id]) =>
+        `<pattern id="${id}" width="6" height="6" patternUnits="userSpaceOnUse"><path d="M 0 6 L 6 0 M -1 1 L 1 -1 M 5 7 L 7 5" ${color('stroke', value)}/></pattern>`
+    );
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${totalWidth}" height="${height}" viewBox="0 0 ${totalWidth} ${height}" font-family="${FONT_FAMILY}" font-size="10">`,
+        `<defs>`,
+        `<clipPath id="names"><rect x="0" y="0" width="${NAME_WIDTH - 8}" height="${height}"/></clipPath>`,
+        `<clipPath id="waves"><rect x="${NAME_WIDTH}" y="0" width="${width}" height="${height}"/></clipPath>`,
+        ...patterns,
+        `</defs>`,
+        rect(0, 0, NAME_WIDTH, height, color('fill', FRAME.names)),
+        rect(NAME_WIDTH, 0, width, height, color('fill', FRAME.waves)),
+        ...backs,
+        `<g clip-path="url(#waves)">${[...grid, ...waves, ...markLines].join('')}</g>`,
+        `<g clip-path="url(#names)">${names.join('')}</g>`,
+        rect(NAME_WIDTH - 1, 0, 1, height, color('fill', FRAME.divider)),
+        rect(0, ROW_HEIGHT - 1, totalWidth, 1, color('fill', PAINT.separator)),
+        '</svg>',
+    ].join('\n');
+};
+
+/**
+ * Rasterizes an SVG document to PNG.
+ * @param scale - Pixels per SVG unit, e.g. 2 for high-density slides
+ * @throws {Error} If the browser can't render or encode the image
+ */
+export const svgToPng = (svg: string, scale: number) => new Promise<Blob>((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+        URL.revokeObjectURL(url);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            reject(new Error('canvas is not available'));
+            return;
+        }
+        ctx.scale(scale, scale);
+        ctx.drawImage(image, 0, 0);
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('the SVG could not be rendered'));
+    };
+    image.src = url;
+});